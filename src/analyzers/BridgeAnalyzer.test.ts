@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { BridgeAnalyzer } from './BridgeAnalyzer';
+import { TransactionAnalyzer } from './TransactionAnalyzer';
+import { PersonaGenerator } from '../generators/PersonaGenerator';
+import { Transaction } from '../types';
+
+const swap = (hash: string, timestamp: string, chainId: number): Transaction => ({
+  hash,
+  timestamp,
+  type: 'swap',
+  details: { protocol: 'Uniswap V3', token_in: 'ETH', token_out: 'USDC' },
+  chainId,
+});
+
+describe('BridgeAnalyzer', () => {
+  // Ethereum -> Arbitrum over the canonical bridge, then Arbitrum -> Base over Across
+  const journey: Transaction[] = [
+    swap('0x1', '2024-01-01T00:00:00Z', 1),
+    { hash: '0x2', timestamp: '2024-01-11T00:00:00Z', type: 'bridge', details: { protocol: 'Arbitrum Bridge', token: 'ETH' }, chainId: 1 },
+    swap('0x3', '2024-01-12T00:00:00Z', 42161),
+    {
+      hash: '0x4',
+      timestamp: '2024-01-15T00:00:00Z',
+      type: 'bridge',
+      details: { protocol: 'Across', token: 'USDC', destination_chain_id: 8453 },
+      chainId: 42161,
+    },
+    {
+      hash: '0x5',
+      timestamp: '2024-01-15T01:00:00Z',
+      type: 'bridge',
+      details: { protocol: 'Across', token: 'USDC', direction: 'in', source_chain_id: 42161 },
+      chainId: 8453,
+    },
+    swap('0x6', '2024-01-31T00:00:00Z', 8453),
+  ];
+
+  it('should give each bridge transfer its direction, chains and time on the source chain', () => {
+    const activity = new BridgeAnalyzer().analyze(journey);
+
+    expect(activity.bridges).toEqual([
+      {
+        protocol: 'Arbitrum Bridge', direction: 'out', token: 'ETH', timestamp: '2024-01-11T00:00:00Z', hash: '0x2',
+        sourceChainId: 1, destinationChainId: 42161, daysBeforeBridging: 10,
+      },
+      {
+        protocol: 'Across', direction: 'out', token: 'USDC', timestamp: '2024-01-15T00:00:00Z', hash: '0x4',
+        sourceChainId: 42161, destinationChainId: 8453, daysBeforeBridging: 4,
+      },
+      {
+        protocol: 'Across', direction: 'in', token: 'USDC', timestamp: '2024-01-15T01:00:00Z', hash: '0x5',
+        sourceChainId: 42161, destinationChainId: 8453,
+      },
+    ]);
+    expect(activity.routes).toEqual([
+      { sourceChainId: 42161, destinationChainId: 8453, count: 2 },
+      { sourceChainId: 1, destinationChainId: 42161, count: 1 },
+    ]);
+    expect(activity.averageDaysBeforeBridgingOut).toBe(7);
+    expect(activity.bridgesPerMonth).toBe(3);
+  });
+
+  it('should report the chains visited and the per-chain activity', () => {
+    const activity = new BridgeAnalyzer().analyze(journey);
+
+    expect(activity.chainsVisited).toEqual([1, 8453, 42161]);
+    expect(activity.chainDistribution).toEqual([
+      { chainId: 1, transactions: 2, share: 33.3 },
+      { chainId: 8453, transactions: 2, share: 33.3 },
+      { chainId: 42161, transactions: 2, share: 33.3 },
+    ]);
+  });
+
+  it('should count calls to registry bridges whatever their type', () => {
+    const activity = new BridgeAnalyzer().analyze([
+      swap('0x1', '2024-01-01T00:00:00Z', 1),
+      { hash: '0x2', timestamp: '2024-01-02T00:00:00Z', type: 'token_hold', details: { protocol: 'Stargate', token: 'USDC' }, chainId: 1 },
+    ]);
+
+    expect(activity.bridges).toEqual([
+      { protocol: 'Stargate', direction: 'out', token: 'USDC', timestamp: '2024-01-02T00:00:00Z', hash: '0x2', sourceChainId: 1, daysBeforeBridging: 1 },
+    ]);
+    expect(activity.chainDistribution).toEqual([{ chainId: 1, transactions: 2, share: 100 }]);
+  });
+
+  it('should mark wallets that keep moving chains as Cross-Chain Nomads', () => {
+    const analysis = new TransactionAnalyzer(undefined, { asOf: new Date('2024-02-01T00:00:00Z') }).analyze(journey);
+    const settled = new TransactionAnalyzer(undefined, { asOf: new Date('2024-02-01T00:00:00Z') }).analyze(journey.slice(0, 3));
+    const generator = new PersonaGenerator();
+    const scores = { riskAppetite: 50, loyalty: 50, activity: 50 };
+
+    expect(generator.generateTraits(scores, analysis)).toContain('Cross-Chain Nomad');
+    expect(generator.generateTraits(scores, settled)).not.toContain('Cross-Chain Nomad');
+  });
+});
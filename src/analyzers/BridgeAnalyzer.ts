@@ -0,0 +1,162 @@
+import {
+  Transaction,
+  BridgeDetails,
+  BridgeTransfer,
+  BridgeRoute,
+  ChainActivity,
+  CrossChainActivity,
+  BridgeState,
+} from '../types';
+import { ProtocolRegistry } from '../registry/ProtocolRegistry.js';
+import { CHAINS } from '../providers/chains.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_DAYS = 30;
+// Clock key for transactions not tagged with a chain
+const UNTAGGED = 0;
+
+/**
+ * BridgeAnalyzer
+ * Finds bridge transfers (bridge transactions and any call to a protocol the
+ * registry lists as a bridge), their direction and chains, how often the
+ * wallet bridges and how long it stays on a chain before bridging out, and
+ * how its transactions spread across chains.
+ *
+ * The destination of a transfer comes from its details, else from the
+ * canonical bridge's destinationChain in the registry. Time on a chain
+ * starts at the wallet's first transaction there or its latest arrival.
+ *
+ * What it has seen can be kept in a BridgeState and updated with later transactions.
+ */
+export class BridgeAnalyzer {
+  constructor(private readonly registry: ProtocolRegistry = new ProtocolRegistry()) {}
+
+  /**
+   * Expects transactions sorted oldest first
+   */
+  analyze(transactions: Transaction[]): CrossChainActivity {
+    const state: BridgeState = { arrivals: {}, bridges: [], chainCounts: {} };
+    this.update(state, transactions);
+    return this.activity(state);
+  }
+
+  /**
+   * Add new transactions, sorted oldest first and newer than those already seen
+   */
+  update(state: BridgeState, transactions: Transaction[]): void {
+    const { arrivals, bridges, chainCounts } = state;
+
+    transactions.forEach(tx => {
+      const time = new Date(tx.timestamp).getTime();
+      const chain = tx.chainId ?? UNTAGGED;
+      state.firstTime ??= time;
+      state.lastTime = time;
+      if (tx.chainId !== undefined) {
+        chainCounts[tx.chainId] = (chainCounts[tx.chainId] || 0) + 1;
+      }
+      if (arrivals[chain] === undefined) {
+        arrivals[chain] = time;
+      }
+
+      const protocol = this.registry.findProtocol(tx.details.protocol || '');
+      if (tx.type !== 'bridge' && protocol?.category !== 'bridge') {
+        return;
+      }
+
+      const details = tx.details as BridgeDetails;
+      const bridge: BridgeTransfer = {
+        protocol: protocol?.name ?? tx.details.protocol ?? 'UNKNOWN',
+        direction: details.direction === 'in' ? 'in' : 'out',
+        token: typeof details.token === 'string' ? details.token : 'UNKNOWN',
+        timestamp: tx.timestamp,
+        hash: tx.hash,
+      };
+
+      if (bridge.direction === 'out') {
+        const source = details.source_chain_id ?? tx.chainId;
+        const destination = details.destination_chain_id
+          ?? (protocol?.destinationChain ? CHAINS[protocol.destinationChain].chainId : undefined);
+        const arrivedAt = arrivals[source ?? chain] ?? time;
+
+        this.assignChains(bridge, source, destination);
+        bridge.daysBeforeBridging = Math.round(((time - arrivedAt) / DAY_MS) * 10) / 10;
+        if (destination !== undefined) {
+          arrivals[destination] = time;
+        }
+      } else {
+        const destination = details.destination_chain_id ?? tx.chainId;
+        this.assignChains(bridge, details.source_chain_id, destination);
+        arrivals[destination ?? chain] = time;
+      }
+
+      bridges.push(bridge);
+    });
+  }
+
+  activity(state: BridgeState): CrossChainActivity {
+    const bridges = [...state.bridges];
+    const historyDays = state.firstTime === undefined ? 0 : ((state.lastTime as number) - state.firstTime) / DAY_MS;
+    const stays = bridges
+      .map(bridge => bridge.daysBeforeBridging)
+      .filter((days): days is number => days !== undefined);
+    const activity: CrossChainActivity = {
+      bridges,
+      routes: this.countRoutes(bridges),
+      bridgesPerMonth: Math.round((bridges.length / Math.max(1, historyDays / MONTH_DAYS)) * 100) / 100,
+      chainsVisited: this.chainsVisited(state.chainCounts, bridges),
+      chainDistribution: this.chainDistribution(state.chainCounts),
+    };
+    if (stays.length > 0) {
+      activity.averageDaysBeforeBridgingOut = Math.round((stays.reduce((sum, days) => sum + days, 0) / stays.length) * 10) / 10;
+    }
+
+    return activity;
+  }
+
+  private assignChains(
+    target: { sourceChainId?: number; destinationChainId?: number },
+    source: number | undefined,
+    destination: number | undefined
+  ): void {
+    if (source !== undefined) {
+      target.sourceChainId = source;
+    }
+    if (destination !== undefined) {
+      target.destinationChainId = destination;
+    }
+  }
+
+  private countRoutes(bridges: BridgeTransfer[]): BridgeRoute[] {
+    const routes = new Map<string, BridgeRoute>();
+    bridges.forEach(bridge => {
+      const key = `${bridge.sourceChainId ?? ''}>${bridge.destinationChainId ?? ''}`;
+      let route = routes.get(key);
+      if (!route) {
+        route = { count: 0 };
+        this.assignChains(route, bridge.sourceChainId, bridge.destinationChainId);
+        routes.set(key, route);
+      }
+      route.count++;
+    });
+
+    return Array.from(routes.values()).sort((a, b) => b.count - a.count);
+  }
+
+  private chainsVisited(chainCounts: Record<string, number>, bridges: BridgeTransfer[]): number[] {
+    const chains = new Set<number>(Object.keys(chainCounts).map(Number));
+    bridges.forEach(bridge => {
+      [bridge.sourceChainId, bridge.destinationChainId].forEach(chainId => chainId !== undefined && chains.add(chainId));
+    });
+    return Array.from(chains).sort((a, b) => a - b);
+  }
+
+  /**
+   * Share of the chain-tagged transactions on each chain
+   */
+  private chainDistribution(chainCounts: Record<string, number>): ChainActivity[] {
+    const total = Object.values(chainCounts).reduce((sum, count) => sum + count, 0);
+    return Object.entries(chainCounts)
+      .map(([chainId, count]) => ({ chainId: Number(chainId), transactions: count, share: Math.round((count / total) * 1000) / 10 }))
+      .sort((a, b) => b.transactions - a.transactions || a.chainId - b.chainId);
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { LendingAnalyzer } from './LendingAnalyzer';
+import { TransactionAnalyzer } from './TransactionAnalyzer';
+import { PriceFileOracle } from '../oracles/PriceFileOracle';
+import { ProtocolRegistry } from '../registry/ProtocolRegistry';
+import { ScoreCalculator } from '../calculators/ScoreCalculator';
+import { PersonaGenerator } from '../generators/PersonaGenerator';
+import { Transaction } from '../types';
+
+const loan = (
+  hash: string,
+  timestamp: string,
+  type: 'stake' | 'unstake' | 'borrow' | 'repay',
+  protocol: string,
+  token: string,
+  amount: string
+): Transaction => ({ hash, timestamp, type, details: { protocol, token, amount } } as Transaction);
+
+describe('LendingAnalyzer', () => {
+  const registry = new ProtocolRegistry();
+  const oracle = new PriceFileOracle({
+    WETH: [
+      { timestamp: '2024-01-01', price: 2000 },
+      { timestamp: '2024-03-01', price: 1500 },
+    ],
+    USDC: [{ timestamp: '2024-01-01', price: 1 }],
+  });
+
+  const looped: Transaction[] = [
+    loan('0x1', '2024-01-01T00:00:00Z', 'stake', 'Aave V3', 'WETH', '10'),
+    loan('0x2', '2024-01-01T01:00:00Z', 'borrow', 'Aave V3', 'USDC', '10000'),
+    loan('0x3', '2024-01-01T02:00:00Z', 'stake', 'Aave V3', 'WETH', '4'),
+    loan('0x4', '2024-02-01T00:00:00Z', 'borrow', 'Aave', 'USDC', '11000'),
+    // Liquid staking is not collateral
+    loan('0x5', '2024-02-02T00:00:00Z', 'stake', 'Lido', 'ETH', '5'),
+    {
+      hash: '0x6',
+      timestamp: '2024-03-05T00:00:00Z',
+      type: 'liquidation',
+      details: { protocol: 'Aave V3', collateral_token: 'WETH', collateral_amount: '4', debt_token: 'USDC', debt_amount: '5000' },
+    },
+  ];
+
+  it('should track collateral, debt and peak loan-to-value per protocol', () => {
+    const lending = new LendingAnalyzer(registry, oracle).analyze(looped);
+
+    expect(lending.positions).toEqual([{
+      protocol: 'Aave',
+      supplied: 28000 - 6000,
+      borrowed: 21000 - 5000,
+      peakLoanToValue: 0.75,
+      liquidations: 1,
+      hashes: ['0x1', '0x2', '0x3', '0x4', '0x6'],
+    }]);
+    expect(lending.peakLoanToValue).toBe(0.75);
+    expect(lending.liquidations).toEqual([
+      { protocol: 'Aave', collateralToken: 'WETH', debtToken: 'USDC', timestamp: '2024-03-05T00:00:00Z', hash: '0x6' },
+    ]);
+  });
+
+  it('should detect a borrow supplied straight back as a leverage loop', () => {
+    const lending = new LendingAnalyzer(registry, oracle).analyze(looped);
+    const slow = new LendingAnalyzer(registry, oracle).analyze([
+      loan('0x1', '2024-01-01T00:00:00Z', 'stake', 'Aave V3', 'WETH', '10'),
+      loan('0x2', '2024-01-01T01:00:00Z', 'borrow', 'Aave V3', 'USDC', '10000'),
+      loan('0x3', '2024-01-09T00:00:00Z', 'stake', 'Aave V3', 'WETH', '4'),
+    ]);
+
+    expect(lending.leverageLoops).toEqual([{ protocol: 'Aave', hashes: ['0x1', '0x2', '0x3'] }]);
+    expect(slow.leverageLoops).toEqual([]);
+  });
+
+  it('should value stablecoins at $1 without a price oracle', () => {
+    const lending = new LendingAnalyzer(registry).analyze([
+      loan('0x1', '2024-01-01T00:00:00Z', 'stake', 'Compound V3', 'USDC', '1000'),
+      loan('0x2', '2024-01-02T00:00:00Z', 'borrow', 'Compound V3', 'DAI', '600'),
+      loan('0x3', '2024-01-03T00:00:00Z', 'borrow', 'Compound V3', 'WETH', '1'),
+      loan('0x4', '2024-01-04T00:00:00Z', 'repay', 'Compound V3', 'DAI', '600'),
+    ]);
+
+    expect(lending.positions[0]).toMatchObject({ protocol: 'Compound', supplied: 1000, borrowed: 0, peakLoanToValue: 0.6 });
+  });
+
+  it('should not measure loan-to-value while unpriced collateral is held', () => {
+    const analyzer = new LendingAnalyzer(registry);
+    const lending = analyzer.analyze([
+      loan('0x1', '2024-01-01T00:00:00Z', 'stake', 'Aave V3', 'WETH', '10'),
+      loan('0x2', '2024-01-01T01:00:00Z', 'stake', 'Aave V3', 'USDC', '100'),
+      loan('0x3', '2024-01-01T02:00:00Z', 'borrow', 'Aave V3', 'USDC', '5000'),
+    ]);
+
+    expect(lending.positions[0]).toMatchObject({ supplied: 100, borrowed: 5000, peakLoanToValue: 0, unpricedTokens: ['WETH'] });
+    expect(lending.peakLoanToValue).toBe(0);
+
+    // Measured again once the unpriced collateral is withdrawn
+    const withdrawn = analyzer.analyze([
+      loan('0x1', '2024-01-01T00:00:00Z', 'stake', 'Aave V3', 'WETH', '10'),
+      loan('0x2', '2024-01-01T01:00:00Z', 'stake', 'Aave V3', 'USDC', '1000'),
+      loan('0x3', '2024-01-01T02:00:00Z', 'unstake', 'Aave V3', 'WETH', '10'),
+      loan('0x4', '2024-01-01T03:00:00Z', 'borrow', 'Aave V3', 'USDC', '500'),
+    ]);
+    expect(withdrawn.positions[0].unpricedTokens).toBeUndefined();
+    expect(withdrawn.peakLoanToValue).toBe(0.5);
+  });
+
+  it('should raise the risk score and add lending traits', () => {
+    const analysis = new TransactionAnalyzer(registry, { asOf: new Date('2024-04-01T00:00:00Z') }, oracle).analyze(looped);
+    const scores = { riskAppetite: 60, loyalty: 50, activity: 50 };
+    const contributions = new ScoreCalculator().explain(analysis).riskAppetite.contributions;
+
+    expect(contributions).toContainEqual(expect.objectContaining({
+      signal: 'peakLoanToValue',
+      description: 'peak loan-to-value (%): +15',
+    }));
+    expect(contributions).toContainEqual(expect.objectContaining({ signal: 'leverageLoops', points: 5 }));
+    expect(new PersonaGenerator().generateTraits(scores, analysis)).toEqual(
+      expect.arrayContaining(['Leveraged Farmer', 'Liquidated Borrower'])
+    );
+  });
+});
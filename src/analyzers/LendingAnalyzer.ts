@@ -0,0 +1,183 @@
+import { Transaction, LendingBook, LendingPosition, LendingProfile, LendingState } from '../types';
+import { PriceOracle } from '../interfaces';
+import { ProtocolRegistry } from '../registry/ProtocolRegistry.js';
+
+// A supply this soon after a borrow counts as looping the loan back in
+const LOOP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * LendingAnalyzer
+ * Replays supplies, withdrawals, borrows, repayments and liquidations per
+ * lending protocol to estimate the collateral and debt outstanding, the
+ * peak loan-to-value reached and leverage loops.
+ *
+ * Supplies and withdrawals are stake and unstake transactions on protocols
+ * the registry lists as lending; borrows, repayments and liquidations count
+ * wherever they happen. Amounts are valued with the price oracle at each
+ * transaction's timestamp. Without a price, stablecoins count at $1 and
+ * other tokens are kept in units beside the USD balances; loan-to-value is
+ * only measured while no such unpriced amount is outstanding in the book.
+ *
+ * The books can be kept in a LendingState and updated with later transactions.
+ */
+export class LendingAnalyzer {
+  constructor(
+    private readonly registry: ProtocolRegistry = new ProtocolRegistry(),
+    private readonly priceOracle?: PriceOracle
+  ) {}
+
+  /**
+   * Expects transactions sorted oldest first
+   */
+  analyze(transactions: Transaction[]): LendingProfile {
+    const state: LendingState = { books: {}, liquidations: [], leverageLoops: [] };
+    this.update(state, transactions);
+    return this.profile(state);
+  }
+
+  /**
+   * Replay new transactions, sorted oldest first and newer than those already in the books
+   */
+  update(state: LendingState, transactions: Transaction[]): void {
+    const { books, liquidations, leverageLoops } = state;
+
+    transactions.forEach(tx => {
+      if (!this.isLendingAction(tx)) {
+        return;
+      }
+
+      const protocol = this.protocolName(tx.details.protocol);
+      const book = books[protocol] || { supplied: 0, borrowed: 0, peakLoanToValue: 0, liquidations: 0, hashes: [] };
+      books[protocol] = book;
+      book.hashes.push(tx.hash);
+      const time = new Date(tx.timestamp).getTime();
+
+      switch (tx.type) {
+        case 'stake':
+          this.post(book, 'supplied', tx.details.token, tx.details.amount, tx.timestamp, 1);
+          if (book.openBorrow && time - book.openBorrow.time <= LOOP_WINDOW_MS) {
+            leverageLoops.push({ protocol, hashes: [book.openBorrow.supplyHash, book.openBorrow.hash, tx.hash] });
+          }
+          book.openBorrow = undefined;
+          book.lastSupplyHash = tx.hash;
+          break;
+        case 'unstake':
+          this.post(book, 'supplied', tx.details.token, tx.details.amount, tx.timestamp, -1);
+          break;
+        case 'borrow':
+          this.post(book, 'borrowed', tx.details.token, tx.details.amount, tx.timestamp, 1);
+          if (book.lastSupplyHash) {
+            book.openBorrow = { supplyHash: book.lastSupplyHash, hash: tx.hash, time };
+          }
+          break;
+        case 'repay':
+          this.post(book, 'borrowed', tx.details.token, tx.details.amount, tx.timestamp, -1);
+          break;
+        case 'liquidation':
+          this.post(book, 'supplied', tx.details.collateral_token, tx.details.collateral_amount, tx.timestamp, -1);
+          this.post(book, 'borrowed', tx.details.debt_token, tx.details.debt_amount, tx.timestamp, -1);
+          book.liquidations++;
+          liquidations.push({
+            protocol,
+            collateralToken: tx.details.collateral_token || 'UNKNOWN',
+            debtToken: tx.details.debt_token || 'UNKNOWN',
+            timestamp: tx.timestamp,
+            hash: tx.hash,
+          });
+          break;
+      }
+
+      if (book.supplied > 0 && this.unpricedTokens(book).length === 0) {
+        book.peakLoanToValue = Math.max(book.peakLoanToValue, book.borrowed / book.supplied);
+      }
+    });
+  }
+
+  profile(state: LendingState): LendingProfile {
+    const positions: LendingPosition[] = Object.entries(state.books).map(([protocol, book]) => {
+      const position: LendingPosition = {
+        protocol,
+        supplied: book.supplied,
+        borrowed: book.borrowed,
+        peakLoanToValue: Math.round(book.peakLoanToValue * 10000) / 10000,
+        liquidations: book.liquidations,
+        hashes: [...book.hashes],
+      };
+      const unpricedTokens = this.unpricedTokens(book);
+      if (unpricedTokens.length > 0) {
+        position.unpricedTokens = unpricedTokens;
+      }
+      return position;
+    });
+
+    return {
+      positions,
+      peakLoanToValue: positions.reduce((peak, position) => Math.max(peak, position.peakLoanToValue), 0),
+      liquidations: [...state.liquidations],
+      leverageLoops: [...state.leverageLoops],
+    };
+  }
+
+  /**
+   * Stakes and unstakes only count as supplies and withdrawals on lending protocols
+   */
+  private isLendingAction(tx: Transaction): boolean {
+    switch (tx.type) {
+      case 'borrow':
+      case 'repay':
+      case 'liquidation':
+        return true;
+      case 'stake':
+      case 'unstake':
+        return this.registry.findProtocol(tx.details.protocol || '')?.category === 'lending';
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Registry protocol name, so "Aave V2" and "Aave V3" share one book
+   */
+  private protocolName(protocol: string | undefined): string {
+    return this.registry.findProtocol(protocol || '')?.name ?? protocol ?? 'UNKNOWN';
+  }
+
+  /**
+   * Add (sign 1) or take away (-1) an amount on one side of the book: its USD
+   * value at the timestamp when it can be priced, else its units of the token
+   */
+  private post(
+    book: LendingBook,
+    side: 'supplied' | 'borrowed',
+    token: string | undefined,
+    amount: string | undefined,
+    timestamp: string,
+    sign: 1 | -1
+  ): void {
+    const units = amount === undefined ? NaN : parseFloat(amount);
+    if (!token || !Number.isFinite(units) || units <= 0) {
+      return;
+    }
+
+    const price = this.priceOracle?.getPrice(token, timestamp) ?? (this.registry.isStablecoin(token) ? 1 : undefined);
+    if (price !== undefined) {
+      book[side] = Math.max(0, book[side] + sign * units * price);
+      return;
+    }
+
+    const unpriced = side === 'supplied' ? (book.unpricedSupplied ??= {}) : (book.unpricedBorrowed ??= {});
+    const remaining = (unpriced[token] ?? 0) + sign * units;
+    if (remaining > 1e-9) { // ignoring float residue once fully withdrawn or repaid
+      unpriced[token] = remaining;
+    } else {
+      delete unpriced[token];
+    }
+  }
+
+  /**
+   * Tokens held in the book without a price, on either side
+   */
+  private unpricedTokens(book: LendingBook): string[] {
+    return Array.from(new Set([...Object.keys(book.unpricedSupplied ?? {}), ...Object.keys(book.unpricedBorrowed ?? {})]));
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { PortfolioAnalyzer } from './PortfolioAnalyzer';
+import { PositionTracker } from './PositionTracker';
+import { PriceFileOracle } from '../oracles/PriceFileOracle';
+import { ProtocolRegistry } from '../registry/ProtocolRegistry';
+import { PersonaGenerator } from '../generators/PersonaGenerator';
+import { TransactionAnalyzer } from './TransactionAnalyzer';
+import { Transaction } from '../types';
+
+const WALLET = '0x742d35cc6634c0532925a3b844bc9e7595f0beb0';
+const asOf = new Date('2024-06-01T00:00:00Z');
+
+// Decoded ERC-20 transfers into the wallet
+const received = (hash: string, symbol: string, amount: string): Transaction => ({
+  hash,
+  timestamp: '2024-01-01T00:00:00Z',
+  type: 'token_hold',
+  details: {
+    transfers: [{ standard: 'erc20', contractAddress: `0x${hash}`, symbol, name: symbol, from: '0xexchange', to: WALLET, amount }],
+  },
+});
+
+describe('PortfolioAnalyzer', () => {
+  const registry = new ProtocolRegistry();
+  const oracle = new PriceFileOracle({
+    USDC: [{ timestamp: '2024-01-01', price: 1 }],
+    WETH: [{ timestamp: '2024-01-01', price: 3000 }],
+    PEPE: [{ timestamp: '2024-01-01', price: 0.00001 }],
+  });
+  const positions = new PositionTracker(WALLET).track([
+    received('1', 'USDC', '6000'),
+    received('2', 'WETH', '1'),
+    received('3', 'PEPE', '100000000'),
+    received('4', 'MYSTERY', '5'),
+  ], asOf);
+
+  it('should weight allocations by USD value when prices are known', () => {
+    const portfolio = new PortfolioAnalyzer(registry, oracle).analyze(positions, asOf);
+
+    expect(portfolio.basis).toBe('usd');
+    expect(portfolio.totalUsdValue).toBeCloseTo(10000);
+    expect(portfolio.holdings.map(h => [h.token, h.allocation])).toEqual([
+      ['USDC', 60],
+      ['WETH', 30],
+      ['PEPE', 10],
+      ['MYSTERY', 0],
+    ]);
+    expect(portfolio.holdings[0]).toMatchObject({ balance: 6000, usdValue: 6000, classification: 'stablecoin' });
+    expect(portfolio.herfindahlIndex).toBeCloseTo(0.36 + 0.09 + 0.01, 4);
+    expect(portfolio.stablecoinShare).toBe(60);
+    expect(portfolio.blueChipShare).toBe(30);
+  });
+
+  it('should list raw balances without shares or concentration when nothing is priced', () => {
+    const portfolio = new PortfolioAnalyzer(registry).analyze(positions.filter(p => p.token !== 'USDC'), asOf);
+
+    expect(portfolio).toEqual({
+      basis: 'units',
+      holdings: [
+        { token: 'PEPE', balance: 100000000 },
+        { token: 'MYSTERY', balance: 5 },
+        { token: 'WETH', balance: 1, classification: 'blue_chip' },
+      ],
+    });
+  });
+
+  it('should value stablecoins at $1 without a price oracle and list what stays unpriced', () => {
+    const portfolio = new PortfolioAnalyzer(registry).analyze(positions, asOf);
+
+    expect(portfolio).toMatchObject({ basis: 'usd', totalUsdValue: 6000, stablecoinShare: 100 });
+    expect(portfolio.unpricedTokens).toEqual(['PEPE', 'MYSTERY', 'WETH']);
+  });
+
+  it('should report an empty portfolio for a wallet holding nothing', () => {
+    expect(new PortfolioAnalyzer(registry, oracle).analyze([], asOf)).toEqual({ basis: 'units', holdings: [] });
+  });
+
+  it('should let the persona title rules use the portfolio', () => {
+    const analysis = new TransactionAnalyzer(registry, { asOf }, oracle).analyze([
+      received('1', 'USDC', '95000'),
+      received('2', 'WETH', '1'),
+    ], WALLET);
+    const generator = new PersonaGenerator();
+
+    expect(analysis.portfolio?.stablecoinShare).toBeCloseTo(96.9, 1);
+    expect(generator.getTitleVariants({ riskAppetite: 50, loyalty: 50, activity: 50 }, analysis))
+      .toEqual(['Stablecoin Maximalist']);
+
+    // Without an oracle, only a wallet holding nothing but stablecoins is fully priced
+    const scores = { riskAppetite: 50, loyalty: 50, activity: 50 };
+    const stablesOnly = new TransactionAnalyzer(registry, { asOf }).analyze([received('1', 'USDC', '95000')], WALLET);
+    const mixed = new TransactionAnalyzer(registry, { asOf }).analyze([
+      received('1', 'USDC', '95000'),
+      received('2', 'WETH', '1'),
+    ], WALLET);
+    expect(generator.getTitleVariants(scores, stablesOnly)).toEqual(['Stablecoin Maximalist']);
+    expect(generator.getTitleVariants(scores, mixed)).not.toContain('Stablecoin Maximalist');
+  });
+});
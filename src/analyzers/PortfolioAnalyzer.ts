@@ -0,0 +1,80 @@
+import { TokenPosition, TokenClassification, Portfolio, PortfolioHolding } from '../types';
+import { PriceOracle } from '../interfaces';
+import { ProtocolRegistry } from '../registry/ProtocolRegistry.js';
+
+/**
+ * PortfolioAnalyzer
+ * Turns the open balances of the reconstructed positions into a portfolio
+ * at the analysis date: allocation per token, Herfindahl concentration and
+ * the stablecoin and blue-chip shares.
+ *
+ * Holdings are valued with the price oracle at the analysis date; without
+ * a price, stablecoins count at $1, like in the lending books. Allocations
+ * weight USD value when any holding is priced, and unpriced holdings are
+ * listed in unpricedTokens with 0%. Without any price the portfolio has
+ * basis "units": raw balances of different tokens do not add up, so it
+ * lists the holdings without allocations, concentration or shares.
+ */
+export class PortfolioAnalyzer {
+  constructor(
+    private readonly registry: ProtocolRegistry = new ProtocolRegistry(),
+    private readonly priceOracle?: PriceOracle
+  ) {}
+
+  analyze(positions: TokenPosition[], asOf: Date): Portfolio {
+    const holdings: PortfolioHolding[] = positions
+      .filter(position => position.openAmount > 0)
+      .map(position => {
+        const holding: PortfolioHolding = { token: position.token, balance: position.openAmount };
+        const price = this.priceOracle?.getPrice(position.token, asOf.toISOString())
+          ?? (this.registry.isStablecoin(position.token) ? 1 : undefined);
+        if (price !== undefined) {
+          holding.usdValue = position.openAmount * price;
+        }
+        const classification = this.registry.findToken(position.token)?.classification;
+        if (classification) {
+          holding.classification = classification;
+        }
+        return holding;
+      });
+
+    if (!holdings.some(holding => holding.usdValue !== undefined)) {
+      holdings.sort((a, b) => b.balance - a.balance);
+      return { basis: 'units', holdings };
+    }
+
+    const total = holdings.reduce((sum, holding) => sum + (holding.usdValue ?? 0), 0);
+    const fractionOf = (holding: PortfolioHolding) => total > 0 ? (holding.usdValue ?? 0) / total : 0;
+    const shareOf = (classification: TokenClassification) => this.percentage(
+      holdings
+        .filter(holding => holding.classification === classification)
+        .reduce((sum, holding) => sum + fractionOf(holding), 0)
+    );
+
+    holdings.forEach(holding => {
+      holding.allocation = this.percentage(fractionOf(holding));
+    });
+    holdings.sort((a, b) => (b.allocation ?? 0) - (a.allocation ?? 0) || b.balance - a.balance);
+
+    const portfolio: Portfolio = {
+      basis: 'usd',
+      holdings,
+      totalUsdValue: total,
+      herfindahlIndex: Math.round(holdings.reduce((sum, holding) => sum + fractionOf(holding) ** 2, 0) * 10000) / 10000,
+      stablecoinShare: shareOf('stablecoin'),
+      blueChipShare: shareOf('blue_chip'),
+    };
+    const unpricedTokens = holdings.filter(holding => holding.usdValue === undefined).map(holding => holding.token);
+    if (unpricedTokens.length > 0) {
+      portfolio.unpricedTokens = unpricedTokens;
+    }
+    return portfolio;
+  }
+
+  /**
+   * Fraction as a percentage rounded to one decimal
+   */
+  private percentage(fraction: number): number {
+    return Math.round(fraction * 1000) / 10;
+  }
+}
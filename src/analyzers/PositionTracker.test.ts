@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { PositionTracker } from './PositionTracker';
+import { TransactionAnalyzer } from './TransactionAnalyzer';
+import { Transaction } from '../types';
+
+const WALLET = '0x742d35cc6634c0532925a3b844bc9e7595f0beb0';
+const day = (n: number) => new Date(Date.UTC(2024, 0, 1 + n)).toISOString();
+
+const swap = (hash: string, n: number, tokenIn: string, amountIn: string, tokenOut: string, amountOut: string): Transaction => ({
+  hash,
+  timestamp: day(n),
+  type: 'swap',
+  details: { protocol: 'Uniswap V3', token_in: tokenIn, amount_in: amountIn, token_out: tokenOut, amount_out: amountOut },
+});
+
+describe('PositionTracker', () => {
+  const tracker = new PositionTracker();
+
+  it('should match outflows against the oldest lots first', () => {
+    const [eth] = tracker.track([
+      swap('0x1', 0, 'USDC', '30000', 'ETH', '10'),
+      swap('0x2', 10, 'USDC', '15000', 'ETH', '5'),
+      swap('0x3', 20, 'ETH', '12', 'USDC', '36000'),
+    ], new Date(day(30))).filter(position => position.token === 'ETH');
+
+    expect(eth.lots).toEqual([
+      { token: 'ETH', amount: 10, openedAt: day(0), closedAt: day(20), holdDays: 20, openHash: '0x1', closeHash: '0x3' },
+      { token: 'ETH', amount: 2, openedAt: day(10), closedAt: day(20), holdDays: 10, openHash: '0x2', closeHash: '0x3' },
+      { token: 'ETH', amount: 3, openedAt: day(10), holdDays: 20, openHash: '0x2' },
+    ]);
+    expect(eth.openAmount).toBe(3);
+    expect(eth.realizedAmount).toBe(12);
+    expect(eth.averageHoldDays).toBeCloseTo((10 * 20 + 2 * 10 + 3 * 20) / 15);
+    expect(eth.hashes).toEqual(['0x1', '0x3', '0x2']);
+  });
+
+  it('should read transfers relative to the wallet when its address is known', () => {
+    const transaction: Transaction = {
+      hash: '0xt',
+      timestamp: day(0),
+      type: 'swap',
+      details: {
+        token_in: 'ignored',
+        amount_in: '1',
+        transfers: [
+          { standard: 'erc20', contractAddress: '0xa', symbol: 'USDC', name: 'USD Coin', from: WALLET, to: '0xpool', amount: '100' },
+          { standard: 'erc20', contractAddress: '0xb', symbol: 'WETH', name: 'Wrapped Ether', from: '0xpool', to: WALLET.toUpperCase(), amount: '0.05' },
+          { standard: 'erc721', contractAddress: '0xc', symbol: 'PUNK', name: 'Punks', from: '0xpool', to: WALLET, amount: '1', tokenId: '7' },
+        ],
+      },
+    };
+
+    const positions = new PositionTracker(WALLET).track([transaction], new Date(day(3)));
+
+    expect(positions.map(p => [p.token, p.openAmount, p.unmatchedAmount])).toEqual([
+      ['WETH', 0.05, 0],
+      ['USDC', 0, 100],
+    ]);
+  });
+
+  it('should book the native leg of swaps with decoded transfers', () => {
+    const usdc = (from: string, to: string, amount: string) =>
+      ({ standard: 'erc20' as const, contractAddress: '0xa', symbol: 'USDC', name: 'USD Coin', from, to, amount });
+    const transactions: Transaction[] = [
+      {
+        hash: '0xbuy',
+        timestamp: day(0),
+        type: 'swap',
+        details: {
+          from: WALLET, to: '0xrouter', value: '2000000000000000000', token_in: 'ETH', amount_in: '2', token_out: 'USDC',
+          transfers: [usdc('0xpool', WALLET, '6000')],
+        },
+      },
+      {
+        // Token -> ETH: the ETH comes back through an internal transfer, so only the details show it
+        hash: '0xsell',
+        timestamp: day(10),
+        type: 'swap',
+        details: {
+          from: WALLET, to: '0xrouter', value: '0', token_in: 'USDC', amount_in: '3000', token_out: 'ETH', amount_out: '1',
+          transfers: [usdc(WALLET, '0xpool', '3000')],
+        },
+      },
+    ];
+
+    const positions = new PositionTracker(WALLET).track(transactions, new Date(day(20)));
+    const byToken = new Map(positions.map(position => [position.token, position]));
+
+    expect(byToken.get('ETH')).toMatchObject({ openAmount: 1, unmatchedAmount: 2 });
+    expect(byToken.get('ETH')?.lots).toEqual([
+      { token: 'ETH', amount: 1, openedAt: day(10), holdDays: 10, openHash: '0xsell' },
+    ]);
+    expect(byToken.get('USDC')?.lots).toEqual([
+      { token: 'USDC', amount: 3000, openedAt: day(0), closedAt: day(10), holdDays: 10, openHash: '0xbuy', closeHash: '0xsell' },
+      { token: 'USDC', amount: 3000, openedAt: day(0), holdDays: 20, openHash: '0xbuy' },
+    ]);
+  });
+
+  it('should turn token_hold records into lots and stop at the analysis date', () => {
+    const hold: Transaction = {
+      hash: '0xh',
+      timestamp: day(0),
+      type: 'token_hold',
+      details: { token: 'WBTC', start_date: day(0), end_date: day(100) },
+    };
+
+    const [closed] = tracker.track([hold], new Date(day(200)));
+    const [open] = tracker.track([hold], new Date(day(40)));
+
+    expect(closed.lots).toEqual([
+      { token: 'WBTC', amount: 1, openedAt: day(0), closedAt: day(100), holdDays: 100, openHash: '0xh', closeHash: '0xh' },
+    ]);
+    expect(open.lots[0].closedAt).toBeUndefined();
+    expect(open.averageHoldDays).toBe(40);
+  });
+
+  it('should conserve amounts: every inflow is either still open or realized', () => {
+    const flowArb = fc.record({
+      day: fc.integer({ min: 0, max: 365 }),
+      buy: fc.boolean(),
+      amount: fc.integer({ min: 1, max: 1000 }),
+    });
+
+    fc.assert(
+      fc.property(fc.array(flowArb, { maxLength: 30 }), flows => {
+        const transactions = flows.map((flow, i) => flow.buy
+          ? swap(`0x${i}`, flow.day, 'USDC', '1', 'ETH', String(flow.amount))
+          : swap(`0x${i}`, flow.day, 'ETH', String(flow.amount), 'USDC', '1'));
+        const eth = tracker.track(transactions, new Date(day(400))).find(position => position.token === 'ETH');
+        const bought = flows.filter(flow => flow.buy).reduce((sum, flow) => sum + flow.amount, 0);
+        const sold = flows.filter(flow => !flow.buy).reduce((sum, flow) => sum + flow.amount, 0);
+
+        expect((eth?.openAmount ?? 0) + (eth?.realizedAmount ?? 0)).toBeCloseTo(bought);
+        expect((eth?.realizedAmount ?? 0) + (eth?.unmatchedAmount ?? 0)).toBeCloseTo(sold);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should feed hold durations and blue-chip holdings in the analysis', () => {
+    const analysis = new TransactionAnalyzer(undefined, { asOf: new Date(day(30)) }).analyze([
+      swap('0x1', 0, 'USDC', '3000', 'WETH', '1'),
+      swap('0x2', 2, 'USDC', '10', 'PEPE', '1000000'),
+      swap('0x3', 5, 'PEPE', '1000000', 'USDC', '12'),
+    ]);
+
+    expect(analysis.holdDurations.get('WETH')).toBe(30);
+    expect(analysis.holdDurations.get('PEPE')).toBe(3);
+    expect(analysis.blueChipHoldings).toEqual([{ token: 'WETH', durationDays: 30, isBlueChip: true, hash: '0x1' }]);
+    expect(analysis.evidence?.holdDurations.get('PEPE')).toEqual(['0x2', '0x3']);
+  });
+});
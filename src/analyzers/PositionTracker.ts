@@ -0,0 +1,245 @@
+import { Transaction, PositionLot, TokenPosition, TokenFlow, PositionBook, PositionState } from '../types';
+import { getChainById } from '../providers/chains.js';
+import { formatUnits } from '../services/tokenTransfers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Remainders below this are rounding noise from decimal amounts
+const DUST = 1e-12;
+
+/**
+ * PositionTracker
+ * Reconstructs holding periods by replaying each token's inflows and
+ * outflows in time order and matching them first-in, first-out.
+ *
+ * Flows come from the decoded ERC-20 transfers when the wallet address is
+ * known, with the native token leg beside them, otherwise from the detail fields: swaps (token_in out, token_out
+ * in); airdrops, borrows, unstakes, reward claims and liquidity removals
+ * (in); stakes, repayments, liquidity adds and liquidated collateral (out);
+ * bridges and transfers by their direction. token_hold records open a lot
+ * at start_date and close it at end_date.
+ *
+ * The books can be kept in a PositionState and updated with later
+ * transactions; flows dated before those already replayed are applied in
+ * arrival order rather than re-sorted into the past.
+ */
+export class PositionTracker {
+  constructor(private readonly walletAddress?: string) {}
+
+  /**
+   * Positions per token, open lots measured up to asOf; flows after asOf are ignored
+   */
+  track(transactions: Transaction[], asOf: Date): TokenPosition[] {
+    const state: PositionState = { books: {}, pendingFlows: [] };
+    this.update(state, transactions, asOf);
+    return this.positions(state, asOf);
+  }
+
+  /**
+   * Replay the flows of new transactions into the books, along with pending
+   * flows the asOf date has now reached; later ones stay pending
+   */
+  update(state: PositionState, transactions: Transaction[], asOf: Date): void {
+    const cutoff = asOf.getTime();
+    const flows = [...state.pendingFlows, ...transactions.flatMap(tx => this.flowsOf(tx))];
+    state.pendingFlows = flows.filter(flow => flow.time > cutoff);
+
+    flows
+      .filter(flow => flow.time <= cutoff)
+      .sort((a, b) => a.time - b.time || (a.direction === b.direction ? 0 : a.direction === 'in' ? -1 : 1))
+      .forEach(flow => {
+        const book = state.books[flow.token] || { open: [], closed: [], unmatched: 0 };
+        state.books[flow.token] = book;
+
+        if (flow.direction === 'in') {
+          book.open.push({ amount: flow.amount, openedAt: flow.timestamp, openHash: flow.hash });
+        } else {
+          this.consume(flow, book);
+        }
+      });
+  }
+
+  /**
+   * Positions per token from the books, open lots measured up to asOf
+   */
+  positions(state: PositionState, asOf: Date): TokenPosition[] {
+    return Object.entries(state.books).map(([token, book]) => this.toPosition(token, book, asOf));
+  }
+
+  /**
+   * Close open lots oldest first until the outflow is covered
+   */
+  private consume(flow: TokenFlow, book: PositionBook): void {
+    let remaining = flow.amount;
+
+    while (remaining > DUST && book.open.length > 0) {
+      const lot = book.open[0];
+      const taken = Math.min(lot.amount, remaining);
+
+      book.closed.push({
+        token: flow.token,
+        amount: taken,
+        openedAt: lot.openedAt,
+        closedAt: flow.timestamp,
+        holdDays: this.daysBetween(lot.openedAt, flow.time),
+        openHash: lot.openHash,
+        closeHash: flow.hash,
+      });
+
+      lot.amount -= taken;
+      remaining -= taken;
+      if (lot.amount <= DUST) {
+        book.open.shift();
+      }
+    }
+
+    if (remaining > DUST) {
+      book.unmatched += remaining;
+    }
+  }
+
+  private toPosition(token: string, book: PositionBook, asOf: Date): TokenPosition {
+    const open: PositionLot[] = book.open.map(lot => ({
+      token,
+      amount: lot.amount,
+      openedAt: lot.openedAt,
+      holdDays: this.daysBetween(lot.openedAt, asOf.getTime()),
+      openHash: lot.openHash,
+    }));
+    const lots = [...book.closed, ...open].sort(
+      (a, b) => new Date(a.openedAt).getTime() - new Date(b.openedAt).getTime()
+    );
+
+    const totalAmount = lots.reduce((sum, lot) => sum + lot.amount, 0);
+    const weightedDays = lots.reduce((sum, lot) => sum + lot.amount * lot.holdDays, 0);
+    const hashes = new Set<string>();
+    lots.forEach(lot => {
+      hashes.add(lot.openHash);
+      if (lot.closeHash) {
+        hashes.add(lot.closeHash);
+      }
+    });
+
+    return {
+      token,
+      lots,
+      openAmount: open.reduce((sum, lot) => sum + lot.amount, 0),
+      realizedAmount: book.closed.reduce((sum, lot) => sum + lot.amount, 0),
+      unmatchedAmount: book.unmatched,
+      averageHoldDays: totalAmount > 0 ? weightedDays / totalAmount : 0,
+      hashes: Array.from(hashes),
+    };
+  }
+
+  /**
+   * Token movements of one transaction, relative to the wallet
+   */
+  private flowsOf(tx: Transaction): TokenFlow[] {
+    const wallet = this.walletAddress?.toLowerCase();
+
+    if (wallet && tx.details.transfers && tx.details.transfers.length > 0) {
+      return [
+        ...tx.details.transfers
+          .filter(transfer => transfer.standard === 'erc20')
+          .flatMap(transfer => [
+            ...(transfer.to.toLowerCase() === wallet ? this.flow(tx, transfer.symbol, transfer.amount, 'in') : []),
+            ...(transfer.from.toLowerCase() === wallet ? this.flow(tx, transfer.symbol, transfer.amount, 'out') : []),
+          ]),
+        ...this.nativeFlows(tx, wallet),
+      ];
+    }
+
+    switch (tx.type) {
+      case 'swap':
+        return [
+          ...this.flow(tx, tx.details.token_in, tx.details.amount_in, 'out'),
+          ...this.flow(tx, tx.details.token_out, tx.details.amount_out, 'in'),
+        ];
+      case 'receive_airdrop':
+      case 'borrow':
+      case 'unstake':
+      case 'claim_rewards':
+        return this.flow(tx, tx.details.token, tx.details.amount, 'in');
+      case 'stake':
+      case 'repay':
+        return this.flow(tx, tx.details.token, tx.details.amount, 'out');
+      case 'provide_liquidity':
+        return [
+          ...this.flow(tx, tx.details.token1, tx.details.amount1, 'out'),
+          ...this.flow(tx, tx.details.token2, tx.details.amount2, 'out'),
+        ];
+      case 'remove_liquidity':
+        return [
+          ...this.flow(tx, tx.details.token1, tx.details.amount1, 'in'),
+          ...this.flow(tx, tx.details.token2, tx.details.amount2, 'in'),
+        ];
+      case 'liquidation':
+        return this.flow(tx, tx.details.collateral_token, tx.details.collateral_amount, 'out');
+      case 'bridge':
+        return this.flow(tx, tx.details.token, tx.details.amount, tx.details.direction === 'in' ? 'in' : 'out');
+      case 'transfer': {
+        // Direction comes from the addresses, so it needs the wallet
+        const direction = wallet && tx.details.to?.toLowerCase() === wallet ? 'in'
+          : wallet && tx.details.from?.toLowerCase() === wallet ? 'out' : undefined;
+        return direction ? this.flow(tx, tx.details.token, tx.details.amount, direction) : [];
+      }
+      case 'token_hold': {
+        // A holding record: the amount only sizes the lot, so default to one unit
+        const token = tx.details.token || 'UNKNOWN';
+        const amount = this.parseAmount(tx.details.amount) ?? 1;
+        return [
+          ...this.flow(tx, token, amount, 'in', tx.details.start_date || tx.timestamp),
+          ...(tx.details.end_date ? this.flow(tx, token, amount, 'out', tx.details.end_date) : []),
+        ];
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * The native token leg of a transaction with decoded transfers: the value
+   * (in wei) the wallet sent or received, else a swap's native payout from
+   * its details, since that arrives as an internal transfer
+   */
+  private nativeFlows(tx: Transaction, wallet: string): TokenFlow[] {
+    const native = getChainById(tx.chainId ?? 1)?.nativeSymbol ?? 'ETH';
+    const value = tx.details.value && /^\d+$/.test(tx.details.value) ? formatUnits(tx.details.value, 18) : undefined;
+
+    const sent = tx.details.from?.toLowerCase() === wallet;
+    const received = tx.details.to?.toLowerCase() === wallet;
+    const flows = sent || received ? this.flow(tx, native, value, sent ? 'out' : 'in') : [];
+    if (flows.length === 0 && tx.type === 'swap' && tx.details.token_out === native) {
+      return this.flow(tx, native, tx.details.amount_out, 'in');
+    }
+    return flows;
+  }
+
+  /**
+   * A single flow, or none when the token or a positive amount is missing
+   */
+  private flow(
+    tx: Transaction,
+    token: string | undefined,
+    amount: string | number | undefined,
+    direction: TokenFlow['direction'],
+    timestamp = tx.timestamp
+  ): TokenFlow[] {
+    const value = typeof amount === 'number' ? amount : this.parseAmount(amount);
+    if (!token || value === undefined) {
+      return [];
+    }
+    return [{ token, amount: value, direction, time: new Date(timestamp).getTime(), timestamp, hash: tx.hash }];
+  }
+
+  /**
+   * Positive decimal amount, or undefined when missing or unparseable
+   */
+  private parseAmount(amount: string | undefined): number | undefined {
+    const value = amount === undefined ? NaN : parseFloat(amount);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  }
+
+  private daysBetween(from: string, to: number): number {
+    return Math.max(0, (to - new Date(from).getTime()) / DAY_MS);
+  }
+}
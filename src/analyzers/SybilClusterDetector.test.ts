@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { SybilClusterDetector } from './SybilClusterDetector';
+import { generateSyntheticFarms } from '../generators/syntheticFarms';
+import { Transaction, WalletData } from '../types';
+
+const FUNDER = '0x00000000000000000000000000000000000000f1';
+const EXCHANGE = '0x00000000000000000000000000000000000000e1';
+
+const tx = (hash: string, timestamp: string, type: Transaction['type'], details: Record<string, unknown>): Transaction =>
+  ({ hash, timestamp, type, details } as Transaction);
+
+describe('SybilClusterDetector', () => {
+  it('should cluster every synthetic farm and leave organic wallets alone', () => {
+    const batch = generateSyntheticFarms({ seed: 'test', farms: 3, walletsPerFarm: 6, organicWallets: 12 });
+    const report = new SybilClusterDetector().detect(batch.wallets);
+    const byAddress = new Map(report.wallets.map(wallet => [wallet.walletAddress, wallet]));
+
+    expect(report.clusters).toHaveLength(3);
+    batch.farms.forEach(farm => {
+      const clusterIds = new Set(farm.map(address => byAddress.get(address)?.clusterId));
+      expect(clusterIds.size).toBe(1);
+      const cluster = report.clusters.find(c => c.clusterId === [...clusterIds][0]);
+      expect([...(cluster?.wallets ?? [])].sort()).toEqual([...farm].sort());
+      expect(cluster?.signals).toEqual(['shared_funding', 'similar_sequence', 'synchronized_activity', 'shared_sweep']);
+      farm.forEach(address => expect(byAddress.get(address)?.sybilScore).toBeGreaterThanOrEqual(90));
+    });
+
+    const farmed = new Set(batch.farms.flat());
+    report.wallets
+      .filter(wallet => !farmed.has(wallet.walletAddress))
+      .forEach(wallet => {
+        expect(wallet.clusterId).toBeUndefined();
+        expect(wallet.sybilScore).toBe(0);
+        expect(wallet.evidence).toEqual([]);
+      });
+  });
+
+  it('should give each wallet the evidence linking it to the others', () => {
+    const wallets: WalletData[] = ['0xa1', '0xa2'].map((walletAddress, i) => ({
+      walletAddress,
+      transactions: [
+        tx(`0x${i}0`, '2024-01-01T00:00:00Z', 'transfer', { from: FUNDER, to: walletAddress, token: 'ETH', amount: '1' }),
+        tx(`0x${i}1`, `2024-01-02T00:0${i}:00Z`, 'swap', { protocol: 'Uniswap V3' }),
+        tx(`0x${i}2`, `2024-01-03T00:0${i}:00Z`, 'stake', { protocol: 'Lido' }),
+      ],
+    }));
+    const report = new SybilClusterDetector().detect(wallets);
+
+    expect(report.clusters).toEqual([
+      { clusterId: 'cluster-1', wallets: ['0xa1', '0xa2'], signals: ['shared_funding', 'similar_sequence', 'synchronized_activity'] },
+    ]);
+    expect(report.wallets[0]).toEqual({
+      walletAddress: '0xa1',
+      clusterId: 'cluster-1',
+      sybilScore: 43,
+      evidence: [
+        {
+          signal: 'shared_funding',
+          description: `first funded by ${FUNDER} like 1 other wallet`,
+          wallets: ['0xa2'],
+          counterparty: FUNDER,
+          hashes: ['0x00'],
+        },
+        {
+          signal: 'similar_sequence',
+          description: 'transaction sequence at least 90% identical to 1 other wallet',
+          wallets: ['0xa2'],
+          hashes: ['0x00', '0x01', '0x02'],
+        },
+        {
+          signal: 'synchronized_activity',
+          description: 'same actions within 10 minutes of 1 other wallet',
+          wallets: ['0xa2'],
+          hashes: ['0x00', '0x01', '0x02'],
+        },
+      ],
+    });
+  });
+
+  it('should not cluster organic wallets for doing the same popular thing', () => {
+    const wallets: WalletData[] = Array.from({ length: 8 }, (_, w) => {
+      const walletAddress = `0xc${w}`;
+      const month = String(w + 1).padStart(2, '0');
+      return {
+        walletAddress,
+        transactions: [
+          tx(`0x${w}0`, `2024-${month}-01T00:00:00Z`, 'transfer', { from: `0xf${w}`, to: walletAddress, token: 'ETH', amount: '1' }),
+          ...Array.from({ length: 5 }, (_, k) =>
+            tx(`0x${w}${k + 1}`, `2024-${month}-0${k + 2}T00:00:00Z`, 'swap', { protocol: 'Uniswap V3' })
+          ),
+        ],
+      };
+    });
+    const report = new SybilClusterDetector().detect(wallets);
+
+    expect(report.clusters).toEqual([]);
+    report.wallets.forEach(wallet => {
+      expect(wallet.sybilScore).toBe(0);
+      expect(wallet.evidence).toEqual([]);
+    });
+  });
+
+  it('should not link wallets through protocol contracts or ignored counterparties', () => {
+    const uniswapRouter = '0xe592427a0aece92de3edee1f18e0157c05861564';
+    const wallets: WalletData[] = ['0xb1', '0xb2'].map((walletAddress, i) => ({
+      walletAddress,
+      transactions: [
+        tx(`0x${i}0`, `2024-0${i + 1}-01T00:00:00Z`, 'transfer', { from: EXCHANGE, to: walletAddress }),
+        tx(`0x${i}1`, `2024-0${i + 1}-02T00:00:00Z`, 'transfer', { from: walletAddress, to: uniswapRouter }),
+      ],
+    }));
+
+    expect(new SybilClusterDetector().detect(wallets).clusters).toHaveLength(1);
+    const report = new SybilClusterDetector(undefined, { ignoredCounterparties: [EXCHANGE.toUpperCase()] }).detect(wallets);
+    expect(report.clusters).toEqual([]);
+    expect(report.wallets.map(wallet => wallet.sybilScore)).toEqual([0, 0]);
+  });
+});
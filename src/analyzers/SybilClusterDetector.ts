@@ -0,0 +1,388 @@
+import { Transaction, WalletData, SybilSignal, SybilEvidence, SybilWallet, SybilCluster, SybilReport } from '../types';
+import { ProtocolRegistry } from '../registry/ProtocolRegistry.js';
+import { getChainById } from '../providers/chains.js';
+
+// Share of two transaction sequences that must match, by edit distance
+const SEQUENCE_SIMILARITY_THRESHOLD = 0.9;
+// Shorter histories match too easily to count as near-identical
+const MIN_SEQUENCE_LENGTH = 3;
+// The same action by two wallets this close together counts as synchronized
+const SYNC_WINDOW_MS = 10 * 60 * 1000;
+const MIN_SYNCHRONIZED = 3;
+const MIN_SYNCHRONIZED_SHARE = 0.5; // of the shorter history
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Points each kind of link adds to a wallet's sybil score, 100 in total
+const SIGNAL_WEIGHTS: Record<SybilSignal, number> = {
+  shared_funding: 30,
+  similar_sequence: 30,
+  synchronized_activity: 25,
+  shared_sweep: 15,
+};
+
+export interface SybilClusterDetectorOptions {
+  // Funders and destinations shared by unrelated wallets, e.g. exchange hot wallets
+  ignoredCounterparties?: string[];
+}
+
+interface WalletHistory {
+  walletAddress: string;
+  address: string; // lowercased
+  transactions: Transaction[]; // oldest first
+  times: number[];
+  actions: string[]; // "type:protocol" per transaction
+  funding?: { funder: string; hash: string };
+  sweeps: Map<string, string[]>; // destination -> hashes
+}
+
+interface Link {
+  signal: SybilSignal;
+  counterparty?: string;
+  wallets: Set<number>;
+  hashes: Set<string>;
+}
+
+/**
+ * SybilClusterDetector
+ * Finds clusters of related wallets in a batch: wallets first funded from
+ * the same address, wallets sending funds to the same destination,
+ * near-identical transaction sequences and the same actions taken at the
+ * same time.
+ *
+ * Near-identical sequences alone are common among organic wallets doing the
+ * same few popular things, so they only count between wallets that also
+ * share a funder or destination or act in sync; any other link puts two
+ * wallets in the same cluster. A wallet's sybil score adds
+ * up the weights of the kinds of link it has, scaled down for clusters of
+ * only a few wallets: a pair scores half, clusters of 7 or more in full.
+ * Sequence and timing are compared pairwise, so cost grows with the square
+ * of the batch size.
+ */
+export class SybilClusterDetector {
+  private readonly ignored: Set<string>;
+
+  constructor(
+    private readonly registry: ProtocolRegistry = new ProtocolRegistry(),
+    options: SybilClusterDetectorOptions = {}
+  ) {
+    this.ignored = new Set((options.ignoredCounterparties ?? []).map(address => address.toLowerCase()));
+  }
+
+  detect(wallets: WalletData[]): SybilReport {
+    const histories = wallets.map(wallet => this.history(wallet));
+    const links: Map<string, Link>[] = histories.map(() => new Map());
+
+    this.linkCounterparties(histories, links, 'shared_funding', history =>
+      history.funding ? [[history.funding.funder, [history.funding.hash]]] : []
+    );
+    this.linkCounterparties(histories, links, 'shared_sweep', history => Array.from(history.sweeps.entries()));
+
+    for (let i = 0; i < histories.length; i++) {
+      for (let j = i + 1; j < histories.length; j++) {
+        const synchronized = this.synchronizedActions(histories[i], histories[j]);
+        const corroborated = synchronized !== undefined || this.linked(links, i, j);
+        if (corroborated && this.similarSequences(histories[i].actions, histories[j].actions)) {
+          this.linkPair(links, 'similar_sequence', i, j, histories[i].transactions, histories[j].transactions);
+        }
+        if (synchronized) {
+          this.linkPair(links, 'synchronized_activity', i, j, synchronized[0], synchronized[1]);
+        }
+      }
+    }
+
+    const clusters = this.clusters(histories, links);
+    const clusterOf = new Map<number, { id: string; size: number }>();
+    clusters.forEach(({ cluster, members }) => {
+      members.forEach(index => clusterOf.set(index, { id: cluster.clusterId, size: members.length }));
+    });
+
+    return {
+      wallets: histories.map((history, index): SybilWallet => {
+        const evidence = Array.from(links[index].values()).map(link => this.evidence(link, histories));
+        const cluster = clusterOf.get(index);
+        const wallet: SybilWallet = {
+          walletAddress: history.walletAddress,
+          sybilScore: cluster ? this.score(evidence, cluster.size) : 0,
+          evidence,
+        };
+        if (cluster) {
+          wallet.clusterId = cluster.id;
+        }
+        return wallet;
+      }),
+      clusters: clusters.map(({ cluster }) => cluster),
+    };
+  }
+
+  private history(wallet: WalletData): WalletHistory {
+    const address = wallet.walletAddress.toLowerCase();
+    const transactions = [...wallet.transactions]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const history: WalletHistory = {
+      walletAddress: wallet.walletAddress,
+      address,
+      transactions,
+      times: transactions.map(tx => new Date(tx.timestamp).getTime()),
+      actions: transactions.map(tx => this.action(tx)),
+      sweeps: new Map(),
+    };
+
+    transactions.forEach(tx => {
+      if (tx.type !== 'transfer' && tx.type !== 'token_hold') {
+        return;
+      }
+      const funder = this.incomingFrom(tx, address);
+      if (funder && !history.funding) {
+        history.funding = { funder, hash: tx.hash };
+      }
+      this.outgoingTo(tx, address).forEach(destination => {
+        history.sweeps.set(destination, [...(history.sweeps.get(destination) || []), tx.hash]);
+      });
+    });
+
+    return history;
+  }
+
+  /**
+   * Action key compared across wallets, with protocol names resolved through the registry
+   */
+  private action(tx: Transaction): string {
+    const protocol = tx.details.protocol;
+    return `${tx.type}:${protocol ? this.registry.findProtocol(protocol)?.name ?? protocol : ''}`;
+  }
+
+  /**
+   * Sender of a native or ERC-20 transfer into the wallet
+   */
+  private incomingFrom(tx: Transaction, address: string): string | undefined {
+    const from = tx.details.from?.toLowerCase();
+    if (from && from !== address && tx.details.to?.toLowerCase() === address && this.isCounterparty(from, tx)) {
+      return from;
+    }
+    const transfer = (tx.details.transfers || []).find(t =>
+      t.standard === 'erc20' && t.to.toLowerCase() === address && this.isCounterparty(t.from.toLowerCase(), tx)
+    );
+    return transfer?.from.toLowerCase();
+  }
+
+  /**
+   * Recipients of native or ERC-20 transfers out of the wallet; a transfer
+   * without a sender is taken to be sent by the wallet
+   */
+  private outgoingTo(tx: Transaction, address: string): string[] {
+    const destinations = new Set<string>();
+    const from = tx.details.from?.toLowerCase() ?? (tx.type === 'transfer' ? address : undefined);
+    const to = tx.details.to?.toLowerCase();
+    if (from === address && to && to !== address && this.isCounterparty(to, tx)) {
+      destinations.add(to);
+    }
+    (tx.details.transfers || []).forEach(t => {
+      const recipient = t.to.toLowerCase();
+      if (t.standard === 'erc20' && t.from.toLowerCase() === address && recipient !== address && this.isCounterparty(recipient, tx)) {
+        destinations.add(recipient);
+      }
+    });
+    return Array.from(destinations);
+  }
+
+  /**
+   * Protocol contracts, the zero address and ignored addresses are shared by everyone
+   */
+  private isCounterparty(address: string, tx: Transaction): boolean {
+    if (address === ZERO_ADDRESS || this.ignored.has(address)) {
+      return false;
+    }
+    const chain = tx.chainId === undefined ? 'ethereum' : getChainById(tx.chainId)?.name;
+    return !chain || !this.registry.findContract(chain, address);
+  }
+
+  /**
+   * Link every wallet sharing a funder or destination with the others
+   */
+  private linkCounterparties(
+    histories: WalletHistory[],
+    links: Map<string, Link>[],
+    signal: SybilSignal,
+    counterparties: (history: WalletHistory) => [string, string[]][]
+  ): void {
+    const byCounterparty = new Map<string, { index: number; hashes: string[] }[]>();
+    histories.forEach((history, index) => {
+      counterparties(history).forEach(([counterparty, hashes]) => {
+        byCounterparty.set(counterparty, [...(byCounterparty.get(counterparty) || []), { index, hashes }]);
+      });
+    });
+
+    byCounterparty.forEach((group, counterparty) => {
+      if (group.length < 2) {
+        return;
+      }
+      group.forEach(({ index, hashes }) => {
+        links[index].set(`${signal}:${counterparty}`, {
+          signal,
+          counterparty,
+          wallets: new Set(group.map(member => member.index).filter(other => other !== index)),
+          hashes: new Set(hashes),
+        });
+      });
+    });
+  }
+
+  /**
+   * Whether any link already connects the two wallets
+   */
+  private linked(links: Map<string, Link>[], i: number, j: number): boolean {
+    return Array.from(links[i].values()).some(link => link.wallets.has(j));
+  }
+
+  /**
+   * Link two wallets both ways, each with its own transactions as evidence
+   */
+  private linkPair(
+    links: Map<string, Link>[],
+    signal: SybilSignal,
+    i: number,
+    j: number,
+    transactionsOfI: Transaction[],
+    transactionsOfJ: Transaction[]
+  ): void {
+    const add = (self: number, other: number, transactions: Transaction[]) => {
+      const link = links[self].get(signal) || { signal, wallets: new Set<number>(), hashes: new Set<string>() };
+      link.wallets.add(other);
+      transactions.forEach(tx => link.hashes.add(tx.hash));
+      links[self].set(signal, link);
+    };
+    add(i, j, transactionsOfI);
+    add(j, i, transactionsOfJ);
+  }
+
+  /**
+   * Normalized edit distance between the two action sequences
+   */
+  private similarSequences(a: string[], b: string[]): boolean {
+    const shorter = Math.min(a.length, b.length);
+    const longer = Math.max(a.length, b.length);
+    if (shorter < MIN_SEQUENCE_LENGTH || shorter / longer < SEQUENCE_SIMILARITY_THRESHOLD) {
+      return false;
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, k) => k);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let k = 1; k <= b.length; k++) {
+        current[k] = Math.min(
+          previous[k] + 1,
+          current[k - 1] + 1,
+          previous[k - 1] + (a[i - 1] === b[k - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+
+    return 1 - previous[b.length] / longer >= SEQUENCE_SIMILARITY_THRESHOLD;
+  }
+
+  /**
+   * Pairs of identical actions taken within the sync window, each transaction
+   * matched at most once. Returns the matched transactions of both wallets
+   * when enough of the shorter history lines up
+   */
+  private synchronizedActions(a: WalletHistory, b: WalletHistory): [Transaction[], Transaction[]] | undefined {
+    const matchedA: Transaction[] = [];
+    const matchedB: Transaction[] = [];
+    const used = new Set<number>();
+    let start = 0;
+
+    a.times.forEach((time, i) => {
+      while (start < b.times.length && b.times[start] < time - SYNC_WINDOW_MS) {
+        start++;
+      }
+      for (let k = start; k < b.times.length && b.times[k] <= time + SYNC_WINDOW_MS; k++) {
+        if (!used.has(k) && b.actions[k] === a.actions[i]) {
+          used.add(k);
+          matchedA.push(a.transactions[i]);
+          matchedB.push(b.transactions[k]);
+          break;
+        }
+      }
+    });
+
+    const shorter = Math.min(a.transactions.length, b.transactions.length);
+    return matchedA.length >= MIN_SYNCHRONIZED && matchedA.length >= shorter * MIN_SYNCHRONIZED_SHARE
+      ? [matchedA, matchedB]
+      : undefined;
+  }
+
+  /**
+   * Connected wallets, largest cluster first, numbered in that order
+   */
+  private clusters(
+    histories: WalletHistory[],
+    links: Map<string, Link>[]
+  ): { cluster: SybilCluster; members: number[] }[] {
+    const parent = histories.map((_, index) => index);
+    const root = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+    links.forEach((walletLinks, index) => {
+      walletLinks.forEach(link => link.wallets.forEach(other => {
+        parent[root(other)] = root(index);
+      }));
+    });
+
+    const groups = new Map<number, number[]>();
+    histories.forEach((_, index) => {
+      const group = groups.get(root(index)) || [];
+      group.push(index);
+      groups.set(root(index), group);
+    });
+
+    return Array.from(groups.values())
+      .filter(members => members.length > 1)
+      .sort((a, b) => b.length - a.length || a[0] - b[0])
+      .map((members, position) => {
+        const signals = new Set<SybilSignal>();
+        members.forEach(index => links[index].forEach(link => signals.add(link.signal)));
+        return {
+          cluster: {
+            clusterId: `cluster-${position + 1}`,
+            wallets: members.map(index => histories[index].walletAddress),
+            signals: (Object.keys(SIGNAL_WEIGHTS) as SybilSignal[]).filter(signal => signals.has(signal)),
+          },
+          members,
+        };
+      });
+  }
+
+  private evidence(link: Link, histories: WalletHistory[]): SybilEvidence {
+    const others = Array.from(link.wallets).sort((a, b) => a - b);
+    const count = `${others.length} other wallet${others.length === 1 ? '' : 's'}`;
+    const descriptions: Record<SybilSignal, string> = {
+      shared_funding: `first funded by ${link.counterparty} like ${count}`,
+      shared_sweep: `sent funds to ${link.counterparty} like ${count}`,
+      similar_sequence: `transaction sequence at least ${SEQUENCE_SIMILARITY_THRESHOLD * 100}% identical to ${count}`,
+      synchronized_activity: `same actions within ${SYNC_WINDOW_MS / 60000} minutes of ${count}`,
+    };
+
+    const evidence: SybilEvidence = {
+      signal: link.signal,
+      description: descriptions[link.signal],
+      wallets: others.map(index => histories[index].walletAddress),
+      hashes: Array.from(link.hashes),
+    };
+    if (link.counterparty) {
+      evidence.counterparty = link.counterparty;
+    }
+    return evidence;
+  }
+
+  private score(evidence: SybilEvidence[], clusterSize: number): number {
+    const signals = new Set(evidence.map(e => e.signal));
+    const points = Array.from(signals).reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal], 0);
+    const sizeFactor = Math.min(1, 0.5 + 0.1 * (clusterSize - 2));
+    return Math.round(points * sizeFactor);
+  }
+}
@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
+import * as fs from 'fs';
+import * as path from 'path';
 import { TransactionAnalyzer } from './TransactionAnalyzer';
+import { ScoreCalculator } from '../calculators/ScoreCalculator';
 import { Transaction, TransactionType } from '../types';
 
 describe('TransactionAnalyzer', () => {
@@ -85,4 +88,175 @@ describe('TransactionAnalyzer', () => {
       );
     });
   });
+
+  describe('New protocol detection', () => {
+    const tx = (hash: string, timestamp: string, protocol: string, isNew?: boolean): Transaction => ({
+      hash,
+      timestamp,
+      type: 'swap',
+      details: { protocol, is_new_protocol: isNew },
+    });
+
+    it('should compare interactions against registry launch dates', () => {
+      const result = analyzer.analyze([
+        // Blur launched 2022-10-19
+        tx('0x1', '2022-11-08T00:00:00Z', 'Blur'),
+        tx('0x2', '2024-01-01T00:00:00Z', 'Blur'),
+        // Known protocol long after launch: the input flag is ignored
+        tx('0x3', '2024-01-01T00:00:00Z', 'Uniswap V3', true),
+        // Not in the registry: the input flag is trusted
+        tx('0x4', '2024-01-01T00:00:00Z', 'Scroll', true),
+      ]);
+
+      expect(result.newProtocolInteractions).toBe(2);
+      expect(result.protocolAdoptions).toEqual([
+        { protocol: 'Blur', launchDate: '2022-10-19', firstInteraction: '2022-11-08T00:00:00Z', daysAfterLaunch: 20, isEarly: true },
+        { protocol: 'Uniswap', launchDate: '2018-11-02', firstInteraction: '2024-01-01T00:00:00Z', daysAfterLaunch: 1886, isEarly: false },
+      ]);
+    });
+
+    it('should honour a configurable window', () => {
+      const narrow = new TransactionAnalyzer(undefined, { newProtocolWindowDays: 7 });
+      const result = narrow.analyze([tx('0x1', '2022-11-08T00:00:00Z', 'Blur')]);
+
+      expect(result.newProtocolInteractions).toBe(0);
+      expect(result.protocolAdoptions[0].isEarly).toBe(false);
+    });
+  });
+
+  describe('As-of date', () => {
+    const transactions: Transaction[] = [
+      { hash: '0x1', timestamp: '2024-01-01T00:00:00Z', type: 'swap', details: { protocol: 'Uniswap V3' } },
+      {
+        hash: '0x2',
+        timestamp: '2024-01-01T00:00:00Z',
+        type: 'token_hold',
+        details: { token: 'ETH', start_date: '2024-01-01T00:00:00Z', end_date: '2024-12-31T00:00:00Z' },
+      },
+      { hash: '0x3', timestamp: '2024-02-20T00:00:00Z', type: 'swap', details: { protocol: 'Uniswap V3' } },
+      { hash: '0x4', timestamp: '2024-06-01T00:00:00Z', type: 'swap', details: { protocol: 'Uniswap V3' } },
+    ];
+
+    it('should exclude later transactions and measure time against the asOf date', () => {
+      const asOf = new TransactionAnalyzer(undefined, { asOf: new Date('2024-03-01T00:00:00Z') });
+      const result = asOf.analyze(transactions);
+
+      expect(result.totalTransactions).toBe(3);
+      expect(result.swapFrequency).toBe(2);
+      expect(result.recentActivityCount).toBe(1);
+      expect(result.evidence?.recentActivity).toEqual(['0x3']);
+      // Hold still open on 2024-03-01
+      expect(result.holdDurations.get('ETH')).toBe(60);
+      expect(result.blueChipHoldings[0].durationDays).toBe(60);
+    });
+
+    it('should give the same result whenever it runs', () => {
+      const first = new TransactionAnalyzer(undefined, { asOf: new Date('2024-03-01T00:00:00Z') }).analyze(transactions);
+      const second = new TransactionAnalyzer(undefined, { asOf: new Date('2024-03-01T00:00:00Z') }).analyze(transactions);
+
+      expect(second).toEqual(first);
+    });
+  });
+
+  describe('Lending, bridging, NFT trading and approvals', () => {
+    const transactions: Transaction[] = [
+      { hash: '0x1', timestamp: '2024-01-01T00:00:00Z', type: 'borrow', details: { protocol: 'Aave V3', token: 'USDC', amount: '1000' } },
+      { hash: '0x2', timestamp: '2024-01-05T00:00:00Z', type: 'repay', details: { protocol: 'Aave V3', token: 'USDC', amount: '400' } },
+      {
+        hash: '0x3',
+        timestamp: '2024-01-10T00:00:00Z',
+        type: 'liquidation',
+        details: { protocol: 'Aave V3', collateral_token: 'WETH', collateral_amount: '1', debt_token: 'USDC' },
+      },
+      { hash: '0x4', timestamp: '2024-01-12T00:00:00Z', type: 'nft_buy', details: { collection: 'Azuki', price: '5' } },
+      { hash: '0x5', timestamp: '2024-01-20T00:00:00Z', type: 'nft_sell', details: { collection: 'Azuki', price: '6' } },
+      {
+        hash: '0x6',
+        timestamp: '2024-01-21T00:00:00Z',
+        type: 'approve',
+        details: { token: 'USDC', spender: 'Uniswap V3', is_unlimited: true },
+      },
+      { hash: '0x7', timestamp: '2024-01-22T00:00:00Z', type: 'approve', details: { token: 'DAI', spender: 'Curve', is_unlimited: false } },
+      {
+        hash: '0x8',
+        timestamp: '2024-02-01T00:00:00Z',
+        type: 'remove_liquidity',
+        details: { token1: 'WETH', token2: 'USDC', amount1: '2', amount2: '3000' },
+      },
+    ];
+    const result = new TransactionAnalyzer(undefined, { asOf: new Date('2024-03-01T00:00:00Z') }).analyze(transactions);
+
+    it('should count each type and pick out unlimited approvals', () => {
+      expect(result.transactionTypes.get('approve')).toBe(2);
+      expect(result.transactionTypes.get('borrow')).toBe(1);
+      expect(result.evidence?.transactionTypes.get('liquidation')).toEqual(['0x3']);
+      expect(result.nftTransactions).toBe(2);
+      expect(result.unlimitedApprovals).toEqual([{ token: 'USDC', spender: 'Uniswap V3', hash: '0x6' }]);
+    });
+
+    it('should replay loans, liquidations and liquidity removals as token flows', () => {
+      const usdc = result.positions.find(position => position.token === 'USDC');
+      const weth = result.positions.find(position => position.token === 'WETH');
+
+      expect(usdc).toMatchObject({ openAmount: 3600, realizedAmount: 400 });
+      // The liquidated collateral was never recorded coming in
+      expect(weth).toMatchObject({ openAmount: 2, unmatchedAmount: 1 });
+    });
+
+    it('should feed borrowing, liquidations and approvals into the risk score', () => {
+      const contributions = new ScoreCalculator().explain(result).riskAppetite.contributions;
+
+      expect(contributions).toContainEqual(expect.objectContaining({ signal: 'borrows', points: 4, hashes: ['0x1'] }));
+      expect(contributions).toContainEqual(expect.objectContaining({ signal: 'liquidations', points: 10, hashes: ['0x3'] }));
+      expect(contributions).toContainEqual(expect.objectContaining({ signal: 'unlimitedApprovals', points: 2, hashes: ['0x6'] }));
+    });
+  });
+
+  describe('Incremental analysis', () => {
+    const asOf = new Date('2025-06-01T00:00:00Z');
+    const example = (name: string): { walletAddress: string; transactions: Transaction[] } =>
+      JSON.parse(fs.readFileSync(path.join(__dirname, '../../examples', name), 'utf-8'));
+
+    it.each(['wallet1-defi-degen.json', 'wallet4-airdrop-hunter.json', 'wallet5-protocol-specialist.json'])(
+      'should match a full analysis when %s is fed in two parts',
+      name => {
+        const { walletAddress, transactions } = example(name);
+        const sorted = [...transactions].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        const half = Math.floor(sorted.length / 2);
+        const incremental = new TransactionAnalyzer(undefined, { asOf });
+
+        const first = incremental.analyze(sorted.slice(0, half), walletAddress);
+        const saved = JSON.parse(JSON.stringify(first.state));
+        const second = incremental.analyze(sorted.slice(half), saved);
+        const full = new TransactionAnalyzer(undefined, { asOf }).analyze(transactions, walletAddress);
+
+        expect(second).toEqual(full);
+        expect(saved.counters.transactions).toBe(half);
+      }
+    );
+
+    it('should skip transactions already seen and reject older ones', () => {
+      const txs: Transaction[] = [
+        { hash: '0x1', timestamp: '2024-01-01T00:00:00Z', type: 'swap', details: { protocol: 'Uniswap' }, blockNumber: 100 },
+        { hash: '0x2', timestamp: '2024-02-01T00:00:00Z', type: 'swap', details: { protocol: 'Uniswap' }, blockNumber: 250 },
+        { hash: '0x3', timestamp: '2024-03-01T00:00:00Z', type: 'stake', details: { protocol: 'Lido', token: 'ETH' } },
+      ];
+      const incremental = new TransactionAnalyzer(undefined, { asOf: new Date('2024-04-01T00:00:00Z') });
+      const first = incremental.analyze(txs.slice(0, 2));
+      const state = first.state!;
+
+      expect(state).toMatchObject({ lastTimestamp: '2024-02-01T00:00:00Z', lastBlockNumber: 250 });
+      const second = incremental.analyze(txs.slice(1), state);
+      expect(second.totalTransactions).toBe(3);
+      expect(second.protocolFrequency.get('Uniswap')).toBe(2);
+      // The state passed in is left untouched
+      expect(state.counters.transactions).toBe(2);
+
+      const older: Transaction = { hash: '0x0', timestamp: '2023-12-01T00:00:00Z', type: 'swap', details: {} };
+      expect(() => incremental.analyze([older], second.state)).toThrow(
+        'Transaction 0x0 at 2023-12-01T00:00:00Z is older than the last one analyzed (2024-03-01T00:00:00Z)'
+      );
+      expect(() => incremental.analyze([], { ...state, version: 2 } as never)).toThrow('Unsupported analyzer state version: 2');
+    });
+  });
 });
@@ -1,13 +1,25 @@
 import {
   Transaction,
+  TransactionType,
   AnalysisResult,
+  AnalyzerState,
   TokenHolding,
-  LiquidityProvision,
-  StakeInfo,
-  GovernanceVote,
   AirdropFlip,
+  AnalyzerOptions,
+  TokenPosition,
+  TransactionValuation,
+  TransactionValue,
+  PositionValue,
 } from '../types';
-import { TransactionAnalyzer as ITransactionAnalyzer } from '../interfaces';
+import { TransactionAnalyzer as ITransactionAnalyzer, PriceOracle } from '../interfaces';
+import { ProtocolRegistry } from '../registry/ProtocolRegistry.js';
+import { PositionTracker } from './PositionTracker.js';
+import { PortfolioAnalyzer } from './PortfolioAnalyzer.js';
+import { LendingAnalyzer } from './LendingAnalyzer.js';
+import { BridgeAnalyzer } from './BridgeAnalyzer.js';
+import { valueLegs } from '../oracles/valuation.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * TransactionAnalyzer implementation
@@ -15,277 +27,459 @@ import { TransactionAnalyzer as ITransactionAnalyzer } from '../interfaces';
  * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5, 3.1, 3.2, 3.3, 3.4, 3.5, 4.1, 4.2, 4.3
  */
 export class TransactionAnalyzer implements ITransactionAnalyzer {
-  private readonly BLUE_CHIP_TOKENS = ['ETH', 'WETH', 'WBTC', 'BTC'];
-  private readonly ESTABLISHED_PROTOCOLS = ['Uniswap', 'Aave', 'Lido', 'Compound', 'MakerDAO'];
   private readonly RECENT_ACTIVITY_DAYS = 30;
   private readonly DORMANCY_THRESHOLD_DAYS = 90;
   private readonly AIRDROP_FLIP_THRESHOLD_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly newProtocolWindowDays: number;
+  private readonly asOf?: Date;
+
+  // Token classifications, established protocols and launch dates come from the registry;
+  // transactions are valued in USD only when a price oracle is given
+  constructor(
+    private readonly registry: ProtocolRegistry = new ProtocolRegistry(),
+    options: AnalyzerOptions = {},
+    private readonly priceOracle?: PriceOracle
+  ) {
+    this.newProtocolWindowDays = options.newProtocolWindowDays ?? 90;
+    this.asOf = options.asOf;
+  }
 
-  analyze(transactions: Transaction[]): AnalysisResult {
-    const sortedTransactions = [...transactions].sort(
-      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+  /**
+   * Analyze the wallet as it stood at the asOf date (default: now).
+   * With an explicit asOf, transactions after it are left out and open
+   * holds end at it. The wallet address lets token transfers be read as
+   * inflows or outflows when reconstructing positions.
+   *
+   * Given the state a previous analysis returned instead, only the new
+   * transactions are replayed on top of it: ones already seen are skipped,
+   * and ones older than the newest seen are rejected, since counters and
+   * positions cannot be rewound. Resume with the same registry and options
+   */
+  analyze(transactions: Transaction[], previous?: string | AnalyzerState): AnalysisResult {
+    const asOf = this.asOf ?? new Date();
+    const state = typeof previous === 'object' ? this.resume(previous) : this.initialState(previous);
+    this.accumulate(state, this.newTransactions(state, transactions), asOf);
+    return this.summarize(state, asOf);
+  }
+
+  /**
+   * Transactions up to and including the explicit asOf date, or all of them
+   */
+  asOfTransactions(transactions: Transaction[]): Transaction[] {
+    if (!this.asOf) {
+      return [...transactions];
+    }
+    const cutoff = this.asOf.getTime();
+    return transactions.filter(tx => new Date(tx.timestamp).getTime() <= cutoff);
+  }
 
+  private initialState(walletAddress?: string): AnalyzerState {
     return {
-      swapFrequency: this.calculateSwapFrequency(sortedTransactions),
-      newProtocolInteractions: this.detectNewProtocolInteractions(sortedTransactions),
-      liquidityProvisions: this.analyzeLiquidityProvisions(sortedTransactions),
-      blueChipHoldings: this.detectBlueChipHoldings(sortedTransactions),
-      stableStakes: this.analyzeStableStaking(sortedTransactions),
-      holdDurations: this.calculateHoldDurations(sortedTransactions),
-      governanceVotes: this.trackGovernanceVotes(sortedTransactions),
-      airdropFlips: this.detectAirdropFlips(sortedTransactions),
-      protocolFrequency: this.countProtocolFrequency(sortedTransactions),
-      nftTransactions: this.countNFTTransactions(sortedTransactions),
-      recentActivityCount: this.calculateRecentActivity(sortedTransactions),
-      totalTransactions: transactions.length,
-      dormancyPeriods: this.detectDormancyPeriods(sortedTransactions),
+      version: 1,
+      walletAddress,
+      counters: { transactions: 0, swaps: 0, newProtocolInteractions: 0, nftTransactions: 0 },
+      transactionTypes: {},
+      protocolFrequency: {},
+      protocolAdoptions: {},
+      liquidityProvisions: [],
+      stableStakes: [],
+      governanceVotes: [],
+      unlimitedApprovals: [],
+      airdrops: [],
+      dormancyGaps: [],
+      recent: [],
+      values: this.priceOracle ? [] : undefined,
+      evidence: { swaps: [], newProtocolInteractions: [], transactions: [], protocolFrequency: {}, transactionTypes: {} },
+      positions: { books: {}, pendingFlows: [] },
+      lending: { books: {}, liquidations: [], leverageLoops: [] },
+      crossChain: { arrivals: {}, bridges: [], chainCounts: {} },
     };
   }
 
   /**
-   * Calculate swap frequency
-   * Requirements: 2.1
+   * A working copy of saved state, so the caller's copy is left as it was
    */
-  private calculateSwapFrequency(transactions: Transaction[]): number {
-    return transactions.filter(tx => tx.type === 'swap').length;
+  private resume(previous: AnalyzerState): AnalyzerState {
+    if (previous.version !== 1) {
+      throw new Error(`Unsupported analyzer state version: ${previous.version}`);
+    }
+    return JSON.parse(JSON.stringify(previous));
   }
 
   /**
-   * Detect new protocol interactions
-   * Requirements: 2.2
+   * Transactions up to asOf that the state has not seen, oldest first
    */
-  private detectNewProtocolInteractions(transactions: Transaction[]): number {
-    return transactions.filter(
-      tx => tx.details.is_new_protocol === true
-    ).length;
+  private newTransactions(state: AnalyzerState, transactions: Transaction[]): Transaction[] {
+    const seen = new Set(state.evidence.transactions);
+    const fresh = this.asOfTransactions(transactions)
+      .filter(tx => !seen.has(tx.hash))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    const last = state.lastTimestamp ? new Date(state.lastTimestamp).getTime() : -Infinity;
+    const stale = fresh.find(tx => new Date(tx.timestamp).getTime() < last);
+    if (stale) {
+      throw new Error(
+        `Transaction ${stale.hash} at ${stale.timestamp} is older than the last one analyzed (${state.lastTimestamp}); ` +
+        'analyze the full history instead'
+      );
+    }
+    return fresh;
   }
 
   /**
-   * Analyze liquidity provisions
-   * Requirements: 2.3
+   * Fold new transactions, sorted oldest first, into the state
    */
-  private analyzeLiquidityProvisions(transactions: Transaction[]): LiquidityProvision[] {
-    return transactions
-      .filter(tx => tx.type === 'provide_liquidity')
-      .map(tx => {
-        const token1 = tx.details.token1 || tx.details.tokenA || 'UNKNOWN';
-        const token2 = tx.details.token2 || tx.details.tokenB || 'UNKNOWN';
-        const protocol = tx.details.protocol || 'UNKNOWN';
-        
-        // Consider volatile if neither token is a stablecoin or blue-chip
-        const stablecoins = ['USDC', 'USDT', 'DAI', 'BUSD'];
-        const isToken1Stable = stablecoins.includes(token1) || this.BLUE_CHIP_TOKENS.includes(token1);
-        const isToken2Stable = stablecoins.includes(token2) || this.BLUE_CHIP_TOKENS.includes(token2);
-        const isVolatile = !isToken1Stable || !isToken2Stable;
+  private accumulate(state: AnalyzerState, transactions: Transaction[], asOf: Date): void {
+    transactions.forEach(tx => {
+      this.countTransaction(state, tx);
+      this.recordSignals(state, tx);
+      this.trackDormancy(state, tx);
+      this.trackProtocolAdoption(state, tx);
+      this.trackAirdrops(state, tx);
+      if (state.values && this.priceOracle) {
+        this.valueTransaction(state.values, tx, this.priceOracle);
+      }
 
-        return {
-          token1,
-          token2,
-          protocol,
-          isVolatile,
-        };
-      });
+      state.recent.push({ timestamp: tx.timestamp, hash: tx.hash });
+      state.firstTimestamp ??= tx.timestamp;
+      state.lastTimestamp = tx.timestamp;
+      if (tx.blockNumber !== undefined) {
+        state.lastBlockNumber = Math.max(state.lastBlockNumber ?? 0, tx.blockNumber);
+      }
+    });
+
+    // Transactions before this window can never count as recent again
+    const recentSince = asOf.getTime() - this.RECENT_ACTIVITY_DAYS * DAY_MS;
+    state.recent = state.recent.filter(tx => new Date(tx.timestamp).getTime() >= recentSince);
+
+    new PositionTracker(state.walletAddress).update(state.positions, transactions, asOf);
+    new LendingAnalyzer(this.registry, this.priceOracle).update(state.lending, transactions);
+    new BridgeAnalyzer(this.registry).update(state.crossChain, transactions);
   }
 
   /**
-   * Detect blue-chip holdings
-   * Requirements: 2.4
+   * Analysis result of the accumulated state at the asOf date
    */
-  private detectBlueChipHoldings(transactions: Transaction[]): TokenHolding[] {
-    const holdings: TokenHolding[] = [];
-    
-    transactions
-      .filter(tx => tx.type === 'token_hold')
-      .forEach(tx => {
-        const token = tx.details.token || 'UNKNOWN';
-        const isBlueChip = this.BLUE_CHIP_TOKENS.includes(token);
-        
-        if (isBlueChip) {
-          const durationDays = this.calculateDurationInDays(
-            tx.details.start_date || tx.timestamp,
-            tx.details.end_date || new Date().toISOString()
-          );
-          
-          holdings.push({
-            token,
-            durationDays,
-            isBlueChip: true,
-          });
-        }
-      });
+  private summarize(state: AnalyzerState, asOf: Date): AnalysisResult {
+    const positions = new PositionTracker(state.walletAddress).positions(state.positions, asOf);
+    const recentActivity = this.recentTransactions(state, asOf);
+
+    const result: AnalysisResult = {
+      swapFrequency: state.counters.swaps,
+      newProtocolInteractions: state.counters.newProtocolInteractions,
+      liquidityProvisions: [...state.liquidityProvisions],
+      blueChipHoldings: this.detectBlueChipHoldings(positions),
+      stableStakes: [...state.stableStakes],
+      holdDurations: this.calculateHoldDurations(positions),
+      governanceVotes: [...state.governanceVotes],
+      airdropFlips: this.detectAirdropFlips(state),
+      protocolFrequency: new Map(Object.entries(state.protocolFrequency)),
+      nftTransactions: state.counters.nftTransactions,
+      recentActivityCount: recentActivity.length,
+      totalTransactions: state.counters.transactions,
+      dormancyPeriods: state.dormancyGaps.map(gap => gap.days),
+      protocolAdoptions: Object.values(state.protocolAdoptions),
+      transactionTypes: new Map(Object.entries(state.transactionTypes) as [TransactionType, number][]),
+      unlimitedApprovals: [...state.unlimitedApprovals],
+      positions,
+      portfolio: new PortfolioAnalyzer(this.registry, this.priceOracle).analyze(positions, asOf),
+      lending: new LendingAnalyzer(this.registry, this.priceOracle).profile(state.lending),
+      crossChain: new BridgeAnalyzer(this.registry).activity(state.crossChain),
+      evidence: {
+        swaps: [...state.evidence.swaps],
+        newProtocolInteractions: [...state.evidence.newProtocolInteractions],
+        recentActivity,
+        transactions: [...state.evidence.transactions],
+        dormancyPeriods: state.dormancyGaps.map(gap => gap.hash),
+        holdDurations: new Map(positions.map(position => [position.token, position.hashes])),
+        protocolFrequency: new Map(Object.entries(state.evidence.protocolFrequency)),
+        transactionTypes: new Map(Object.entries(state.evidence.transactionTypes) as [TransactionType, string[]][]),
+      },
+      state,
+    };
 
-    return holdings;
+    if (this.priceOracle) {
+      result.valuation = this.summarizeValuation(state.values ?? [], positions, asOf, this.priceOracle);
+    }
+
+    return result;
   }
 
   /**
-   * Analyze stable staking
-   * Requirements: 2.5
+   * Count transactions in total, of each type and per protocol
+   * Requirements: 2.1, 5.3, 7.1
    */
-  private analyzeStableStaking(transactions: Transaction[]): StakeInfo[] {
-    const stablecoins = ['USDC', 'USDT', 'DAI', 'BUSD'];
-    
-    return transactions
-      .filter(tx => tx.type === 'stake')
-      .map(tx => {
-        const token = tx.details.token || 'UNKNOWN';
-        const protocol = tx.details.protocol || 'UNKNOWN';
-        const isStablecoin = stablecoins.includes(token);
-        const isBlueChip = this.BLUE_CHIP_TOKENS.includes(token);
-        const isEstablished = this.ESTABLISHED_PROTOCOLS.includes(protocol);
+  private countTransaction(state: AnalyzerState, tx: Transaction): void {
+    const { counters, evidence } = state;
+    counters.transactions++;
+    evidence.transactions.push(tx.hash);
+
+    state.transactionTypes[tx.type] = (state.transactionTypes[tx.type] || 0) + 1;
+    (evidence.transactionTypes[tx.type] ??= []).push(tx.hash);
+
+    const protocol = tx.details.protocol;
+    if (protocol) {
+      state.protocolFrequency[protocol] = (state.protocolFrequency[protocol] || 0) + 1;
+      (evidence.protocolFrequency[protocol] ??= []).push(tx.hash);
+    }
 
-        return {
-          token,
-          protocol,
-          isEstablished: isEstablished && (isStablecoin || isBlueChip),
-        };
-      })
-      .filter(stake => stake.isEstablished);
+    if (tx.type === 'swap') {
+      counters.swaps++;
+      evidence.swaps.push(tx.hash);
+    }
+    if (tx.type === 'nft_mint' || tx.type === 'nft_buy' || tx.type === 'nft_sell') {
+      counters.nftTransactions++;
+    }
+    if (this.isNewProtocolInteraction(tx)) {
+      counters.newProtocolInteractions++;
+      evidence.newProtocolInteractions.push(tx.hash);
+    }
   }
 
   /**
-   * Calculate hold durations
-   * Requirements: 3.1
+   * Record liquidity provisions, established stakes, governance votes and unlimited approvals
+   * Requirements: 2.3, 2.5, 3.2
    */
-  private calculateHoldDurations(transactions: Transaction[]): Map<string, number> {
-    const holdDurations = new Map<string, number>();
+  private recordSignals(state: AnalyzerState, tx: Transaction): void {
+    switch (tx.type) {
+      case 'provide_liquidity': {
+        const token1 = tx.details.token1 || 'UNKNOWN';
+        const token2 = tx.details.token2 || 'UNKNOWN';
+
+        // Consider volatile if neither token is a stablecoin or blue-chip
+        const isToken1Stable = this.registry.isStablecoin(token1) || this.registry.isBlueChip(token1);
+        const isToken2Stable = this.registry.isStablecoin(token2) || this.registry.isBlueChip(token2);
 
-    transactions
-      .filter(tx => tx.type === 'token_hold')
-      .forEach(tx => {
+        state.liquidityProvisions.push({
+          token1,
+          token2,
+          protocol: tx.details.protocol || 'UNKNOWN',
+          isVolatile: !isToken1Stable || !isToken2Stable,
+          hash: tx.hash,
+        });
+        break;
+      }
+      case 'stake': {
         const token = tx.details.token || 'UNKNOWN';
-        const durationDays = this.calculateDurationInDays(
-          tx.details.start_date || tx.timestamp,
-          tx.details.end_date || new Date().toISOString()
-        );
-        
-        const currentDuration = holdDurations.get(token) || 0;
-        holdDurations.set(token, currentDuration + durationDays);
-      });
+        const protocol = tx.details.protocol || 'UNKNOWN';
+        const isStableOrBlueChip = this.registry.isStablecoin(token) || this.registry.isBlueChip(token);
 
-    return holdDurations;
+        if (this.registry.isEstablished(protocol) && isStableOrBlueChip) {
+          state.stableStakes.push({ token, protocol, isEstablished: true, hash: tx.hash });
+        }
+        break;
+      }
+      case 'governance_vote':
+        state.governanceVotes.push({
+          protocol: tx.details.protocol || 'UNKNOWN',
+          timestamp: tx.timestamp,
+          hash: tx.hash,
+        });
+        break;
+      case 'approve':
+        // Approvals that let the spender move any amount of the token
+        if (tx.details.is_unlimited === true) {
+          state.unlimitedApprovals.push({
+            token: tx.details.token || 'UNKNOWN',
+            spender: tx.details.spender || 'UNKNOWN',
+            hash: tx.hash,
+          });
+        }
+        break;
+    }
   }
 
   /**
-   * Track governance votes
-   * Requirements: 3.2
+   * Detect new protocol interactions
+   * Protocols in the registry count as new when the interaction falls within
+   * the window after their launch; the input's is_new_protocol flag is only
+   * trusted for protocols the registry has no launch date for
+   * Requirements: 2.2
    */
-  private trackGovernanceVotes(transactions: Transaction[]): GovernanceVote[] {
-    return transactions
-      .filter(tx => tx.type === 'governance_vote')
-      .map(tx => ({
-        protocol: tx.details.protocol || 'UNKNOWN',
-        timestamp: tx.timestamp,
-      }));
+  private isNewProtocolInteraction(tx: Transaction): boolean {
+    const protocol = this.registry.findProtocol(tx.details.protocol || '');
+    if (!protocol) {
+      return tx.details.is_new_protocol === true;
+    }
+    return this.isWithinLaunchWindow(this.daysAfterLaunch(protocol.launchDate, tx.timestamp));
   }
 
   /**
-   * Detect airdrop flips
-   * Requirements: 3.4
+   * First interaction with each registry protocol and how long after its launch it came
    */
-  private detectAirdropFlips(transactions: Transaction[]): AirdropFlip[] {
-    const airdropFlips: AirdropFlip[] = [];
-    const airdrops = transactions.filter(tx => tx.type === 'receive_airdrop');
-
-    airdrops.forEach(airdrop => {
-      const token = airdrop.details.token || 'UNKNOWN';
-      const receivedAt = airdrop.timestamp;
-      const receivedTime = new Date(receivedAt).getTime();
-
-      // Find swaps of the same token shortly after receiving
-      const swaps = transactions.filter(
-        tx => tx.type === 'swap' &&
-        (tx.details.token_from === token || tx.details.tokenFrom === token) &&
-        new Date(tx.timestamp).getTime() > receivedTime
-      );
+  private trackProtocolAdoption(state: AnalyzerState, tx: Transaction): void {
+    const protocol = this.registry.findProtocol(tx.details.protocol || '');
+    if (!protocol || state.protocolAdoptions[protocol.name]) {
+      return;
+    }
 
-      if (swaps.length > 0) {
-        const firstSwap = swaps[0];
-        const swappedAt = firstSwap.timestamp;
-        const timeDelta = new Date(swappedAt).getTime() - receivedTime;
-
-        if (timeDelta <= this.AIRDROP_FLIP_THRESHOLD_MS) {
-          airdropFlips.push({
-            token,
-            receivedAt,
-            swappedAt,
-            timeDelta,
-          });
-        }
-      }
-    });
+    const daysAfterLaunch = this.daysAfterLaunch(protocol.launchDate, tx.timestamp);
+    state.protocolAdoptions[protocol.name] = {
+      protocol: protocol.name,
+      launchDate: protocol.launchDate,
+      firstInteraction: tx.timestamp,
+      daysAfterLaunch: Math.round(daysAfterLaunch * 10) / 10,
+      isEarly: this.isWithinLaunchWindow(daysAfterLaunch),
+    };
+  }
+
+  /**
+   * Gaps of at least the dormancy threshold, with the transaction that ended each
+   * Requirements: 4.3
+   */
+  private trackDormancy(state: AnalyzerState, tx: Transaction): void {
+    if (!state.lastTimestamp) {
+      return;
+    }
 
-    return airdropFlips;
+    const gapDays = (new Date(tx.timestamp).getTime() - new Date(state.lastTimestamp).getTime()) / DAY_MS;
+    if (gapDays >= this.DORMANCY_THRESHOLD_DAYS) {
+      state.dormancyGaps.push({ days: gapDays, hash: tx.hash });
+    }
   }
 
   /**
-   * Count protocol frequency
-   * Requirements: 7.1
+   * Note airdrops, and the first later swap of each airdropped token
    */
-  private countProtocolFrequency(transactions: Transaction[]): Map<string, number> {
-    const frequency = new Map<string, number>();
+  private trackAirdrops(state: AnalyzerState, tx: Transaction): void {
+    if (tx.type === 'receive_airdrop') {
+      state.airdrops.push({ token: tx.details.token || 'UNKNOWN', receivedAt: tx.timestamp, hash: tx.hash });
+      return;
+    }
+    if (tx.type !== 'swap') {
+      return;
+    }
 
-    transactions.forEach(tx => {
-      const protocol = tx.details.protocol;
-      if (protocol) {
-        frequency.set(protocol, (frequency.get(protocol) || 0) + 1);
-      }
-    });
+    const time = new Date(tx.timestamp).getTime();
+    state.airdrops
+      .filter(airdrop => !airdrop.swap && airdrop.token === tx.details.token_in && new Date(airdrop.receivedAt).getTime() < time)
+      .forEach(airdrop => {
+        airdrop.swap = { timestamp: tx.timestamp, hash: tx.hash };
+      });
+  }
+
+  /**
+   * Detect blue-chip holdings: one per blue-chip position, held for its
+   * amount-weighted average hold time
+   * Requirements: 2.4
+   */
+  private detectBlueChipHoldings(positions: TokenPosition[]): TokenHolding[] {
+    return positions
+      .filter(position => position.lots.length > 0 && this.registry.isBlueChip(position.token))
+      .map(position => ({
+        token: position.token,
+        durationDays: position.averageHoldDays,
+        isBlueChip: true,
+        hash: position.lots[0].openHash,
+      }));
+  }
 
-    return frequency;
+  /**
+   * Calculate hold durations from the reconstructed positions
+   * Requirements: 3.1
+   */
+  private calculateHoldDurations(positions: TokenPosition[]): Map<string, number> {
+    return new Map(
+      positions
+        .filter(position => position.lots.length > 0)
+        .map(position => [position.token, position.averageHoldDays])
+    );
   }
 
   /**
-   * Count NFT transactions
-   * Requirements: 5.3
+   * Detect airdrop flips: airdropped tokens swapped away within 24 hours
+   * Requirements: 3.4
    */
-  private countNFTTransactions(transactions: Transaction[]): number {
-    return transactions.filter(tx => tx.type === 'nft_mint').length;
+  private detectAirdropFlips(state: AnalyzerState): AirdropFlip[] {
+    return state.airdrops
+      .filter(airdrop => airdrop.swap !== undefined)
+      .map(airdrop => {
+        const swap = airdrop.swap as { timestamp: string; hash: string };
+        return {
+          token: airdrop.token,
+          receivedAt: airdrop.receivedAt,
+          swappedAt: swap.timestamp,
+          timeDelta: new Date(swap.timestamp).getTime() - new Date(airdrop.receivedAt).getTime(),
+          hashes: [airdrop.hash, swap.hash],
+        };
+      })
+      .filter(flip => flip.timeDelta <= this.AIRDROP_FLIP_THRESHOLD_MS);
   }
 
   /**
-   * Calculate recent activity (last 30 days)
+   * Transactions in the last 30 days before asOf
    * Requirements: 4.2
    */
-  private calculateRecentActivity(transactions: Transaction[]): number {
-    const now = new Date().getTime();
-    const thirtyDaysAgo = now - (this.RECENT_ACTIVITY_DAYS * 24 * 60 * 60 * 1000);
+  private recentTransactions(state: AnalyzerState, asOf: Date): string[] {
+    const thirtyDaysAgo = asOf.getTime() - (this.RECENT_ACTIVITY_DAYS * DAY_MS);
 
-    return transactions.filter(
-      tx => new Date(tx.timestamp).getTime() >= thirtyDaysAgo
-    ).length;
+    return state.recent
+      .filter(tx => new Date(tx.timestamp).getTime() >= thirtyDaysAgo)
+      .map(tx => tx.hash);
   }
 
   /**
-   * Detect dormancy periods
-   * Requirements: 4.3
+   * USD value of a transaction at its timestamp, when any of its legs can be priced
    */
-  private detectDormancyPeriods(transactions: Transaction[]): number[] {
-    if (transactions.length < 2) {
-      return [];
+  private valueTransaction(values: TransactionValue[], tx: Transaction, oracle: PriceOracle): void {
+    const priced = valueLegs(tx)
+      .map(leg => ({ ...leg, price: oracle.getPrice(leg.token, tx.timestamp) }))
+      .filter(leg => leg.price !== undefined)
+      .map(leg => leg.amount * (leg.price as number));
+
+    if (priced.length > 0) {
+      // Both legs of a swap are the same trade
+      const usdValue = tx.type === 'swap' ? priced[0] : priced.reduce((sum, value) => sum + value, 0);
+      values.push({ hash: tx.hash, type: tx.type, usdValue });
     }
+  }
 
-    const dormancyPeriods: number[] = [];
-
-    for (let i = 1; i < transactions.length; i++) {
-      const prevTime = new Date(transactions[i - 1].timestamp).getTime();
-      const currTime = new Date(transactions[i].timestamp).getTime();
-      const gapDays = (currTime - prevTime) / (24 * 60 * 60 * 1000);
-
-      if (gapDays >= this.DORMANCY_THRESHOLD_DAYS) {
-        dormancyPeriods.push(gapDays);
+  /**
+   * Trade volume and size from the transaction values, and the largest
+   * open position at the analysis date
+   */
+  private summarizeValuation(
+    values: TransactionValue[],
+    positions: TokenPosition[],
+    asOf: Date,
+    oracle: PriceOracle
+  ): TransactionValuation {
+    const swapValues = values.filter(value => value.type === 'swap').map(value => value.usdValue).sort((a, b) => a - b);
+    const middle = Math.floor(swapValues.length / 2);
+    const medianTradeSize = swapValues.length === 0
+      ? 0
+      : swapValues.length % 2 === 1 ? swapValues[middle] : (swapValues[middle - 1] + swapValues[middle]) / 2;
+
+    let largestPosition: PositionValue | undefined;
+    positions.forEach(position => {
+      const price = position.openAmount > 0 ? oracle.getPrice(position.token, asOf.toISOString()) : undefined;
+      const usdValue = price === undefined ? 0 : position.openAmount * price;
+      if (usdValue > 0 && usdValue > (largestPosition?.usdValue ?? 0)) {
+        largestPosition = {
+          token: position.token,
+          amount: position.openAmount,
+          usdValue,
+          hashes: position.lots.filter(lot => lot.closedAt === undefined).map(lot => lot.openHash),
+        };
       }
-    }
+    });
 
-    return dormancyPeriods;
+    return {
+      transactions: [...values],
+      totalVolume: values.filter(value => value.type !== 'token_hold').reduce((sum, value) => sum + value.usdValue, 0),
+      medianTradeSize,
+      largestPosition,
+    };
   }
 
   /**
-   * Helper: Calculate duration in days between two dates
+   * Helper: Days between a protocol launch and an interaction, negative if before launch
    */
-  private calculateDurationInDays(startDate: string, endDate: string): number {
-    const start = new Date(startDate).getTime();
-    const end = new Date(endDate).getTime();
-    return Math.max(0, (end - start) / (24 * 60 * 60 * 1000));
+  private daysAfterLaunch(launchDate: string, timestamp: string): number {
+    return (new Date(timestamp).getTime() - new Date(launchDate).getTime()) / DAY_MS;
+  }
+
+  private isWithinLaunchWindow(daysAfterLaunch: number): boolean {
+    return daysAfterLaunch >= 0 && daysAfterLaunch <= this.newProtocolWindowDays;
   }
 }
@@ -1 +1,6 @@
 export * from './TransactionAnalyzer';
+export * from './PositionTracker';
+export * from './PortfolioAnalyzer';
+export * from './LendingAnalyzer';
+export * from './BridgeAnalyzer';
+export * from './SybilClusterDetector';
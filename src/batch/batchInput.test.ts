@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { readBatchItems, readBatchStream, parseBatchArray, BatchItem } from './batchInput';
+import { analyzeBatch } from '../index';
+import { PriceOracle } from '../interfaces';
+import { BatchResult } from '../types';
+
+const wallet = (walletAddress: string) => ({
+  walletAddress,
+  transactions: [{ hash: `${walletAddress}-1`, timestamp: '2024-01-01T00:00:00Z', type: 'swap', details: { protocol: 'Uniswap' } }],
+});
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+describe('Batch input', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-'));
+
+  it('should read one wallet per .json file in a directory', async () => {
+    const wallets = path.join(dir, 'wallets');
+    fs.mkdirSync(wallets);
+    fs.writeFileSync(path.join(wallets, 'b.json'), JSON.stringify(wallet('0xb')));
+    fs.writeFileSync(path.join(wallets, 'a.json'), JSON.stringify(wallet('0xa')));
+    fs.writeFileSync(path.join(wallets, 'notes.txt'), 'ignored');
+
+    const items = await collect(readBatchItems(wallets));
+    expect(items.map(item => item.source)).toEqual([path.join(wallets, 'a.json'), path.join(wallets, 'b.json')]);
+    expect(JSON.parse(items[0].inputJson).walletAddress).toBe('0xa');
+  });
+
+  it('should read NDJSON line by line and JSON arrays element by element', async () => {
+    const ndjson = path.join(dir, 'wallets.ndjson');
+    fs.writeFileSync(ndjson, `${JSON.stringify(wallet('0xa'))}\n\n{not json\n${JSON.stringify(wallet('0xb'))}\n`);
+    const array = path.join(dir, 'wallets.json');
+    fs.writeFileSync(array, JSON.stringify([wallet('0xa'), wallet('0xb')], null, 2));
+
+    expect((await collect(readBatchItems(ndjson))).map(item => item.source))
+      .toEqual([`${ndjson}:1`, `${ndjson}:3`, `${ndjson}:4`]);
+    expect((await collect(readBatchItems(array))).map(item => item.source)).toEqual([`${array}[0]`, `${array}[1]`]);
+    await expect(collect(readBatchStream(Readable.from(['[{"walletAddress": ']), 'stdin'))).rejects.toThrow('Invalid JSON in stdin');
+    expect(() => parseBatchArray('{}', 'body')).toThrow('body must hold a JSON array of wallets or NDJSON');
+    await expect(collect(readBatchItems(path.join(dir, 'missing.json')))).rejects.toThrow('File not found');
+  });
+
+  it('should read a pretty-printed wallet file as one wallet', async () => {
+    const pretty = path.join(__dirname, '../../examples/wallet1-defi-degen.json');
+    const items = await collect(readBatchItems(pretty));
+    expect(items).toHaveLength(1);
+    expect(items[0].source).toBe(pretty);
+    expect(JSON.parse(items[0].inputJson).walletAddress).toBe('0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb');
+
+    // A broken first line of NDJSON is still one failed line, not the whole stream
+    const ndjson = `{"walletAddress": \n${JSON.stringify(wallet('0xa'))}\n`;
+    expect((await collect(readBatchStream(Readable.from([ndjson]), 'stdin'))).map(item => item.source))
+      .toEqual(['stdin:1', 'stdin:2']);
+  });
+});
+
+describe('analyzeBatch', () => {
+  const items: BatchItem[] = [
+    { source: 'a', inputJson: JSON.stringify(wallet('0xa')) },
+    { source: 'broken', inputJson: '{not json' },
+    { source: 'c', inputJson: JSON.stringify({ walletAddress: '0xc', transactions: 'none' }) },
+    { source: 'd', inputJson: JSON.stringify(wallet('0xd')) },
+  ];
+
+  it('should report per-wallet errors without stopping the batch', async () => {
+    const results = await collect(analyzeBatch(items));
+    const byIndex = (a: BatchResult, b: BatchResult) => a.index - b.index;
+
+    expect(results.sort(byIndex).map(r => [r.source, r.status, r.walletAddress])).toEqual([
+      ['a', 'ok', '0xa'],
+      ['broken', 'error', undefined],
+      ['c', 'error', '0xc'],
+      ['d', 'ok', '0xd'],
+    ]);
+    expect(results[0].persona?.walletAddress).toBe('0xa');
+    expect(results[1].error).toMatch(/^Wallet analysis failed: Invalid JSON/);
+    expect(results[2].error).toBe('Wallet analysis failed: Validation failed: transactions must be an array');
+  });
+
+  it('should keep at most `concurrency` wallets in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const oracle: PriceOracle = {
+      getPrice: () => undefined,
+      prefetch: async () => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+      },
+    };
+    const many = Array.from({ length: 7 }, (_, i) => ({ source: `${i}`, inputJson: JSON.stringify(wallet(`0x${i}`)) }));
+
+    const results = await collect(analyzeBatch(many, { priceOracle: oracle, concurrency: 3 }));
+    expect(results).toHaveLength(7);
+    expect(results.every(result => result.status === 'ok')).toBe(true);
+    expect(peak).toBe(3);
+    await expect(collect(analyzeBatch(many, { concurrency: 0 }))).rejects.toThrow('Invalid concurrency: 0');
+  });
+});
@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+
+/**
+ * One wallet's input JSON and where it came from
+ */
+export interface BatchItem {
+  source: string; // file path, "<file>:<line>" for NDJSON or "<file>[<index>]" for arrays
+  inputJson: string;
+}
+
+/**
+ * Wallet inputs from a directory of .json files (one wallet each), a file
+ * holding a JSON array or NDJSON, or "-" for the same on stdin.
+ * NDJSON is read line by line, so large streams are never held in memory;
+ * a malformed line becomes a failed item rather than ending the batch
+ */
+export async function* readBatchItems(inputPath: string): AsyncGenerator<BatchItem> {
+  if (inputPath === '-') {
+    yield* readBatchStream(process.stdin, 'stdin');
+    return;
+  }
+
+  const absolutePath = path.resolve(inputPath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`File not found: ${inputPath}`);
+  }
+
+  if (!fs.statSync(absolutePath).isDirectory()) {
+    yield* readBatchStream(fs.createReadStream(absolutePath, 'utf-8'), inputPath);
+    return;
+  }
+
+  const files = fs.readdirSync(absolutePath)
+    .filter(name => name.toLowerCase().endsWith('.json'))
+    .sort();
+  for (const name of files) {
+    const file = path.join(inputPath, name);
+    yield { source: file, inputJson: fs.readFileSync(path.join(absolutePath, name), 'utf-8') };
+  }
+}
+
+/**
+ * Wallet inputs from a stream holding either a JSON array, NDJSON or a single
+ * (pretty-printed) wallet object, told apart by the first non-blank line.
+ * A first line opening an object that does not parse alone starts a single
+ * wallet; if the whole text does not parse either, its lines are NDJSON
+ */
+export async function* readBatchStream(stream: NodeJS.ReadableStream, source: string): AsyncGenerator<BatchItem> {
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  let arrayText: string[] | undefined;
+  let objectLines: { line: string; lineNumber: number }[] | undefined;
+  let lineNumber = 0;
+  let first = true;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (arrayText) {
+      arrayText.push(line);
+      continue;
+    }
+    if (objectLines) {
+      objectLines.push({ line, lineNumber });
+      continue;
+    }
+    if (line.trim() === '') {
+      continue;
+    }
+    const opensDocument = first;
+    first = false;
+    if (opensDocument && line.trimStart().startsWith('[')) {
+      arrayText = [line];
+      continue;
+    }
+    if (opensDocument && line.trimStart().startsWith('{') && !parses(line)) {
+      objectLines = [{ line, lineNumber }];
+      continue;
+    }
+    yield { source: `${source}:${lineNumber}`, inputJson: line };
+  }
+
+  if (arrayText) {
+    yield* parseBatchArray(arrayText.join('\n'), source);
+  }
+
+  if (objectLines) {
+    const text = objectLines.map(({ line }) => line).join('\n');
+    if (parses(text)) {
+      yield { source, inputJson: text };
+      return;
+    }
+    for (const { line, lineNumber } of objectLines) {
+      if (line.trim() !== '') {
+        yield { source: `${source}:${lineNumber}`, inputJson: line };
+      }
+    }
+  }
+}
+
+function parses(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wallet inputs from JSON array text, one per element
+ */
+export function parseBatchArray(text: string, source: string): BatchItem[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${source}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${source} must hold a JSON array of wallets or NDJSON`);
+  }
+
+  return parsed.map((wallet, index) => ({ source: `${source}[${index}]`, inputJson: JSON.stringify(wallet) }));
+}
@@ -1,13 +1,15 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import { ScoreCalculator } from './ScoreCalculator';
+import { DEFAULT_SCORING_MODEL } from './scoringModel';
 import { 
   AnalysisResult, 
   LiquidityProvision, 
   TokenHolding, 
   StakeInfo,
   GovernanceVote,
-  AirdropFlip
+  AirdropFlip,
+  ScoringModel
 } from '../types';
 
 describe('ScoreCalculator', () => {
@@ -74,7 +76,11 @@ describe('ScoreCalculator', () => {
     nftTransactions: fc.nat({ max: 100 }),
     recentActivityCount: fc.nat({ max: 100 }),
     totalTransactions: fc.nat({ max: 1000 }),
-    dormancyPeriods: fc.array(fc.nat({ max: 365 }), { maxLength: 20 })
+    dormancyPeriods: fc.array(fc.nat({ max: 365 }), { maxLength: 20 }),
+    protocolAdoptions: fc.constant([]),
+    transactionTypes: fc.constant(new Map()),
+    unlimitedApprovals: fc.constant([]),
+    positions: fc.constant([])
   });
 
   /**
@@ -338,4 +344,117 @@ describe('ScoreCalculator', () => {
       { numRuns: 100 }
     );
   });
+
+  describe('Scoring model', () => {
+    const quietAnalysis: AnalysisResult = {
+      swapFrequency: 9,
+      newProtocolInteractions: 0,
+      liquidityProvisions: [],
+      blueChipHoldings: [],
+      stableStakes: [],
+      holdDurations: new Map(),
+      governanceVotes: [],
+      airdropFlips: [],
+      protocolFrequency: new Map(),
+      nftTransactions: 0,
+      recentActivityCount: 0,
+      totalTransactions: 9,
+      dormancyPeriods: [],
+      protocolAdoptions: [],
+      transactionTypes: new Map(),
+      unlimitedApprovals: [],
+      positions: []
+    };
+
+    it('should apply the bundled weights and caps by default', () => {
+      // 50 base + min(9 * 5, 30)
+      expect(calculator.calculateRiskAppetite(quietAnalysis)).toBe(80);
+      expect(calculator.modelVersion).toBe(DEFAULT_SCORING_MODEL.version);
+    });
+
+    it('should score with a custom model', () => {
+      const model: ScoringModel = {
+        ...DEFAULT_SCORING_MODEL,
+        version: 'analyst-1',
+        scores: {
+          ...DEFAULT_SCORING_MODEL.scores,
+          riskAppetite: { base: 20, signals: [{ signal: 'swaps', weight: 2 }] },
+          activity: { base: 10, signals: [{ signal: 'transactions', weight: -3, cap: 5 }] },
+        },
+      };
+      const custom = new ScoreCalculator(model);
+
+      expect(custom.calculateRiskAppetite(quietAnalysis)).toBe(38);
+      expect(custom.calculateActivity(quietAnalysis)).toBe(5);
+      expect(custom.calculateLoyalty(quietAnalysis)).toBe(calculator.calculateLoyalty(quietAnalysis));
+    });
+
+    it('should reject an invalid model', () => {
+      const model = {
+        ...DEFAULT_SCORING_MODEL,
+        scores: { ...DEFAULT_SCORING_MODEL.scores, loyalty: { base: 50, signals: [{ signal: 'gasSpent', weight: 1 }] } },
+      } as unknown as ScoringModel;
+
+      expect(() => new ScoreCalculator(model)).toThrow('unknown signal "gasSpent"');
+    });
+  });
+
+  describe('Score explanations', () => {
+    it('should list capped, signed contributions with their transaction hashes', () => {
+      const analysis: AnalysisResult = {
+        swapFrequency: 9,
+        newProtocolInteractions: 0,
+        liquidityProvisions: [],
+        blueChipHoldings: [{ token: 'WETH', durationDays: 400, isBlueChip: true, hash: '0xhold' }],
+        stableStakes: [],
+        holdDurations: new Map([['WETH', 400]]),
+        governanceVotes: [],
+        airdropFlips: [],
+        protocolFrequency: new Map(),
+        nftTransactions: 0,
+        recentActivityCount: 0,
+        totalTransactions: 10,
+        dormancyPeriods: [],
+        protocolAdoptions: [],
+        transactionTypes: new Map(),
+        unlimitedApprovals: [],
+        positions: [],
+        evidence: {
+          swaps: ['0xs1', '0xs2', '0xs3', '0xs4', '0xs5', '0xs6', '0xs7', '0xs8', '0xs9'],
+          newProtocolInteractions: [],
+          recentActivity: [],
+          transactions: [],
+          dormancyPeriods: [],
+          holdDurations: new Map([['WETH', ['0xhold']]]),
+          protocolFrequency: new Map(),
+          transactionTypes: new Map(),
+        },
+      };
+
+      const { riskAppetite, loyalty } = calculator.explain(analysis);
+
+      expect(riskAppetite.score).toBe(calculator.calculateRiskAppetite(analysis));
+      expect(riskAppetite.base).toBe(50);
+      expect(riskAppetite.contributions.map(c => c.description)).toEqual([
+        'swaps: +30 (capped from +45)',
+        'blue-chip holds: -10',
+      ]);
+      expect(riskAppetite.contributions[0]).toMatchObject({ signal: 'swaps', value: 9, points: 30, capped: true });
+      expect(riskAppetite.contributions[0].hashes).toHaveLength(9);
+      expect(riskAppetite.contributions[1].hashes).toEqual(['0xhold']);
+      expect(loyalty.contributions[0]).toMatchObject({ description: 'hold days: +30 (capped from +40)', hashes: ['0xhold'] });
+    });
+
+    it('should agree with the calculated scores for any analysis', () => {
+      fc.assert(
+        fc.property(analysisResultArb, analysis => {
+          const explanations = calculator.explain(analysis);
+          expect(explanations.riskAppetite.score).toBe(calculator.calculateRiskAppetite(analysis));
+          expect(explanations.loyalty.score).toBe(calculator.calculateLoyalty(analysis));
+          expect(explanations.activity.score).toBe(calculator.calculateActivity(analysis));
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
 });
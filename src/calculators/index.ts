@@ -1 +1,3 @@
 export { ScoreCalculator } from './ScoreCalculator';
+export { DEFAULT_SCORING_MODEL, loadScoringModel } from './scoringModel';
+export { SCORING_SIGNALS } from './scoringSignals';
@@ -0,0 +1,26 @@
+import * as fs from 'fs';
+import { ScoringModel } from '../types';
+import { ScoringModelValidator } from '../validators/ScoringModelValidator.js';
+import defaultModel from './default-scoring-model.json' with { type: 'json' };
+
+/**
+ * Bundled scoring model: the weights, caps and base scores the calculator
+ * has always used
+ */
+export const DEFAULT_SCORING_MODEL = defaultModel as ScoringModel;
+
+/**
+ * Load and validate a scoring model from a JSON file with the same layout
+ * as default-scoring-model.json
+ */
+export function loadScoringModel(filePath: string): ScoringModel {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Failed to load scoring model ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+  return new ScoringModelValidator().parse(content);
+}
@@ -0,0 +1,190 @@
+import { AnalysisResult, ScoringSignalName, TransactionType } from '../types';
+
+export interface SignalMeasurement {
+  value: number;
+  hashes: string[]; // transactions that produced the value
+}
+
+export interface ScoringSignal {
+  label: string;
+  measure: (analysis: AnalysisResult) => SignalMeasurement;
+}
+
+/**
+ * How each signal a scoring model can reference is measured
+ * Hashes come from the analysis evidence and are empty when it is absent
+ */
+export const SCORING_SIGNALS: Record<ScoringSignalName, ScoringSignal> = {
+  swaps: {
+    label: 'swaps',
+    measure: analysis => ({ value: analysis.swapFrequency, hashes: analysis.evidence?.swaps ?? [] }),
+  },
+  newProtocolInteractions: {
+    label: 'new protocol interactions',
+    measure: analysis => ({
+      value: analysis.newProtocolInteractions,
+      hashes: analysis.evidence?.newProtocolInteractions ?? [],
+    }),
+  },
+  volatileLiquidityProvisions: {
+    label: 'volatile liquidity provisions',
+    measure: analysis => entries(analysis.liquidityProvisions.filter(lp => lp.isVolatile)),
+  },
+  blueChipHoldings: {
+    label: 'blue-chip holds',
+    measure: analysis => entries(analysis.blueChipHoldings),
+  },
+  establishedStableStakes: {
+    label: 'established stable stakes',
+    measure: analysis => entries(analysis.stableStakes.filter(stake => stake.isEstablished)),
+  },
+  // Average hold days summed across tokens
+  holdDays: {
+    label: 'hold days',
+    measure: analysis => holdDays(analysis, () => true),
+  },
+  // Average hold days of tokens held for less than a week
+  shortHoldDays: {
+    label: 'short hold days',
+    measure: analysis => holdDays(analysis, days => days < 7),
+  },
+  governanceVotes: {
+    label: 'governance votes',
+    measure: analysis => entries(analysis.governanceVotes),
+  },
+  // Protocols used more than once
+  repeatedProtocols: {
+    label: 'repeated protocols',
+    measure: analysis => {
+      const repeated = Array.from(analysis.protocolFrequency.entries()).filter(([, count]) => count > 1);
+      return {
+        value: repeated.length,
+        hashes: repeated.flatMap(([protocol]) => analysis.evidence?.protocolFrequency.get(protocol) ?? []),
+      };
+    },
+  },
+  airdropFlips: {
+    label: 'airdrop flips',
+    measure: analysis => ({
+      value: analysis.airdropFlips.length,
+      hashes: analysis.airdropFlips.flatMap(flip => flip.hashes ?? []),
+    }),
+  },
+  transactions: {
+    label: 'transactions',
+    measure: analysis => ({ value: analysis.totalTransactions, hashes: analysis.evidence?.transactions ?? [] }),
+  },
+  recentTransactions: {
+    label: 'recent transactions',
+    measure: analysis => ({ value: analysis.recentActivityCount, hashes: analysis.evidence?.recentActivity ?? [] }),
+  },
+  // Gaps of more than 90 days between transactions
+  longDormancyPeriods: {
+    label: 'long dormancy periods',
+    measure: analysis => {
+      const hashes = analysis.evidence?.dormancyPeriods ?? [];
+      const long = analysis.dormancyPeriods
+        .map((days, i) => ({ days, hash: hashes[i] }))
+        .filter(gap => gap.days > 90);
+      return { value: long.length, hashes: hashesOf(long) };
+    },
+  },
+  // USD signals measure 0 unless the analysis was run with a price oracle
+  totalVolumeUsd: {
+    label: 'trade volume (USD)',
+    measure: analysis => {
+      const traded = (analysis.valuation?.transactions ?? []).filter(value => value.type !== 'token_hold');
+      return { value: analysis.valuation?.totalVolume ?? 0, hashes: hashesOf(traded) };
+    },
+  },
+  medianTradeSizeUsd: {
+    label: 'median trade size (USD)',
+    measure: analysis => {
+      const swaps = (analysis.valuation?.transactions ?? [])
+        .filter(value => value.type === 'swap')
+        .sort((a, b) => a.usdValue - b.usdValue);
+      const middle = swaps.length % 2 === 1
+        ? swaps.slice(swaps.length >> 1, (swaps.length >> 1) + 1)
+        : swaps.slice((swaps.length >> 1) - 1, (swaps.length >> 1) + 1);
+      return { value: analysis.valuation?.medianTradeSize ?? 0, hashes: hashesOf(middle) };
+    },
+  },
+  largestPositionUsd: {
+    label: 'largest position (USD)',
+    measure: analysis => ({
+      value: analysis.valuation?.largestPosition?.usdValue ?? 0,
+      hashes: analysis.valuation?.largestPosition?.hashes ?? [],
+    }),
+  },
+  borrows: {
+    label: 'borrows',
+    measure: analysis => ofTypes(analysis, 'borrow'),
+  },
+  liquidations: {
+    label: 'liquidations',
+    measure: analysis => ofTypes(analysis, 'liquidation'),
+  },
+  // Bridge transactions and calls to registry bridges
+  bridges: {
+    label: 'bridge transfers',
+    measure: analysis => analysis.crossChain ? entries(analysis.crossChain.bridges) : ofTypes(analysis, 'bridge'),
+  },
+  // NFTs bought or sold on a marketplace, mints excluded
+  nftTrades: {
+    label: 'NFT trades',
+    measure: analysis => ofTypes(analysis, 'nft_buy', 'nft_sell'),
+  },
+  rewardClaims: {
+    label: 'reward claims',
+    measure: analysis => ofTypes(analysis, 'claim_rewards'),
+  },
+  unlimitedApprovals: {
+    label: 'unlimited approvals',
+    measure: analysis => entries(analysis.unlimitedApprovals),
+  },
+  // Highest borrowed / supplied ratio on any lending protocol, as a percentage
+  peakLoanToValue: {
+    label: 'peak loan-to-value (%)',
+    measure: analysis => {
+      const lending = analysis.lending;
+      const peak = lending?.positions.find(position => position.peakLoanToValue === lending.peakLoanToValue);
+      return { value: Math.round((lending?.peakLoanToValue ?? 0) * 100), hashes: peak?.hashes ?? [] };
+    },
+  },
+  leverageLoops: {
+    label: 'leverage loops',
+    measure: analysis => ({
+      value: analysis.lending?.leverageLoops.length ?? 0,
+      hashes: (analysis.lending?.leverageLoops ?? []).flatMap(loop => loop.hashes),
+    }),
+  },
+};
+
+/**
+ * One unit per analysis entry, each carrying its own hash
+ */
+function entries(items: { hash?: string }[]): SignalMeasurement {
+  return { value: items.length, hashes: hashesOf(items) };
+}
+
+/**
+ * One unit per transaction of the given types
+ */
+function ofTypes(analysis: AnalysisResult, ...types: TransactionType[]): SignalMeasurement {
+  return {
+    value: types.reduce((total, type) => total + (analysis.transactionTypes.get(type) ?? 0), 0),
+    hashes: types.flatMap(type => analysis.evidence?.transactionTypes.get(type) ?? []),
+  };
+}
+
+function holdDays(analysis: AnalysisResult, include: (days: number) => boolean): SignalMeasurement {
+  const holds = Array.from(analysis.holdDurations.entries()).filter(([, days]) => include(days));
+  return {
+    value: holds.reduce((total, [, days]) => total + days, 0),
+    hashes: holds.flatMap(([token]) => analysis.evidence?.holdDurations.get(token) ?? []),
+  };
+}
+
+function hashesOf(items: { hash?: string }[]): string[] {
+  return items.map(item => item.hash).filter((hash): hash is string => hash !== undefined);
+}
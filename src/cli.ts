@@ -8,48 +8,453 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { analyzeWallet } from './index.js';
+import {
+  analyzeWallet,
+  analyzeMultiChainWallet,
+  analyzeWalletIncremental,
+  analyzeWalletTimeline,
+  detectSybilClusters,
+  generateSyntheticFarms,
+  analyzeBatch,
+  readBatchItems,
+  prefetchPrices,
+  loadScoringModel,
+  AnalyzeOptions,
+  BatchOptions,
+  TIMELINE_MODES,
+} from './index.js';
+import { InputValidator } from './validators/InputValidator.js';
+import { BlockchainService } from './services/BlockchainService.js';
+import { fetchMultiChainWallet } from './services/fetchMultiChainWallet.js';
+import { createChainDataProvider } from './providers/createChainDataProvider.js';
+import { CalldataDecoder } from './decoders/CalldataDecoder.js';
+import { SelectorRegistry } from './decoders/SelectorRegistry.js';
+import { ProtocolRegistry } from './registry/ProtocolRegistry.js';
+import { parseTimelineInterval } from './timeline/timelineWindows.js';
+import { PriceFileOracle } from './oracles/PriceFileOracle.js';
+import { HttpPriceOracle } from './oracles/HttpPriceOracle.js';
+import { PriceOracle } from './interfaces/index.js';
+import { ProviderKind, TimelineInterval, TimelineMode, AnalyzerState } from './types/index.js';
 
-/**
- * Main CLI function
- * Accepts JSON file path as input and outputs formatted JSON to stdout
- */
-function main() {
-  const args = process.argv.slice(2);
+interface CliOptions {
+  inputFile?: string;
+  address?: string;
+  chains: string[];
+  provider: ProviderKind;
+  fixture?: string;
+  selectors?: string;
+  registry?: string;
+  model?: string;
+  explain: boolean;
+  seed?: string;
+  titleVariants: boolean;
+  features: boolean;
+  asOf?: Date;
+  timeline?: TimelineInterval;
+  timelineMode?: TimelineMode;
+  prices?: string;
+  priceApi?: string;
+  limit: number;
+  sybil: boolean;
+  syntheticFarms?: string;
+  batch?: string;
+  concurrency: number;
+  state?: string;
+}
 
-  // Check for help flag or no arguments
-  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
-    console.log(`
+const USAGE = `
 Persona Protocol - Web3 Wallet Analysis CLI
 
 Usage:
   persona-protocol <input-file.json>
+  persona-protocol --address <0x...> [--chain <names>] [--provider <kind>] [--limit <n>]
+  persona-protocol --batch <dir|file|-> [--concurrency <n>]
+  persona-protocol --sybil <wallets.json>
+  persona-protocol --synthetic-farms <seed>
   persona-protocol --help
 
 Arguments:
-  <input-file.json>    Path to JSON file containing wallet data
+  <input-file.json>    Path to JSON file containing wallet data, either
+                       { walletAddress, transactions } or
+                       { walletAddress, chains: [{ chainId, transactions }] }
+
+Options:
+  --address <0x...>    Fetch the wallet's transactions from chain instead of a file
+  --chain <names>      ethereum (default), polygon, arbitrum, base, optimism
+                       Comma-separate several chains for one aggregated persona
+  --provider <kind>    explorer (default), rpc, fixture
+  --fixture <file>     Fixture file used by the fixture provider
+  --selectors <file>   Extra 4-byte selectors / ABI fragments for calldata decoding
+  --registry <file>    Protocol / token registry replacing the bundled one
+  --model <file>       Scoring model (signal weights, caps, base scores)
+  --explain            Include per-signal score explanations in the output
+  --seed <value>       Seed for persona title selection (default: derived from the wallet)
+  --title-variants     Include every persona title that fit in the output
+  --features           Include the wallet's similarity search feature vector
+  --as-of <date>       Analyze the wallet as it stood on an ISO 8601 date,
+                       ignoring later transactions (default: now)
+  --timeline <interval>
+                       Output the persona for each month, quarter or number
+                       of days of history instead of a single snapshot
+  --timeline-mode <mode>
+                       cumulative (default) or rolling windows
+  --prices <file>      Historical USD prices (.csv or .json) for valuing transactions
+  --price-api <url>    Price API queried as <url>?token=<symbol>&date=<YYYY-MM-DD>
+  --limit <n>          Maximum transactions to fetch (default 100)
+  --state <file>       Analyze incrementally: resume from the analyzer state
+                       saved in the file by the previous run (fetching from its
+                       last block with --address, every new transaction
+                       --limit at a time) and save the updated state
+  --batch <dir|file|-> Analyze many wallets: a directory of wallet .json files,
+                       a JSON array or NDJSON file, or - for stdin. Prints one
+                       NDJSON result per wallet and a summary on stderr
+  --concurrency <n>    Wallets analyzed at once in batch mode (default 4)
+  --sybil              Cluster a JSON array of { walletAddress, transactions }
+                       into likely sybil farms instead of building personas
+  --synthetic-farms <seed>
+                       Print a batch of synthetic farm and organic wallets
+                       for trying out --sybil
 
 Example:
   persona-protocol examples/wallet1.json
-    `);
-    process.exit(args.length === 0 ? 1 : 0);
+  persona-protocol examples/wallet1.json --as-of 2024-01-01
+  persona-protocol examples/wallet1.json --timeline quarter --timeline-mode rolling
+  persona-protocol --synthetic-farms demo > farms.json && persona-protocol --sybil farms.json
+  persona-protocol --address 0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb --chain base
+  persona-protocol --address 0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb --chain ethereum,arbitrum
+  persona-protocol --address 0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb --state wallet.state.json
+`;
+
+/**
+ * Parse command-line arguments into options
+ */
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    chains: ['ethereum'],
+    provider: 'explorer',
+    explain: false,
+    titleVariants: false,
+    features: false,
+    limit: 100,
+    sybil: false,
+    concurrency: 4,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (!arg.startsWith('--')) {
+      options.inputFile = arg;
+      continue;
+    }
+
+    if (arg === '--explain') {
+      options.explain = true;
+      continue;
+    }
+
+    if (arg === '--title-variants') {
+      options.titleVariants = true;
+      continue;
+    }
+
+    if (arg === '--features') {
+      options.features = true;
+      continue;
+    }
+
+    if (arg === '--sybil') {
+      options.sybil = true;
+      continue;
+    }
+
+    const value = args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+
+    switch (arg) {
+      case '--address':
+        options.address = value;
+        break;
+      case '--chain':
+        options.chains = value.split(',').map(c => c.trim()).filter(c => c !== '');
+        break;
+      case '--provider':
+        options.provider = value as ProviderKind;
+        break;
+      case '--fixture':
+        options.fixture = value;
+        break;
+      case '--selectors':
+        options.selectors = value;
+        break;
+      case '--registry':
+        options.registry = value;
+        break;
+      case '--model':
+        options.model = value;
+        break;
+      case '--seed':
+        options.seed = value;
+        break;
+      case '--as-of':
+        options.asOf = new Date(value);
+        if (isNaN(options.asOf.getTime())) {
+          throw new Error(`Invalid --as-of: ${value}`);
+        }
+        break;
+      case '--timeline':
+        options.timeline = parseTimelineInterval(value);
+        break;
+      case '--timeline-mode':
+        if (!TIMELINE_MODES.includes(value as TimelineMode)) {
+          throw new Error(`Invalid --timeline-mode: ${value}. Must be one of: ${TIMELINE_MODES.join(', ')}`);
+        }
+        options.timelineMode = value as TimelineMode;
+        break;
+      case '--prices':
+        options.prices = value;
+        break;
+      case '--price-api':
+        options.priceApi = value;
+        break;
+      case '--batch':
+        options.batch = value;
+        break;
+      case '--concurrency':
+        options.concurrency = parseInt(value, 10);
+        if (isNaN(options.concurrency) || options.concurrency < 1) {
+          throw new Error(`Invalid --concurrency: ${value}`);
+        }
+        break;
+      case '--state':
+        options.state = value;
+        break;
+      case '--synthetic-farms':
+        options.syntheticFarms = value;
+        break;
+      case '--limit':
+        options.limit = parseInt(value, 10);
+        if (isNaN(options.limit) || options.limit < 1) {
+          throw new Error(`Invalid --limit: ${value}`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (!options.inputFile && !options.address && options.syntheticFarms === undefined && !options.batch) {
+    throw new Error('Provide an input file or --address');
+  }
+
+  if (options.sybil && !options.inputFile) {
+    throw new Error('--sybil needs an input file with a JSON array of wallets');
+  }
+
+  if (options.state && (options.sybil || options.batch || options.timeline !== undefined || options.chains.length > 1)) {
+    throw new Error('--state works with a single wallet on a single chain, without --timeline, --sybil or --batch');
+  }
+
+  if (options.prices && options.priceApi) {
+    throw new Error('Use either --prices or --price-api, not both');
+  }
+
+  return options;
+}
+
+/**
+ * Print non-fatal validation warnings to stderr so stdout stays pure JSON
+ */
+function reportWarnings(inputJson: string) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(inputJson);
+  } catch {
+    return; // analyzeWallet reports the parse error
+  }
+
+  const { warnings } = new InputValidator().validate(parsed);
+  warnings.forEach(warning => console.error(`Warning: ${warning}`));
+}
+
+/**
+ * Read wallet input JSON from a file
+ */
+function readInputFile(inputFilePath: string): string {
+  const absolutePath = path.resolve(inputFilePath);
+
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`File not found: ${inputFilePath}`);
+  }
+
+  return fs.readFileSync(absolutePath, 'utf-8');
+}
+
+/**
+ * Analyzer state saved by a previous --state run, if the file exists yet
+ */
+function readState(stateFilePath: string): AnalyzerState | undefined {
+  if (!fs.existsSync(stateFilePath)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(stateFilePath, 'utf-8')) as AnalyzerState;
+  } catch (error) {
+    throw new Error(
+      `Failed to load analyzer state ${stateFilePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Build wallet input JSON from on-chain data, from startBlock on when given
+ */
+async function fetchInput(
+  options: CliOptions & { address: string },
+  protocolRegistry: ProtocolRegistry,
+  startBlock?: number
+): Promise<string> {
+  const providerOptions = { provider: options.provider, fixture: options.fixture };
+  const selectorRegistry = new SelectorRegistry();
+  if (options.selectors) {
+    selectorRegistry.loadFile(options.selectors);
   }
+  const decoder = new CalldataDecoder(selectorRegistry);
 
-  const inputFilePath = args[0];
+  if (options.chains.length > 1) {
+    const walletInput = await fetchMultiChainWallet(
+      options.address, options.chains, options.limit, providerOptions, decoder, protocolRegistry
+    );
+    return JSON.stringify(walletInput);
+  }
+
+  const service = new BlockchainService(
+    createChainDataProvider(options.chains[0] ?? 'ethereum', providerOptions), decoder, protocolRegistry
+  );
+  const transactions = await service.fetchTransactions(options.address, options.limit, startBlock);
+
+  return JSON.stringify({ walletAddress: options.address, transactions });
+}
 
+/**
+ * Multi-chain input carries a chains array instead of transactions
+ */
+function isMultiChainInput(inputJson: string): boolean {
   try {
-    // Read input file
-    const absolutePath = path.resolve(inputFilePath);
-    
-    if (!fs.existsSync(absolutePath)) {
-      console.error(`Error: File not found: ${inputFilePath}`);
-      process.exit(1);
+    const parsed = JSON.parse(inputJson);
+    return typeof parsed === 'object' && parsed !== null && Array.isArray(parsed.chains);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Stream one NDJSON result line per wallet to stdout, then a summary to stderr
+ */
+async function runBatch(batch: string, options: BatchOptions): Promise<void> {
+  const started = Date.now();
+  let succeeded = 0;
+  let failed = 0;
+
+  for await (const result of analyzeBatch(readBatchItems(batch), options)) {
+    if (result.status === 'ok') {
+      succeeded++;
+    } else {
+      failed++;
     }
+    process.stdout.write(JSON.stringify(result) + '\n');
+  }
+
+  const seconds = ((Date.now() - started) / 1000).toFixed(1);
+  console.error(`Batch complete: ${succeeded} succeeded, ${failed} failed of ${succeeded + failed} wallets in ${seconds}s`);
+}
 
-    const inputJson = fs.readFileSync(absolutePath, 'utf-8');
+/**
+ * Main CLI function
+ * Accepts a JSON file path or wallet address and outputs formatted JSON to stdout
+ */
+async function main() {
+  const args = process.argv.slice(2);
+
+  // Check for help flag or no arguments
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    process.exit(args.length === 0 ? 1 : 0);
+  }
+
+  try {
+    const options = parseArgs(args);
+
+    if (options.syntheticFarms !== undefined) {
+      console.log(JSON.stringify(generateSyntheticFarms({ seed: options.syntheticFarms }).wallets, null, 2));
+      process.exit(0);
+    }
+
+    const registry = options.registry ? ProtocolRegistry.fromFile(options.registry) : new ProtocolRegistry();
+    const model = options.model ? loadScoringModel(options.model) : undefined;
+    let priceOracle: PriceOracle | undefined;
+    if (options.prices) {
+      priceOracle = PriceFileOracle.fromFile(options.prices);
+    } else if (options.priceApi) {
+      priceOracle = new HttpPriceOracle(options.priceApi);
+    }
+    const analyzeOptions: AnalyzeOptions = {
+      registry,
+      model,
+      explain: options.explain,
+      seed: options.seed,
+      titleVariants: options.titleVariants,
+      features: options.features,
+      asOf: options.asOf,
+      priceOracle,
+    };
+
+    if (options.batch) {
+      await runBatch(options.batch, { ...analyzeOptions, concurrency: options.concurrency });
+      process.exit(0);
+    }
+
+    const previousState = options.state ? readState(options.state) : undefined;
+    const inputJson = options.address
+      ? await fetchInput({ ...options, address: options.address }, registry, previousState?.lastBlockNumber)
+      : readInputFile(options.inputFile as string);
+
+    // Sybil detection does not value transactions
+    if (priceOracle && !options.sybil) {
+      await prefetchPrices(inputJson, priceOracle, options.asOf);
+    }
 
     // Analyze wallet
-    const result = analyzeWallet(inputJson);
+    let result: string;
+    if (options.sybil) {
+      result = detectSybilClusters(inputJson, { registry, asOf: options.asOf });
+    } else if (options.timeline !== undefined || options.timelineMode !== undefined) {
+      if (isMultiChainInput(inputJson)) {
+        throw new Error('--timeline needs { walletAddress, transactions } input');
+      }
+      reportWarnings(inputJson);
+      result = analyzeWalletTimeline(inputJson, {
+        ...analyzeOptions,
+        interval: options.timeline,
+        mode: options.timelineMode,
+      });
+    } else if (isMultiChainInput(inputJson)) {
+      if (options.state) {
+        throw new Error('--state needs { walletAddress, transactions } input');
+      }
+      result = analyzeMultiChainWallet(inputJson, analyzeOptions);
+    } else if (options.state) {
+      reportWarnings(inputJson);
+      const analysis = analyzeWalletIncremental(inputJson, previousState, analyzeOptions);
+      fs.writeFileSync(options.state, JSON.stringify(analysis.state));
+      result = analysis.persona;
+    } else {
+      reportWarnings(inputJson);
+      result = analyzeWallet(inputJson, analyzeOptions);
+    }
 
     // Output formatted JSON to stdout
     console.log(result);
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { CalldataDecoder } from './CalldataDecoder';
+import { SelectorRegistry } from './SelectorRegistry';
+
+const word = (value: bigint | number) => BigInt.asUintN(256, BigInt(value)).toString(16).padStart(64, '0');
+const address = (hex: string) => hex.slice(2).toLowerCase().padStart(64, '0');
+const text = (value: string) => {
+  const bytes = Buffer.from(value, 'utf-8').toString('hex');
+  return word(bytes.length / 2) + bytes.padEnd(Math.ceil(bytes.length / 64) * 64, '0');
+};
+
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const PEPE = '0x6982508145454Ce325dDbE47a25d4ec3d2311933';
+const WALLET = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0';
+
+describe('CalldataDecoder', () => {
+  const decoder = new CalldataDecoder();
+
+  it('should decode a router swap with a dynamic address path', () => {
+    const input = '0x38ed1739' +
+      word(1000) + word(900) + word(160) + address(WALLET) + word(1700000000) +
+      word(2) + address(WETH) + address(PEPE);
+
+    const call = decoder.decode(input);
+
+    expect(call).toEqual({
+      selector: '0x38ed1739',
+      name: 'swapExactTokensForTokens',
+      signature: 'swapExactTokensForTokens(uint256,uint256,address[],address,uint256)',
+      args: {
+        amountIn: '1000',
+        amountOutMin: '900',
+        path: [WETH.toLowerCase(), PEPE.toLowerCase()],
+        to: WALLET.toLowerCase(),
+        deadline: '1700000000',
+      },
+    });
+    expect(decoder.classify(call!)).toBe('swap');
+  });
+
+  it('should decode static tuples', () => {
+    const input = '0x04e45aaf' +
+      address(WETH) + address(PEPE) + word(3000) + address(WALLET) + word(5) + word(4) + word(0);
+
+    const call = decoder.decode(input);
+
+    expect(call?.signature).toBe('exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))');
+    expect(call?.args.params).toMatchObject({ tokenIn: WETH.toLowerCase(), tokenOut: PEPE.toLowerCase(), amountIn: '5' });
+  });
+
+  it('should decode strings, signed integers and booleans', () => {
+    const vote = decoder.decode('0x7b3c71d3' + word(42) + word(1) + word(96) + text('gm'));
+    expect(vote?.args).toEqual({ proposalId: '42', support: '1', reason: 'gm' });
+    expect(decoder.classify(vote!)).toBe('governance_vote');
+
+    const curve = decoder.decode('0x3df02124' + word(-1) + word(2) + word(10) + word(9));
+    expect(curve?.args).toMatchObject({ i: '-1', j: '2' });
+
+    const alphaVote = decoder.decode('0x15373e3d' + word(7) + word(1));
+    expect(alphaVote?.args.support).toBe(true);
+  });
+
+  it('should return null for unknown selectors, plain transfers and truncated calldata', () => {
+    expect(decoder.decode('0x')).toBeNull();
+    expect(decoder.decode(undefined)).toBeNull();
+    expect(decoder.decode('0xdeadbeef' + word(1))).toBeNull();
+    expect(decoder.decode('0x38ed1739' + word(1000))).toBeNull();
+  });
+
+  it('should accept user-registered fragments and classify them by name', () => {
+    const registry = new SelectorRegistry();
+    registry.register({
+      selector: '0x12345678',
+      name: 'stakeFor',
+      inputs: [{ name: 'account', type: 'address' }, { name: 'amount', type: 'uint256' }],
+    });
+    const custom = new CalldataDecoder(registry);
+
+    const call = custom.decode('0x12345678' + address(WALLET) + word(10));
+
+    expect(call?.args).toEqual({ account: WALLET.toLowerCase(), amount: '10' });
+    expect(custom.classify(call!)).toBe('stake');
+    expect(() => registry.register({ selector: '0x123', name: 'bad', inputs: [] })).toThrow('Invalid selector');
+  });
+});
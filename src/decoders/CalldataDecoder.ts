@@ -0,0 +1,210 @@
+import { AbiParameter, DecodedCall, DecodedValue, TransactionType } from '../types';
+import { CalldataDecoder as ICalldataDecoder } from '../interfaces/CalldataDecoder';
+import { SelectorRegistry } from './SelectorRegistry.js';
+
+const WORD = 64; // hex characters in a 32-byte ABI word
+
+/**
+ * CalldataDecoder implementation
+ * Decodes ABI-encoded calldata using the selector registry and infers the
+ * transaction type from the registry category or the function name
+ */
+export class CalldataDecoder implements ICalldataDecoder {
+  private registry: SelectorRegistry;
+
+  constructor(registry: SelectorRegistry = new SelectorRegistry()) {
+    this.registry = registry;
+  }
+
+  /**
+   * Decode calldata into function name and typed arguments
+   * Returns null for plain transfers, unknown selectors and malformed calldata
+   */
+  decode(input: string | undefined): DecodedCall | null {
+    if (!input || input.length < 10) {
+      return null;
+    }
+
+    const selector = input.slice(0, 10).toLowerCase();
+    const entry = this.registry.lookup(selector);
+    if (!entry) {
+      return null;
+    }
+
+    try {
+      const values = this.decodeTuple(entry.inputs, input.slice(10), 0);
+      const args: Record<string, DecodedValue> = {};
+      entry.inputs.forEach((param, i) => {
+        args[param.name || `arg${i}`] = values[i];
+      });
+
+      return {
+        selector,
+        name: entry.name,
+        signature: `${entry.name}(${entry.inputs.map(p => this.canonicalType(p)).join(',')})`,
+        args,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Classify a decoded call, preferring the registry's category
+   */
+  classify(call: DecodedCall): TransactionType | null {
+    const category = this.registry.lookup(call.selector)?.category;
+    if (category) {
+      return category;
+    }
+
+    const name = call.name.toLowerCase();
+    if (name.includes('liquidat')) return 'liquidation';
+    if (name.includes('mint')) return 'nft_mint';
+    if (name.includes('swap') || name.includes('exchange')) return 'swap';
+    if (name.includes('bridge')) return 'bridge';
+    if (name.includes('addliquidity')) return 'provide_liquidity';
+    if (name.includes('removeliquidity')) return 'remove_liquidity';
+    if (name.includes('unstake') || name.includes('withdraw') || name.includes('redeem')) return 'unstake';
+    if (name.includes('stake') || name.includes('deposit') || name.includes('supply')) return 'stake';
+    if (name.includes('borrow') && !name.includes('repay')) return 'borrow';
+    if (name.includes('repay')) return 'repay';
+    if (name.includes('claim') || name.includes('getreward') || name.includes('harvest')) return 'claim_rewards';
+    if (name.includes('vote')) return 'governance_vote';
+    if (name.includes('approv')) return 'approve';
+    if (name.includes('transfer')) return 'transfer';
+
+    return null;
+  }
+
+  /**
+   * Decode a sequence of parameters laid out head-first from `start`
+   */
+  private decodeTuple(params: AbiParameter[], data: string, start: number): DecodedValue[] {
+    let head = start;
+
+    return params.map(param => {
+      if (this.isDynamic(param)) {
+        const offset = this.readOffset(data, head);
+        head += WORD;
+        return this.decodeValue(param, data, start + offset);
+      }
+
+      const value = this.decodeValue(param, data, head);
+      head += this.headSize(param);
+      return value;
+    });
+  }
+
+  private decodeValue(param: AbiParameter, data: string, pos: number): DecodedValue {
+    const array = param.type.match(/^(.*)\[(\d*)\]$/);
+    if (array) {
+      const inner = { ...param, type: array[1] };
+      if (array[2] === '') {
+        const length = this.readOffset(data, pos) / 2;
+        return this.decodeTuple(new Array(length).fill(inner), data, pos + WORD);
+      }
+      return this.decodeTuple(new Array(parseInt(array[2], 10)).fill(inner), data, pos);
+    }
+
+    if (param.type === 'tuple') {
+      const components = param.components || [];
+      const values = this.decodeTuple(components, data, pos);
+      const tuple: { [name: string]: DecodedValue } = {};
+      components.forEach((c, i) => {
+        tuple[c.name || `arg${i}`] = values[i];
+      });
+      return tuple;
+    }
+
+    if (param.type === 'string' || param.type === 'bytes') {
+      const length = this.readOffset(data, pos);
+      const bytes = this.slice(data, pos + WORD, length);
+      return param.type === 'string' ? Buffer.from(bytes, 'hex').toString('utf-8') : `0x${bytes}`;
+    }
+
+    const word = this.slice(data, pos, WORD);
+
+    if (param.type === 'address') {
+      return `0x${word.slice(24)}`.toLowerCase();
+    }
+
+    if (param.type === 'bool') {
+      return BigInt(`0x${word}`) !== 0n;
+    }
+
+    if (/^uint\d*$/.test(param.type)) {
+      return BigInt(`0x${word}`).toString();
+    }
+
+    if (/^int\d*$/.test(param.type)) {
+      // Signed values are sign-extended to the full word
+      const value = BigInt(`0x${word}`);
+      return (value >= 1n << 255n ? value - (1n << 256n) : value).toString();
+    }
+
+    const fixedBytes = param.type.match(/^bytes(\d+)$/);
+    if (fixedBytes) {
+      return `0x${word.slice(0, parseInt(fixedBytes[1], 10) * 2)}`;
+    }
+
+    throw new Error(`Unsupported ABI type: ${param.type}`);
+  }
+
+  private isDynamic(param: AbiParameter): boolean {
+    if (param.type === 'string' || param.type === 'bytes') return true;
+
+    const array = param.type.match(/^(.*)\[(\d*)\]$/);
+    if (array) {
+      return array[2] === '' || this.isDynamic({ ...param, type: array[1] });
+    }
+
+    if (param.type === 'tuple') {
+      return (param.components || []).some(c => this.isDynamic(c));
+    }
+
+    return false;
+  }
+
+  /**
+   * Size in hex characters a static parameter occupies in the head
+   */
+  private headSize(param: AbiParameter): number {
+    const array = param.type.match(/^(.*)\[(\d+)\]$/);
+    if (array) {
+      return parseInt(array[2], 10) * this.headSize({ ...param, type: array[1] });
+    }
+
+    if (param.type === 'tuple') {
+      return (param.components || []).reduce((sum, c) => sum + this.headSize(c), 0);
+    }
+
+    return WORD;
+  }
+
+  /**
+   * Read a word holding a byte offset or length, returned in hex characters
+   */
+  private readOffset(data: string, pos: number): number {
+    const value = BigInt(`0x${this.slice(data, pos, WORD)}`) * 2n;
+    if (value > BigInt(data.length)) {
+      throw new Error('Calldata offset out of range');
+    }
+    return Number(value);
+  }
+
+  private slice(data: string, pos: number, length: number): string {
+    if (pos + length > data.length) {
+      throw new Error('Calldata too short');
+    }
+    return data.slice(pos, pos + length);
+  }
+
+  private canonicalType(param: AbiParameter): string {
+    if (param.type.startsWith('tuple')) {
+      const components = (param.components || []).map(c => this.canonicalType(c)).join(',');
+      return `(${components})${param.type.slice('tuple'.length)}`;
+    }
+    return param.type;
+  }
+}
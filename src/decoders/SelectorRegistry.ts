@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import { SelectorEntry } from '../types';
+import bundledSelectors from './selectors.json' with { type: 'json' };
+
+/**
+ * Registry of 4-byte function selectors and their ABI fragments
+ * Starts with the bundled selectors; callers can register more at runtime
+ * or load a JSON file with the same layout as selectors.json
+ */
+export class SelectorRegistry {
+  private entries = new Map<string, SelectorEntry>();
+
+  constructor(entries: SelectorEntry[] = bundledSelectors as SelectorEntry[]) {
+    this.registerAll(entries);
+  }
+
+  /**
+   * Add or replace a selector entry
+   */
+  register(entry: SelectorEntry): void {
+    if (!/^0x[0-9a-fA-F]{8}$/.test(entry.selector)) {
+      throw new Error(`Invalid selector "${entry.selector}": expected 0x followed by 8 hex characters`);
+    }
+    if (!entry.name || !Array.isArray(entry.inputs)) {
+      throw new Error(`Invalid selector entry ${entry.selector}: name and inputs are required`);
+    }
+    this.entries.set(entry.selector.toLowerCase(), entry);
+  }
+
+  registerAll(entries: SelectorEntry[]): void {
+    entries.forEach(entry => this.register(entry));
+  }
+
+  /**
+   * Load additional entries from a JSON file containing an array of entries
+   */
+  loadFile(filePath: string): void {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Failed to load selector registry ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (!Array.isArray(entries)) {
+      throw new Error(`Failed to load selector registry ${filePath}: expected an array of entries`);
+    }
+    this.registerAll(entries as SelectorEntry[]);
+  }
+
+  lookup(selector: string): SelectorEntry | undefined {
+    return this.entries.get(selector.toLowerCase());
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './SelectorRegistry.js';
+export * from './CalldataDecoder.js';
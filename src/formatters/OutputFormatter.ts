@@ -1,5 +1,5 @@
 import { OutputFormatter as IOutputFormatter } from '../interfaces/OutputFormatter';
-import { PersonaProfile } from '../types';
+import { PersonaProfile, PersonaOutput, Scores } from '../types';
 
 /**
  * OutputFormatter implementation
@@ -17,7 +17,7 @@ export class OutputFormatter implements IOutputFormatter {
     this.validateStructure(persona);
 
     // Create output object with exact structure required
-    const output = {
+    const output: PersonaOutput = {
       walletAddress: persona.walletAddress,
       personaTitle: persona.personaTitle,
       summary: persona.summary,
@@ -30,6 +30,57 @@ export class OutputFormatter implements IOutputFormatter {
       notableProtocols: persona.notableProtocols,
     };
 
+    // Optional multi-chain breakdown
+    if (persona.chains) {
+      output.chains = persona.chains.map(chain => ({
+        chainId: chain.chainId,
+        chain: chain.chain,
+        transactionCount: chain.transactionCount,
+        activityShare: chain.activityShare,
+        scores: {
+          riskAppetite: chain.scores.riskAppetite,
+          loyalty: chain.scores.loyalty,
+          activity: chain.scores.activity,
+        },
+        notableProtocols: chain.notableProtocols,
+      }));
+    }
+
+    // Optional analysis date
+    if (persona.asOf) {
+      output.asOf = persona.asOf;
+    }
+
+    // Optional holdings at the analysis date
+    if (persona.portfolio) {
+      output.portfolio = persona.portfolio;
+    }
+
+    // Optional lending positions
+    if (persona.lending) {
+      output.lending = persona.lending;
+    }
+
+    // Optional bridging and per-chain activity
+    if (persona.crossChain) {
+      output.crossChain = persona.crossChain;
+    }
+
+    // Optional similarity search feature vector
+    if (persona.features) {
+      output.features = persona.features;
+    }
+
+    // Optional list of every title that fit
+    if (persona.personaTitleVariants) {
+      output.personaTitleVariants = persona.personaTitleVariants;
+    }
+
+    // Optional per-signal score explanations
+    if (persona.explanations) {
+      output.explanations = persona.explanations;
+    }
+
     // Serialize to JSON with no additional text
     return JSON.stringify(output);
   }
@@ -57,24 +108,7 @@ export class OutputFormatter implements IOutputFormatter {
       throw new Error('Invalid output: scores must be an object');
     }
 
-    // Validate score field types (must be integers)
-    if (!Number.isInteger(persona.scores.riskAppetite) ||
-        persona.scores.riskAppetite < 1 || 
-        persona.scores.riskAppetite > 100) {
-      throw new Error('Invalid output: riskAppetite must be an integer between 1 and 100');
-    }
-
-    if (!Number.isInteger(persona.scores.loyalty) ||
-        persona.scores.loyalty < 1 || 
-        persona.scores.loyalty > 100) {
-      throw new Error('Invalid output: loyalty must be an integer between 1 and 100');
-    }
-
-    if (!Number.isInteger(persona.scores.activity) ||
-        persona.scores.activity < 1 || 
-        persona.scores.activity > 100) {
-      throw new Error('Invalid output: activity must be an integer between 1 and 100');
-    }
+    this.validateScores(persona.scores);
 
     // Validate arrays
     if (!Array.isArray(persona.keyTraits)) {
@@ -84,5 +118,40 @@ export class OutputFormatter implements IOutputFormatter {
     if (!Array.isArray(persona.notableProtocols)) {
       throw new Error('Invalid output: notableProtocols must be an array');
     }
+
+    if (persona.chains !== undefined) {
+      if (!Array.isArray(persona.chains)) {
+        throw new Error('Invalid output: chains must be an array');
+      }
+      persona.chains.forEach(chain => {
+        if (!Number.isInteger(chain.chainId)) {
+          throw new Error('Invalid output: chainId must be an integer');
+        }
+        this.validateScores(chain.scores);
+      });
+    }
+  }
+
+  /**
+   * Validate score field types (must be integers between 1 and 100)
+   */
+  private validateScores(scores: Scores): void {
+    if (!Number.isInteger(scores.riskAppetite) ||
+        scores.riskAppetite < 1 || 
+        scores.riskAppetite > 100) {
+      throw new Error('Invalid output: riskAppetite must be an integer between 1 and 100');
+    }
+
+    if (!Number.isInteger(scores.loyalty) ||
+        scores.loyalty < 1 || 
+        scores.loyalty > 100) {
+      throw new Error('Invalid output: loyalty must be an integer between 1 and 100');
+    }
+
+    if (!Number.isInteger(scores.activity) ||
+        scores.activity < 1 || 
+        scores.activity > 100) {
+      throw new Error('Invalid output: activity must be an integer between 1 and 100');
+    }
   }
 }
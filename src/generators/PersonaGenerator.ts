@@ -1,5 +1,6 @@
 import { PersonaGenerator as IPersonaGenerator } from '../interfaces/PersonaGenerator';
-import { Scores, AnalysisResult } from '../types';
+import { Scores, AnalysisResult, PersonaGeneratorOptions } from '../types';
+import { createRng, hashSeed } from './seededRandom.js';
 
 /**
  * PersonaGenerator implementation
@@ -7,11 +8,33 @@ import { Scores, AnalysisResult } from '../types';
  * Requirements: 5.1, 5.2, 5.3, 5.4, 5.5, 6.1, 6.2, 6.3, 6.4, 6.5, 6.6, 7.2, 7.3
  */
 export class PersonaGenerator implements IPersonaGenerator {
+  constructor(private readonly options: PersonaGeneratorOptions = {}) {}
+
   /**
    * Generate persona title based on scores and transaction patterns
+   * When several titles fit, the pick is seeded by the explicit seed option or
+   * else by the wallet address and analysis, so the same input always gets
+   * the same title
    * Requirements: 5.1, 5.2, 5.3
    */
-  generateTitle(scores: Scores, analysis: AnalysisResult): string {
+  generateTitle(scores: Scores, analysis: AnalysisResult, walletAddress: string = ''): string {
+    const variants = this.getTitleVariants(scores, analysis);
+    if (variants.length === 1) {
+      return variants[0];
+    }
+
+    const seed = this.options.seed !== undefined
+      ? String(this.options.seed)
+      : `${walletAddress.toLowerCase()}|${this.analysisFingerprint(analysis)}`;
+    const random = createRng(hashSeed(seed));
+    return variants[Math.floor(random() * variants.length)];
+  }
+
+  /**
+   * Every title that fits the scores and transaction patterns
+   * generateTitle picks one of these
+   */
+  getTitleVariants(scores: Scores, analysis: AnalysisResult): string[] {
     const { riskAppetite, loyalty, activity } = scores;
     const nftPercentage = analysis.totalTransactions > 0 
       ? (analysis.nftTransactions / analysis.totalTransactions) * 100 
@@ -20,26 +43,32 @@ export class PersonaGenerator implements IPersonaGenerator {
     // Decision tree for title generation
     // 1. NFT-focused titles (>50% NFT transactions)
     if (nftPercentage > 50) {
-      return this.getNFTTitle(activity);
+      return this.getNFTTitles(activity);
     }
 
     // 2. Active trader titles (high risk + high activity)
     if (riskAppetite > 70 && activity > 70) {
-      return this.getActiveTraderTitle(riskAppetite);
+      return [this.getActiveTraderTitle(riskAppetite)];
     }
 
-    // 3. Stable holder titles (high loyalty + low risk)
+    // 3. Portfolio titles (USD-valued holdings dominated by one kind of token)
+    const portfolioTitle = this.getPortfolioTitle(analysis);
+    if (portfolioTitle) {
+      return [portfolioTitle];
+    }
+
+    // 4. Stable holder titles (high loyalty + low risk)
     if (loyalty > 70 && riskAppetite < 40) {
-      return this.getStableHolderTitle(loyalty);
+      return this.getStableHolderTitles(loyalty);
     }
 
-    // 4. Dormant/inactive titles (low activity)
+    // 5. Dormant/inactive titles (low activity)
     if (activity < 30) {
-      return this.getDormantTitle(loyalty);
+      return [this.getDormantTitle(loyalty)];
     }
 
-    // 5. Balanced/general titles
-    return this.getBalancedTitle(riskAppetite, loyalty, activity);
+    // 6. Balanced/general titles
+    return [this.getBalancedTitle(riskAppetite, loyalty, activity)];
   }
 
   /**
@@ -112,6 +141,22 @@ export class PersonaGenerator implements IPersonaGenerator {
       traits.push({ name: 'Liquidity Provider', priority: 5 });
     }
 
+    // Borrowing against supplied collateral, looped or at a high loan-to-value
+    const lending = analysis.lending;
+    if (lending && (lending.leverageLoops.length > 0 || lending.peakLoanToValue >= 0.6)) {
+      traits.push({ name: 'Leveraged Farmer', priority: 8 });
+    }
+
+    if (lending && lending.liquidations.length > 0) {
+      traits.push({ name: 'Liquidated Borrower', priority: 6 });
+    }
+
+    // Moves between chains rather than settling on one
+    const crossChain = analysis.crossChain;
+    if (crossChain && crossChain.bridges.length >= 2 && crossChain.chainsVisited.length >= 3) {
+      traits.push({ name: 'Cross-Chain Nomad', priority: 7 });
+    }
+
     if (scores.riskAppetite > 75) {
       traits.push({ name: 'Risk Taker', priority: 4 });
     }
@@ -157,14 +202,14 @@ export class PersonaGenerator implements IPersonaGenerator {
 
   // Private helper methods for title generation
 
-  private getNFTTitle(activity: number): string {
+  private getNFTTitles(activity: number): string[] {
     const titles = [
       'NFT Connoisseur',
       'Digital Art Collector',
       'NFT Enthusiast',
       'NFT Trader',
     ];
-    return activity > 60 ? titles[3] : titles[Math.floor(Math.random() * 3)];
+    return activity > 60 ? [titles[3]] : titles.slice(0, 3);
   }
 
   private getActiveTraderTitle(riskAppetite: number): string {
@@ -177,14 +222,52 @@ export class PersonaGenerator implements IPersonaGenerator {
     return riskAppetite > 85 ? titles[0] : titles[1];
   }
 
-  private getStableHolderTitle(loyalty: number): string {
+  private getStableHolderTitles(loyalty: number): string[] {
     const titles = [
       'Steady Staker',
       'Blue-Chip Believer',
       'Long-Term Holder',
       'Diamond Hands Investor',
     ];
-    return loyalty > 90 ? titles[3] : titles[Math.floor(Math.random() * 3)];
+    return loyalty > 90 ? [titles[3]] : titles.slice(0, 3);
+  }
+
+  /**
+   * Only fully USD-valued portfolios count: raw balances of different tokens
+   * do not compare, and unpriced holdings would inflate the priced shares
+   */
+  private getPortfolioTitle(analysis: AnalysisResult): string | null {
+    const portfolio = analysis.portfolio;
+    if (!portfolio || portfolio.basis !== 'usd' || portfolio.unpricedTokens || portfolio.holdings.length === 0) {
+      return null;
+    }
+
+    if ((portfolio.stablecoinShare ?? 0) >= 80) {
+      return 'Stablecoin Maximalist';
+    }
+    if ((portfolio.blueChipShare ?? 0) >= 80) {
+      return 'Blue-Chip Maximalist';
+    }
+    return null;
+  }
+
+  /**
+   * Stable summary of the analysis for seeding title selection
+   * Leaves out time-relative measures so the seed does not drift day to day
+   */
+  private analysisFingerprint(analysis: AnalysisResult): string {
+    const protocols = Array.from(analysis.protocolFrequency.entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([protocol, count]) => `${protocol}:${count}`);
+
+    return [
+      analysis.totalTransactions,
+      analysis.swapFrequency,
+      analysis.nftTransactions,
+      analysis.governanceVotes.length,
+      analysis.airdropFlips.length,
+      ...protocols,
+    ].join('|');
   }
 
   private getDormantTitle(loyalty: number): string {
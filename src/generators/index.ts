@@ -1 +1,2 @@
 export { PersonaGenerator } from './PersonaGenerator';
+export { generateSyntheticFarms } from './syntheticFarms';
@@ -0,0 +1,119 @@
+import { Transaction, TransactionType, WalletInput } from '../types';
+import { createRng, hashSeed } from './seededRandom.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Actions farms script and organic wallets pick from at random
+const ACTIONS: { type: TransactionType; details: Record<string, unknown> }[] = [
+  { type: 'swap', details: { protocol: 'Uniswap V3', token_in: 'ETH', token_out: 'USDC', amount_in: '0.05' } },
+  { type: 'swap', details: { protocol: 'Curve', token_in: 'USDC', token_out: 'DAI', amount_in: '100' } },
+  { type: 'bridge', details: { protocol: 'Stargate', token: 'USDC', amount: '50', destination_chain_id: 42161 } },
+  { type: 'bridge', details: { protocol: 'Hop', token: 'ETH', amount: '0.02', destination_chain_id: 10 } },
+  { type: 'provide_liquidity', details: { protocol: 'Uniswap V3', token1: 'ETH', token2: 'USDC', amount1: '0.01', amount2: '30' } },
+  { type: 'stake', details: { protocol: 'Lido', token: 'ETH', amount: '0.01' } },
+  { type: 'nft_mint', details: { protocol: 'Zora', collection: 'Zora Open Edition', price: '0.000777' } },
+  { type: 'governance_vote', details: { protocol: 'Uniswap', proposal_id: '42', vote: 'for' } },
+  { type: 'claim_rewards', details: { protocol: 'Curve', token: 'CRV', amount: '3' } },
+];
+
+export interface SyntheticFarmOptions {
+  seed?: string | number; // same seed, same batch
+  farms?: number; // default 2
+  walletsPerFarm?: number; // default 8
+  organicWallets?: number; // unrelated wallets mixed in, default 10
+  start?: string; // ISO 8601 date of the first funding, default 2024-01-01
+}
+
+export interface SyntheticFarmBatch {
+  wallets: WalletInput[]; // farm and organic wallets shuffled together
+  farms: string[][]; // addresses of each farm's wallets
+}
+
+/**
+ * Batch of synthetic wallets for exercising sybil detection.
+ * Each farm's wallets are funded by one address within minutes of each
+ * other, run the same script of actions a few minutes apart (sometimes
+ * skipping a step) and sweep everything to one destination. Organic wallets
+ * have their own funder and destination and act at random times
+ */
+export function generateSyntheticFarms(options: SyntheticFarmOptions = {}): SyntheticFarmBatch {
+  const random = createRng(hashSeed(String(options.seed ?? 'synthetic-farms')));
+  const start = new Date(options.start ?? '2024-01-01T00:00:00Z').getTime();
+  const hex = (length: number) =>
+    '0x' + Array.from({ length }, () => Math.floor(random() * 16).toString(16)).join('');
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  const wallets: WalletInput[] = [];
+  const farms: string[][] = [];
+
+  for (let f = 0; f < (options.farms ?? 2); f++) {
+    const funder = hex(40);
+    const destination = hex(40);
+    const farmStart = start + f * 7 * DAY_MS;
+    let time = farmStart;
+    const script = Array.from({ length: 8 + Math.floor(random() * 5) }, () => {
+      time += (6 + Math.floor(random() * 30)) * HOUR_MS;
+      return { ...pick(ACTIONS), time };
+    });
+    const members: string[] = [];
+
+    for (let w = 0; w < (options.walletsPerFarm ?? 8); w++) {
+      const address = hex(40);
+      const skipped = random() < 0.3 ? Math.floor(random() * script.length) : -1;
+      const jitter = () => Math.floor(random() * 3 * 60 * 1000);
+      const transactions: Transaction[] = [
+        transfer(hex(64), farmStart + w * 60 * 1000 + jitter(), funder, address),
+        ...script
+          .filter((_, step) => step !== skipped)
+          .map(action => ({
+            hash: hex(64),
+            timestamp: new Date(action.time + jitter()).toISOString(),
+            type: action.type,
+            details: { ...action.details },
+          } as Transaction)),
+        transfer(hex(64), script[script.length - 1].time + HOUR_MS + jitter(), address, destination),
+      ];
+
+      members.push(address);
+      wallets.push({ walletAddress: address, transactions });
+    }
+    farms.push(members);
+  }
+
+  for (let o = 0; o < (options.organicWallets ?? 10); o++) {
+    const address = hex(40);
+    const first = start + Math.floor(random() * 90) * DAY_MS + Math.floor(random() * DAY_MS);
+    const transactions: Transaction[] = [transfer(hex(64), first, hex(40), address)];
+    let time = first;
+    for (let i = 0; i < 4 + Math.floor(random() * 16); i++) {
+      time += Math.floor(random() * 10 * DAY_MS);
+      const action = pick(ACTIONS);
+      transactions.push({
+        hash: hex(64),
+        timestamp: new Date(time).toISOString(),
+        type: action.type,
+        details: { ...action.details },
+      } as Transaction);
+    }
+    transactions.push(transfer(hex(64), time + DAY_MS, address, hex(40)));
+    wallets.push({ walletAddress: address, transactions });
+  }
+
+  // Fisher-Yates, so farm wallets are not next to each other
+  for (let i = wallets.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [wallets[i], wallets[j]] = [wallets[j], wallets[i]];
+  }
+
+  return { wallets, farms };
+}
+
+function transfer(hash: string, time: number, from: string, to: string): Transaction {
+  return {
+    hash,
+    timestamp: new Date(time).toISOString(),
+    type: 'transfer',
+    details: { token: 'ETH', amount: '0.1', from, to },
+  };
+}
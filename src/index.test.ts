@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { analyzeWallet } from './index';
+import {
+  analyzeWallet,
+  analyzeMultiChainWallet,
+  analyzeWalletTimeline,
+  detectSybilClusters,
+  generateSyntheticFarms,
+  DEFAULT_SCORING_MODEL,
+} from './index';
 
 describe('analyzeWallet - Integration Tests', () => {
   describe('Example input/output tests', () => {
@@ -188,6 +195,50 @@ describe('analyzeWallet - Integration Tests', () => {
   });
 
   describe('Edge case tests', () => {
+    it('should detect airdrop flips written with camelCase swap fields', () => {
+      const base = {
+        walletAddress: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984',
+        transactions: [
+          {
+            hash: '0xair1',
+            timestamp: '2024-01-10T10:00:00Z',
+            type: 'receive_airdrop',
+            details: { protocol: 'Arbitrum', token: 'ARB' }
+          }
+        ]
+      };
+      const flipped = {
+        ...base,
+        transactions: [
+          ...base.transactions,
+          {
+            hash: '0xair2',
+            timestamp: '2024-01-10T10:15:00Z',
+            type: 'swap',
+            details: { protocol: 'Uniswap', tokenIn: 'ARB', tokenOut: 'ETH' }
+          }
+        ]
+      };
+      const held = {
+        ...base,
+        transactions: [
+          ...base.transactions,
+          {
+            hash: '0xair2',
+            timestamp: '2024-01-10T10:15:00Z',
+            type: 'swap',
+            details: { protocol: 'Uniswap', tokenIn: 'ETH', tokenOut: 'ARB' }
+          }
+        ]
+      };
+
+      const flippedLoyalty = JSON.parse(analyzeWallet(JSON.stringify(flipped))).scores.loyalty;
+      const heldLoyalty = JSON.parse(analyzeWallet(JSON.stringify(held))).scores.loyalty;
+
+      // The flip costs 15 loyalty points
+      expect(heldLoyalty - flippedLoyalty).toBe(15);
+    });
+
     it('should handle empty wallet (no transactions)', () => {
       const input = JSON.stringify({
         walletAddress: '0xemptywallet',
@@ -395,4 +446,206 @@ describe('analyzeWallet - Integration Tests', () => {
       expect(() => analyzeWallet(input)).toThrow(/walletAddress/);
     });
   });
+
+  describe('Multi-chain aggregation', () => {
+    const walletAddress = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb';
+    const multiChainInput = {
+      walletAddress,
+      chains: [
+        {
+          chainId: 1,
+          transactions: [
+            { hash: '0xeth1', timestamp: '2024-01-01T00:00:00Z', type: 'stake', details: { protocol: 'Lido', token: 'ETH' } },
+            { hash: '0xeth2', timestamp: '2024-02-01T00:00:00Z', type: 'governance_vote', details: { protocol: 'Lido' } }
+          ]
+        },
+        {
+          chainId: 42161,
+          transactions: [
+            { hash: '0xarb1', timestamp: '2024-01-05T00:00:00Z', type: 'swap', details: { protocol: 'GMX', tokenIn: 'ETH', tokenOut: 'GMX' } },
+            { hash: '0xarb2', timestamp: '2024-01-06T00:00:00Z', type: 'swap', details: { protocol: 'GMX', tokenIn: 'GMX', tokenOut: 'ARB' } },
+            { hash: '0xarb3', timestamp: '2024-01-07T00:00:00Z', type: 'swap', details: { protocol: 'Camelot', tokenIn: 'ARB', tokenOut: 'ETH' } }
+          ]
+        }
+      ]
+    };
+
+    it('should merge chains into one persona with a per-chain breakdown', () => {
+      const parsed = JSON.parse(analyzeMultiChainWallet(JSON.stringify(multiChainInput)));
+
+      expect(parsed.walletAddress).toBe(walletAddress);
+      expect(parsed.notableProtocols).toEqual(expect.arrayContaining(['Lido', 'GMX', 'Camelot']));
+      expect(parsed.chains).toHaveLength(2);
+
+      const [arbitrum, ethereum] = parsed.chains;
+      expect(arbitrum).toMatchObject({ chainId: 42161, chain: 'Arbitrum One', transactionCount: 3, activityShare: 60 });
+      expect(ethereum).toMatchObject({ chainId: 1, chain: 'Ethereum', transactionCount: 2, activityShare: 40 });
+      expect(arbitrum.notableProtocols[0]).toBe('GMX');
+      expect(arbitrum.scores.riskAppetite).toBeGreaterThan(ethereum.scores.riskAppetite);
+    });
+
+    it('should add a breakdown to analyzeWallet when transactions span several chains', () => {
+      const transactions = multiChainInput.chains.flatMap(c =>
+        c.transactions.map(tx => ({ ...tx, chainId: c.chainId }))
+      );
+
+      const parsed = JSON.parse(analyzeWallet(JSON.stringify({ walletAddress, transactions })));
+      expect(parsed.chains.map((c: { chainId: number }) => c.chainId)).toEqual([42161, 1]);
+
+      const single = JSON.parse(analyzeWallet(JSON.stringify({ walletAddress, transactions: transactions.slice(0, 2) })));
+      expect(single).not.toHaveProperty('chains');
+    });
+
+    it('should reject chains without a valid chainId', () => {
+      const input = JSON.stringify({ walletAddress, chains: [{ chainId: 'eth', transactions: [] }] });
+      expect(() => analyzeMultiChainWallet(input)).toThrow(/chainId must be a positive integer/);
+    });
+  });
+
+  describe('Scoring model option', () => {
+    const input = JSON.stringify({
+      walletAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+      transactions: [
+        { hash: '0x1', timestamp: '2024-01-15T10:00:00Z', type: 'swap', details: { protocol: 'Uniswap' } },
+        { hash: '0x2', timestamp: '2024-01-16T10:00:00Z', type: 'swap', details: { protocol: 'Uniswap' } },
+      ],
+    });
+
+    it('should score with the model passed in', () => {
+      const model = {
+        ...DEFAULT_SCORING_MODEL,
+        scores: { ...DEFAULT_SCORING_MODEL.scores, riskAppetite: { base: 1, signals: [] } },
+      };
+
+      expect(JSON.parse(analyzeWallet(input)).scores.riskAppetite).toBe(60);
+      expect(JSON.parse(analyzeWallet(input, { model })).scores.riskAppetite).toBe(1);
+    });
+
+    it('should reject an invalid model', () => {
+      const model = { ...DEFAULT_SCORING_MODEL, version: '' };
+      expect(() => analyzeWallet(input, { model })).toThrow(/Wallet analysis failed: Invalid scoring model/);
+    });
+  });
+
+  describe('Score explanations option', () => {
+    it('should add explanations referencing transaction hashes only when requested', () => {
+      const input = JSON.stringify({
+        walletAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+        transactions: [
+          { hash: '0xswap1', timestamp: '2024-01-15T10:00:00Z', type: 'swap', details: { protocol: 'Uniswap' } },
+          { hash: '0xvote1', timestamp: '2024-01-16T10:00:00Z', type: 'governance_vote', details: { protocol: 'Aave' } },
+        ],
+      });
+
+      expect(JSON.parse(analyzeWallet(input))).not.toHaveProperty('explanations');
+
+      const { explanations } = JSON.parse(analyzeWallet(input, { explain: true }));
+      expect(explanations.riskAppetite.contributions).toEqual([
+        expect.objectContaining({ description: 'swaps: +5', hashes: ['0xswap1'] }),
+      ]);
+      expect(explanations.loyalty.contributions).toEqual([
+        expect.objectContaining({ description: 'governance votes: +8', hashes: ['0xvote1'] }),
+      ]);
+    });
+  });
+
+  describe('As-of option', () => {
+    it('should analyze the wallet as it stood on the given date', () => {
+      const input = JSON.stringify({
+        walletAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+        transactions: [
+          { hash: '0x1', timestamp: '2024-01-15T10:00:00Z', type: 'swap', details: { protocol: 'Uniswap' } },
+          { hash: '0x2', timestamp: '2024-01-16T10:00:00Z', type: 'swap', details: { protocol: 'Uniswap' } },
+          { hash: '0x3', timestamp: '2024-05-01T10:00:00Z', type: 'governance_vote', details: { protocol: 'Aave' } },
+        ],
+      });
+      const asOf = new Date('2024-02-01T00:00:00Z');
+
+      const result = JSON.parse(analyzeWallet(input, { asOf, explain: true }));
+
+      expect(result.asOf).toBe('2024-02-01T00:00:00.000Z');
+      expect(result.notableProtocols).not.toContain('Aave');
+      expect(result.explanations.loyalty.contributions.map((c: { signal: string }) => c.signal)).not.toContain('governanceVotes');
+      expect(result.explanations.activity.contributions).toContainEqual(
+        expect.objectContaining({ signal: 'recentTransactions', hashes: ['0x1', '0x2'] })
+      );
+      expect(analyzeWallet(input, { asOf })).toBe(analyzeWallet(input, { asOf }));
+    });
+  });
+
+  describe('Persona timeline', () => {
+    const swaps = Array.from({ length: 8 }, (_, i) => ({
+      hash: `0xswap${i}`,
+      timestamp: `2024-02-${String(i + 1).padStart(2, '0')}T10:00:00Z`,
+      type: 'swap',
+      details: { protocol: 'Uniswap V3', token_in: 'ETH', token_out: 'PEPE' },
+    }));
+    const stakes = Array.from({ length: 6 }, (_, i) => ({
+      hash: `0xstake${i}`,
+      timestamp: `2024-08-${String(i + 1).padStart(2, '0')}T10:00:00Z`,
+      type: 'stake',
+      details: { protocol: 'Aave', token: 'USDC' },
+    }));
+    const input = JSON.stringify({
+      walletAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+      transactions: [...stakes, ...swaps],
+    });
+
+    it('should build a persona for each quarter and flag the change', () => {
+      const timeline = JSON.parse(analyzeWalletTimeline(input, { interval: 'quarter', mode: 'rolling' }));
+
+      expect(timeline.windows.map((w: { label: string }) => w.label)).toEqual(['Q1 2024', 'Q3 2024']);
+      expect(timeline.windows.map((w: { transactionCount: number }) => w.transactionCount)).toEqual([8, 6]);
+      expect(timeline.windows[0]).toMatchObject({
+        windowStart: '2024-01-01T00:00:00.000Z',
+        windowEnd: '2024-04-01T00:00:00.000Z',
+      });
+      expect(timeline.transitions).toEqual([
+        expect.objectContaining({
+          from: timeline.windows[0].personaTitle,
+          to: timeline.windows[1].personaTitle,
+          description: expect.stringMatching(new RegExp(`^Became an? ${timeline.windows[1].personaTitle} in Q3 2024$`)),
+        }),
+      ]);
+    });
+
+    it('should accumulate history in cumulative mode', () => {
+      const timeline = JSON.parse(analyzeWalletTimeline(input, { interval: 'month' }));
+
+      expect(timeline.mode).toBe('cumulative');
+      expect(timeline.windows).toHaveLength(7);
+      expect(timeline.windows[timeline.windows.length - 1]).toMatchObject({ label: 'Aug 2024', transactionCount: 14 });
+      expect(() => analyzeWalletTimeline(input, { mode: 'sliding' as never })).toThrow('Invalid timeline mode');
+    });
+  });
+
+  describe('Sybil clusters', () => {
+    const batch = generateSyntheticFarms({ seed: 'pipeline', farms: 1, walletsPerFarm: 4, organicWallets: 3 });
+
+    it('should cluster a batch of wallets from JSON', () => {
+      const report = JSON.parse(detectSybilClusters(JSON.stringify(batch.wallets)));
+
+      expect(report.wallets).toHaveLength(7);
+      expect(report.clusters).toHaveLength(1);
+      expect([...report.clusters[0].wallets].sort()).toEqual([...batch.farms[0]].sort());
+    });
+
+    it('should ignore transactions after asOf', () => {
+      const report = JSON.parse(detectSybilClusters(JSON.stringify(batch.wallets), { asOf: new Date('2023-12-31T00:00:00Z') }));
+
+      expect(report.clusters).toEqual([]);
+    });
+
+    it('should reject anything but a non-empty array of distinct wallets', () => {
+      const wallet = batch.wallets[0];
+
+      expect(() => detectSybilClusters(JSON.stringify(wallet))).toThrow('non-empty array of wallets');
+      expect(() => detectSybilClusters(JSON.stringify([wallet, wallet]))).toThrow(
+        'Sybil detection failed: Validation failed: Wallet at index 1: duplicate walletAddress'
+      );
+      expect(() => detectSybilClusters(JSON.stringify([{ walletAddress: '0x1' }]))).toThrow(
+        'Wallet at index 0: Missing required field: transactions'
+      );
+    });
+  });
 });
@@ -7,51 +7,132 @@ export * from './types/index.js';
 export * from './interfaces/index.js';
 
 import { InputValidator } from './validators/InputValidator.js';
+import { TransactionNormalizer } from './normalizers/TransactionNormalizer.js';
 import { TransactionAnalyzer } from './analyzers/TransactionAnalyzer.js';
+import { SybilClusterDetector } from './analyzers/SybilClusterDetector.js';
 import { ScoreCalculator } from './calculators/ScoreCalculator.js';
 import { PersonaGenerator } from './generators/PersonaGenerator.js';
 import { OutputFormatter } from './formatters/OutputFormatter.js';
-import { PersonaProfile } from './types/index.js';
+import { getChainById } from './providers/chains.js';
+import { buildTimelineWindows, parseTimelineInterval } from './timeline/timelineWindows.js';
+import { priceQueries } from './oracles/valuation.js';
+import { PriceFileOracle } from './oracles/PriceFileOracle.js';
+import { HttpPriceOracle } from './oracles/HttpPriceOracle.js';
+import { PriceOracle } from './interfaces/index.js';
+import { ProtocolRegistry } from './registry/ProtocolRegistry.js';
+import { DEFAULT_SCORING_MODEL, loadScoringModel } from './calculators/scoringModel.js';
+import { generateSyntheticFarms } from './generators/syntheticFarms.js';
+import { SimilarityIndex } from './similarity/SimilarityIndex.js';
+import { buildFeatureVector, FEATURE_NAMES } from './similarity/featureVector.js';
+import { BatchItem, readBatchItems, readBatchStream, parseBatchArray } from './batch/batchInput.js';
+import { JobQueue, JobContext, JobHandler, JobQueueOptions } from './jobs/JobQueue.js';
+import { MemoryJobStore } from './jobs/MemoryJobStore.js';
+import { MemoryPersonaStore } from './store/MemoryPersonaStore.js';
+import { FilePersonaStore } from './store/FilePersonaStore.js';
+import { hashInput, summarizeRun, diffRuns } from './store/analysisRuns.js';
+import { PersonaCache, PersonaCacheOptions, PersonaCacheEntry, personaCacheKey } from './store/PersonaCache.js';
+import {
+  PersonaProfile,
+  AnalyzerState,
+  WalletData,
+  Transaction,
+  AnalysisResult,
+  Scores,
+  ChainBreakdown,
+  ScoringModel,
+  TimelineInterval,
+  TimelineMode,
+  TimelineWindow,
+  PersonaTimeline,
+  PersonaTransition,
+  BatchResult,
+} from './types/index.js';
+
+export {
+  ProtocolRegistry,
+  DEFAULT_SCORING_MODEL,
+  loadScoringModel,
+  PriceFileOracle,
+  HttpPriceOracle,
+  generateSyntheticFarms,
+  SimilarityIndex,
+  buildFeatureVector,
+  FEATURE_NAMES,
+  readBatchItems,
+  readBatchStream,
+  parseBatchArray,
+  JobQueue,
+  MemoryJobStore,
+  MemoryPersonaStore,
+  FilePersonaStore,
+  hashInput,
+  summarizeRun,
+  diffRuns,
+  PersonaCache,
+  personaCacheKey,
+};
+export type { BatchItem, JobContext, JobHandler, JobQueueOptions, PersonaCacheOptions, PersonaCacheEntry };
+
+/**
+ * Options shared by the analysis pipelines
+ */
+export interface AnalyzeOptions {
+  registry?: ProtocolRegistry; // protocol / token registry, defaults to the bundled one
+  newProtocolWindowDays?: number; // days after a protocol's launch that count as early adoption
+  model?: ScoringModel; // signal weights, caps and base scores, defaults to the bundled model
+  explain?: boolean; // add per-signal score explanations to the output
+  seed?: string | number; // persona title seed, defaults to one derived from the wallet and analysis
+  titleVariants?: boolean; // add every title that fit to the output
+  asOf?: Date; // analyze the wallet as it stood on this date, ignoring later transactions
+  priceOracle?: PriceOracle; // values transactions in USD; call prefetchPrices first for remote oracles
+  features?: boolean; // add the wallet's similarity feature vector to the output
+  similarityIndex?: SimilarityIndex; // index the wallet's feature vector for findSimilar
+}
+
+export interface TimelineOptions extends AnalyzeOptions {
+  interval?: TimelineInterval; // window length, defaults to calendar months
+  mode?: TimelineMode; // defaults to cumulative
+}
+
+export const TIMELINE_MODES: TimelineMode[] = ['cumulative', 'rolling'];
+
+export interface BatchOptions extends AnalyzeOptions {
+  concurrency?: number; // wallets analyzed at once, defaults to 4
+}
+
+export interface IncrementalAnalysis {
+  persona: string; // persona profile JSON, as analyzeWallet returns it
+  state: AnalyzerState; // save it and pass it back with the next run's new transactions
+}
+
+export interface SybilOptions {
+  registry?: ProtocolRegistry; // protocol contracts never count as shared funders or destinations
+  asOf?: Date; // ignore transactions after this date
+  ignoredCounterparties?: string[]; // funders and destinations shared by unrelated wallets, e.g. exchanges
+}
 
 /**
  * Main pipeline function that analyzes a wallet and generates a persona profile
- * Wires together validator, analyzer, calculator, generator, and formatter
+ * Wires together validator, normalizer, analyzer, calculator, generator, and formatter
  * Requirements: All requirements
  * 
  * @param inputJson - JSON string containing wallet address and transactions
+ * @param options - Optional pipeline configuration
  * @returns JSON string containing the persona profile
  * @throws Error if validation fails or processing encounters an error
  */
-export function analyzeWallet(inputJson: string): string {
+export function analyzeWallet(inputJson: string, options: AnalyzeOptions = {}): string {
   try {
     // Step 1: Validate and parse input
     const validator = new InputValidator();
     const walletData = validator.parse(inputJson);
 
-    // Step 2: Analyze transactions
-    const analyzer = new TransactionAnalyzer();
-    const analysisResult = analyzer.analyze(walletData.transactions);
-
-    // Step 3: Calculate scores
-    const calculator = new ScoreCalculator();
-    const scores = {
-      riskAppetite: calculator.calculateRiskAppetite(analysisResult),
-      loyalty: calculator.calculateLoyalty(analysisResult),
-      activity: calculator.calculateActivity(analysisResult),
-    };
-
-    // Step 4: Generate persona
-    const generator = new PersonaGenerator();
-    const personaProfile: PersonaProfile = {
-      walletAddress: walletData.walletAddress,
-      personaTitle: generator.generateTitle(scores, analysisResult),
-      summary: generator.generateSummary(scores, analysisResult),
-      scores,
-      keyTraits: generator.generateTraits(scores, analysisResult),
-      notableProtocols: generator.getNotableProtocols(analysisResult),
-    };
-
-    // Step 5: Format output
+    // Steps 2-5: Build the persona, with a chain breakdown when
+    // the transactions are tagged with more than one chain
+    const chainIds = new Set(walletData.transactions.map(tx => tx.chainId).filter(id => id !== undefined));
+    const { profile: personaProfile } = buildPersonaProfile(walletData, chainIds.size > 1, options);
+
+    // Step 6: Format output
     const formatter = new OutputFormatter();
     return formatter.format(personaProfile);
   } catch (error) {
@@ -62,3 +143,449 @@ export function analyzeWallet(inputJson: string): string {
     throw new Error('Wallet analysis failed: Unknown error');
   }
 }
+
+/**
+ * Incremental pipeline: analyzes only the transactions that are new since
+ * the state a previous run returned, e.g. those fetched from its
+ * lastBlockNumber on. Without a previous state it analyzes the full input
+ * like analyzeWallet. Transactions already in the state are skipped; older
+ * ones are rejected. Chain breakdowns are not produced
+ *
+ * @param inputJson - JSON string containing wallet address and the new transactions
+ * @param previousState - state from the previous run of the same wallet, if any
+ * @param options - Optional pipeline configuration; use the same options on every run
+ * @returns the persona profile JSON and the state to save for the next run
+ * @throws Error if validation fails, the state belongs to another wallet or a transaction predates it
+ */
+export function analyzeWalletIncremental(
+  inputJson: string,
+  previousState?: AnalyzerState,
+  options: AnalyzeOptions = {}
+): IncrementalAnalysis {
+  try {
+    const validator = new InputValidator();
+    const walletData = validator.parse(inputJson);
+
+    const stateWallet = previousState?.walletAddress;
+    if (stateWallet && stateWallet.toLowerCase() !== walletData.walletAddress.toLowerCase()) {
+      throw new Error(`Analyzer state belongs to wallet ${stateWallet}, not ${walletData.walletAddress}`);
+    }
+
+    const { profile, state } = buildPersonaProfile(walletData, false, options, previousState);
+
+    const formatter = new OutputFormatter();
+    return { persona: formatter.format(profile), state };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Wallet analysis failed: ${error.message}`);
+    }
+    throw new Error('Wallet analysis failed: Unknown error');
+  }
+}
+
+/**
+ * Aggregation pipeline for one address active on several chains
+ * Merges every chain's transactions (tagged with their chainId) into a single
+ * persona and adds a per-chain breakdown of scores, protocols and activity share
+ *
+ * @param inputJson - JSON string with walletAddress and chains: [{ chainId, transactions }]
+ * @param options - Optional pipeline configuration
+ * @returns JSON string containing the aggregated persona profile
+ * @throws Error if validation fails or processing encounters an error
+ */
+export function analyzeMultiChainWallet(inputJson: string, options: AnalyzeOptions = {}): string {
+  try {
+    const validator = new InputValidator();
+    const walletData = validator.parseMultiChain(inputJson);
+
+    const { profile: personaProfile } = buildPersonaProfile(walletData, true, options);
+
+    const formatter = new OutputFormatter();
+    return formatter.format(personaProfile);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Wallet analysis failed: ${error.message}`);
+    }
+    throw new Error('Wallet analysis failed: Unknown error');
+  }
+}
+
+/**
+ * Batch pipeline: analyzes every wallet input, single or multi-chain, with
+ * at most `concurrency` in flight while prices are prefetched. Items are
+ * pulled from the source only as slots free up, so streamed input is never
+ * read far ahead. A wallet that fails yields an error result and the batch
+ * carries on
+ *
+ * @param items - Wallet inputs, e.g. from readBatchItems
+ * @param options - Concurrency plus the usual pipeline configuration
+ * @returns Results in completion order, each carrying its input index
+ */
+export async function* analyzeBatch(
+  items: Iterable<BatchItem> | AsyncIterable<BatchItem>,
+  options: BatchOptions = {}
+): AsyncGenerator<BatchResult> {
+  const concurrency = options.concurrency ?? 4;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency: ${concurrency}. Must be a positive integer`);
+  }
+
+  const source = Symbol.asyncIterator in items
+    ? (items as AsyncIterable<BatchItem>)[Symbol.asyncIterator]()
+    : (items as Iterable<BatchItem>)[Symbol.iterator]();
+  const running = new Map<number, Promise<BatchResult>>();
+  let index = 0;
+  let exhausted = false;
+
+  while (!exhausted || running.size > 0) {
+    while (!exhausted && running.size < concurrency) {
+      const next = await source.next();
+      if (next.done) {
+        exhausted = true;
+      } else {
+        const position = index++;
+        running.set(position, analyzeBatchItem(next.value, position, options));
+      }
+    }
+
+    if (running.size > 0) {
+      const result = await Promise.race(running.values());
+      running.delete(result.index);
+      yield result;
+    }
+  }
+}
+
+async function analyzeBatchItem(item: BatchItem, index: number, options: AnalyzeOptions): Promise<BatchResult> {
+  const result: BatchResult = { index, source: item.source, status: 'ok' };
+  try {
+    const parsed = JSON.parse(item.inputJson);
+    if (typeof parsed?.walletAddress === 'string') {
+      result.walletAddress = parsed.walletAddress;
+    }
+  } catch {
+    // the analysis reports the parse error
+  }
+
+  try {
+    if (options.priceOracle) {
+      await prefetchPrices(item.inputJson, options.priceOracle, options.asOf);
+    }
+    const output = isMultiChainJson(item.inputJson)
+      ? analyzeMultiChainWallet(item.inputJson, options)
+      : analyzeWallet(item.inputJson, options);
+    result.persona = JSON.parse(output);
+  } catch (error) {
+    result.status = 'error';
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+  return result;
+}
+
+/**
+ * Sybil pipeline: clusters a batch of wallets by shared funders and sweep
+ * destinations, near-identical transaction sequences and synchronized
+ * activity, and gives every wallet a sybil score with the evidence behind it
+ *
+ * @param inputJson - JSON array of { walletAddress, transactions }
+ * @param options - Optional registry, analysis date and ignored counterparties
+ * @returns JSON string containing the sybil report
+ * @throws Error if validation fails or processing encounters an error
+ */
+export function detectSybilClusters(inputJson: string, options: SybilOptions = {}): string {
+  try {
+    const validator = new InputValidator();
+    const normalizer = new TransactionNormalizer();
+    const cutoff = options.asOf?.getTime() ?? Infinity;
+    const wallets = validator.parseBatch(inputJson).map(wallet => ({
+      walletAddress: wallet.walletAddress,
+      transactions: normalizer.normalize(wallet.transactions)
+        .filter(tx => new Date(tx.timestamp).getTime() <= cutoff),
+    }));
+
+    const detector = new SybilClusterDetector(options.registry ?? new ProtocolRegistry(), {
+      ignoredCounterparties: options.ignoredCounterparties,
+    });
+    return JSON.stringify(detector.detect(wallets));
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Sybil detection failed: ${error.message}`);
+    }
+    throw new Error('Sybil detection failed: Unknown error');
+  }
+}
+
+/**
+ * Load the prices analyzing this input will look up into an oracle backed
+ * by a remote source. Oracles without prefetch are left alone
+ *
+ * @param inputJson - Wallet input JSON, single or multi-chain
+ * @param oracle - Price oracle the analysis will use
+ * @param asOf - Analysis date, defaults to now
+ */
+export async function prefetchPrices(inputJson: string, oracle: PriceOracle, asOf?: Date): Promise<void> {
+  if (!oracle.prefetch) {
+    return;
+  }
+
+  const validator = new InputValidator();
+  const walletData = isMultiChainJson(inputJson) ? validator.parseMultiChain(inputJson) : validator.parse(inputJson);
+  const transactions = new TransactionNormalizer().normalize(walletData.transactions);
+
+  await oracle.prefetch(priceQueries(transactions, asOf ?? new Date()));
+}
+
+function isMultiChainJson(inputJson: string): boolean {
+  try {
+    const parsed = JSON.parse(inputJson);
+    return typeof parsed === 'object' && parsed !== null && Array.isArray(parsed.chains);
+  } catch {
+    return false; // parse reports the error
+  }
+}
+
+/**
+ * Timeline pipeline: builds a persona for each window of the wallet's history
+ * and flags the windows where its persona title changed.
+ * Cumulative windows see every transaction up to the window's end, rolling
+ * windows only their own; either way the window's end is the analysis date
+ *
+ * @param inputJson - JSON string containing wallet address and transactions
+ * @param options - Window interval and mode plus the usual pipeline configuration
+ * @returns JSON string containing the persona timeline
+ * @throws Error if validation fails or processing encounters an error
+ */
+export function analyzeWalletTimeline(inputJson: string, options: TimelineOptions = {}): string {
+  try {
+    const validator = new InputValidator();
+    const walletData = validator.parse(inputJson);
+
+    return JSON.stringify(buildPersonaTimeline(walletData, options));
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Wallet analysis failed: ${error.message}`);
+    }
+    throw new Error('Wallet analysis failed: Unknown error');
+  }
+}
+
+function buildPersonaTimeline(walletData: WalletData, options: TimelineOptions): PersonaTimeline {
+  const interval = parseTimelineInterval(options.interval ?? 'month');
+  const mode = options.mode ?? 'cumulative';
+  if (!TIMELINE_MODES.includes(mode)) {
+    throw new Error(`Invalid timeline mode: ${mode}. Must be one of: ${TIMELINE_MODES.join(', ')}`);
+  }
+
+  const cutoff = options.asOf?.getTime() ?? Infinity;
+  const dated = walletData.transactions
+    .map(tx => ({ tx, time: new Date(tx.timestamp).getTime() }))
+    .filter(({ time }) => time <= cutoff)
+    .sort((a, b) => a.time - b.time);
+
+  const timeline: PersonaTimeline = {
+    walletAddress: walletData.walletAddress,
+    interval,
+    mode,
+    windows: [],
+    transitions: [],
+  };
+  if (dated.length === 0) {
+    return timeline;
+  }
+
+  const windowOptions: AnalyzeOptions = {
+    ...options,
+    registry: options.registry ?? new ProtocolRegistry(),
+    explain: false,
+    titleVariants: false,
+    features: false,
+    similarityIndex: undefined,
+  };
+
+  buildTimelineWindows(new Date(dated[0].time), new Date(dated[dated.length - 1].time), interval)
+    .forEach(window => {
+      const from = mode === 'cumulative' ? -Infinity : window.start.getTime();
+      const transactions = dated
+        .filter(({ time }) => time >= from && time < window.end.getTime())
+        .map(({ tx }) => tx);
+      if (transactions.length === 0) {
+        return;
+      }
+
+      const asOf = new Date(Math.min(window.end.getTime(), cutoff));
+      const { profile } = buildPersonaProfile(
+        { walletAddress: walletData.walletAddress, transactions },
+        false,
+        { ...windowOptions, asOf }
+      );
+
+      timeline.windows.push({
+        windowStart: window.start.toISOString(),
+        windowEnd: window.end.toISOString(),
+        label: window.label,
+        transactionCount: transactions.length,
+        scores: profile.scores,
+        personaTitle: profile.personaTitle,
+        keyTraits: profile.keyTraits,
+      });
+    });
+
+  timeline.transitions = personaTransitions(timeline.windows);
+  return timeline;
+}
+
+/**
+ * Windows whose persona title differs from the previous window's
+ */
+function personaTransitions(windows: TimelineWindow[]): PersonaTransition[] {
+  const transitions: PersonaTransition[] = [];
+
+  for (let i = 1; i < windows.length; i++) {
+    const { personaTitle, windowStart, windowEnd, label } = windows[i];
+    if (personaTitle === windows[i - 1].personaTitle) {
+      continue;
+    }
+
+    const article = /^[aeiou]/i.test(personaTitle) ? 'an' : 'a';
+    transitions.push({
+      windowStart,
+      windowEnd,
+      from: windows[i - 1].personaTitle,
+      to: personaTitle,
+      description: `Became ${article} ${personaTitle} in ${label}`,
+    });
+  }
+
+  return transitions;
+}
+
+/**
+ * Run normalization, analysis, scoring and persona generation
+ */
+function buildPersonaProfile(
+  walletData: WalletData,
+  includeChainBreakdown: boolean,
+  options: AnalyzeOptions,
+  previousState?: AnalyzerState
+): { profile: PersonaProfile; state: AnalyzerState } {
+  const analyzer = new TransactionAnalyzer(options.registry ?? new ProtocolRegistry(), {
+    newProtocolWindowDays: options.newProtocolWindowDays,
+    asOf: options.asOf,
+  }, options.priceOracle);
+  const calculator = new ScoreCalculator(options.model);
+
+  // Step 2: Normalize detail field aliases, dropping transactions after asOf
+  const normalizer = new TransactionNormalizer();
+  const transactions = analyzer.asOfTransactions(normalizer.normalize(walletData.transactions));
+
+  // Steps 3-4: Analyze transactions and calculate scores
+  const { analysisResult, scores } = scoreTransactions(
+    transactions,
+    previousState ?? walletData.walletAddress,
+    analyzer,
+    calculator
+  );
+
+  // Step 5: Generate persona
+  const generator = new PersonaGenerator({ seed: options.seed });
+  const personaProfile: PersonaProfile = {
+    walletAddress: walletData.walletAddress,
+    personaTitle: generator.generateTitle(scores, analysisResult, walletData.walletAddress),
+    summary: generator.generateSummary(scores, analysisResult),
+    scores,
+    keyTraits: generator.generateTraits(scores, analysisResult),
+    notableProtocols: generator.getNotableProtocols(analysisResult),
+  };
+
+  if (options.asOf) {
+    personaProfile.asOf = options.asOf.toISOString();
+  }
+
+  if (analysisResult.portfolio && analysisResult.portfolio.holdings.length > 0) {
+    personaProfile.portfolio = analysisResult.portfolio;
+  }
+
+  if (analysisResult.lending && analysisResult.lending.positions.length > 0) {
+    personaProfile.lending = analysisResult.lending;
+  }
+
+  const crossChain = analysisResult.crossChain;
+  if (crossChain && (crossChain.bridges.length > 0 || crossChain.chainDistribution.length > 1)) {
+    personaProfile.crossChain = crossChain;
+  }
+
+  if (options.features || options.similarityIndex) {
+    const features = buildFeatureVector(analysisResult, scores);
+    options.similarityIndex?.add(walletData.walletAddress, features);
+    if (options.features) {
+      personaProfile.features = features;
+    }
+  }
+
+  if (options.titleVariants) {
+    personaProfile.personaTitleVariants = generator.getTitleVariants(scores, analysisResult);
+  }
+
+  if (options.explain) {
+    personaProfile.explanations = calculator.explain(analysisResult);
+  }
+
+  if (includeChainBreakdown) {
+    personaProfile.chains = buildChainBreakdown(transactions, walletData.walletAddress, analyzer, calculator);
+  }
+
+  return { profile: personaProfile, state: analysisResult.state as AnalyzerState };
+}
+
+function scoreTransactions(
+  transactions: Transaction[],
+  previous: string | AnalyzerState,
+  analyzer: TransactionAnalyzer,
+  calculator: ScoreCalculator
+): { analysisResult: AnalysisResult; scores: Scores } {
+  const analysisResult = analyzer.analyze(transactions, previous);
+
+  const scores = {
+    riskAppetite: calculator.calculateRiskAppetite(analysisResult),
+    loyalty: calculator.calculateLoyalty(analysisResult),
+    activity: calculator.calculateActivity(analysisResult),
+  };
+
+  return { analysisResult, scores };
+}
+
+/**
+ * Score each chain on its own and report its share of total activity
+ * Chains are ordered by transaction count, busiest first
+ */
+function buildChainBreakdown(
+  transactions: Transaction[],
+  walletAddress: string,
+  analyzer: TransactionAnalyzer,
+  calculator: ScoreCalculator
+): ChainBreakdown[] {
+  const byChain = new Map<number, Transaction[]>();
+  transactions.forEach(tx => {
+    if (tx.chainId !== undefined) {
+      const chainTransactions = byChain.get(tx.chainId) || [];
+      chainTransactions.push(tx);
+      byChain.set(tx.chainId, chainTransactions);
+    }
+  });
+
+  const generator = new PersonaGenerator();
+
+  return Array.from(byChain.entries())
+    .map(([chainId, chainTransactions]) => {
+      const { analysisResult, scores } = scoreTransactions(chainTransactions, walletAddress, analyzer, calculator);
+      return {
+        chainId,
+        chain: getChainById(chainId)?.label ?? `Chain ${chainId}`,
+        transactionCount: chainTransactions.length,
+        activityShare: Math.round((chainTransactions.length / transactions.length) * 1000) / 10,
+        scores,
+        notableProtocols: generator.getNotableProtocols(analysisResult),
+      };
+    })
+    .sort((a, b) => b.transactionCount - a.transactionCount);
+}
@@ -0,0 +1,10 @@
+import { DecodedCall, TransactionType } from '../types';
+
+/**
+ * Calldata Decoder Interface
+ * Decodes transaction input against known ABI fragments and classifies the call
+ */
+export interface CalldataDecoder {
+  decode(input: string | undefined): DecodedCall | null;
+  classify(call: DecodedCall): TransactionType | null;
+}
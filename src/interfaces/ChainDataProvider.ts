@@ -0,0 +1,16 @@
+import { ChainConfig, EtherscanTransaction, EtherscanTokenTransfer, FetchOptions, TokenStandard } from '../types';
+
+/**
+ * Chain Data Provider Interface
+ * Fetches raw wallet activity from a single chain
+ */
+export interface ChainDataProvider {
+  readonly chain: ChainConfig;
+  fetchTransactions(walletAddress: string, options?: FetchOptions): Promise<EtherscanTransaction[]>;
+  fetchTokenTransfers(
+    walletAddress: string,
+    standard: TokenStandard,
+    options?: FetchOptions
+  ): Promise<EtherscanTokenTransfer[]>;
+  fetchBalance(walletAddress: string): Promise<string>; // wei
+}
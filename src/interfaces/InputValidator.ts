@@ -7,4 +7,6 @@ import { ValidationResult, WalletData } from '../types';
 export interface InputValidator {
   validate(input: unknown): ValidationResult;
   parse(input: string): WalletData;
+  parseMultiChain(input: string): WalletData;
+  parseBatch(input: string): WalletData[];
 }
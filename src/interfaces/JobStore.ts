@@ -0,0 +1,11 @@
+import { JobRecord } from '../types';
+
+/**
+ * Job Store Interface
+ * Keeps background jobs, their inputs and results for the job queue.
+ * Records are saved whole whenever a job changes
+ */
+export interface JobStore {
+  save(job: JobRecord): Promise<void>;
+  get(id: string): Promise<JobRecord | undefined>;
+}
@@ -5,7 +5,8 @@ import { Scores, AnalysisResult } from '../types';
  * Generates persona title, summary, and traits
  */
 export interface PersonaGenerator {
-  generateTitle(scores: Scores, analysis: AnalysisResult): string;
+  generateTitle(scores: Scores, analysis: AnalysisResult, walletAddress?: string): string;
+  getTitleVariants(scores: Scores, analysis: AnalysisResult): string[];
   generateSummary(scores: Scores, analysis: AnalysisResult): string;
   generateTraits(scores: Scores, analysis: AnalysisResult): string[];
   getNotableProtocols(analysis: AnalysisResult): string[];
@@ -0,0 +1,14 @@
+import { AnalysisRun } from '../types';
+
+/**
+ * Persona Store Interface
+ * Keeps every analysis run, so a wallet's latest persona and its history
+ * survive restarts. Runs are grouped by key, oldest first
+ */
+export interface PersonaStore {
+  save(run: AnalysisRun): Promise<void>;
+  get(id: string): Promise<AnalysisRun | undefined>;
+  latest(key: string): Promise<AnalysisRun | undefined>;
+  history(key: string): Promise<AnalysisRun[]>;
+  latestRuns(): Promise<AnalysisRun[]>; // the latest run under every key
+}
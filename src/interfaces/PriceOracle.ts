@@ -0,0 +1,12 @@
+import { PriceQuery } from '../types';
+
+/**
+ * Price Oracle Interface
+ * Historical USD prices by token symbol and timestamp.
+ * Lookups are synchronous so analysis stays synchronous; oracles backed by
+ * a remote source load the prices they will be asked for in prefetch
+ */
+export interface PriceOracle {
+  getPrice(token: string, timestamp: string): number | undefined; // USD per unit, undefined when unknown
+  prefetch?(queries: PriceQuery[]): Promise<void>;
+}
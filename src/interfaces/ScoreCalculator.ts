@@ -1,4 +1,4 @@
-import { AnalysisResult } from '../types';
+import { AnalysisResult, ScoreExplanations } from '../types';
 
 /**
  * Score Calculator Interface
@@ -8,4 +8,5 @@ export interface ScoreCalculator {
   calculateRiskAppetite(analysis: AnalysisResult): number;
   calculateLoyalty(analysis: AnalysisResult): number;
   calculateActivity(analysis: AnalysisResult): number;
+  explain(analysis: AnalysisResult): ScoreExplanations;
 }
@@ -1,9 +1,10 @@
-import { Transaction, AnalysisResult } from '../types';
+import { Transaction, AnalysisResult, AnalyzerState } from '../types';
 
 /**
  * Transaction Analyzer Interface
- * Extracts behavioral signals from transaction history
+ * Extracts behavioral signals from transaction history, either all of it for
+ * a wallet address or only what is new since a previous analysis's state
  */
 export interface TransactionAnalyzer {
-  analyze(transactions: Transaction[]): AnalysisResult;
+  analyze(transactions: Transaction[], previous?: string | AnalyzerState): AnalysisResult;
 }
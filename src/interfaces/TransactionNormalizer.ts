@@ -0,0 +1,11 @@
+import { Transaction, TransactionType, TransactionDetailsMap, DetailFieldReport } from '../types';
+
+/**
+ * Transaction Normalizer Interface
+ * Maps aliased detail fields onto the canonical per-type shape
+ */
+export interface TransactionNormalizer {
+  normalize(transactions: Transaction[]): Transaction[];
+  normalizeDetails<T extends TransactionType>(type: T, details: Record<string, unknown>): TransactionDetailsMap[T];
+  inspectDetails(type: TransactionType, details: Record<string, unknown>): DetailFieldReport;
+}
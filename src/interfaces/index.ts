@@ -3,3 +3,9 @@ export * from './TransactionAnalyzer.js';
 export * from './ScoreCalculator.js';
 export * from './PersonaGenerator.js';
 export * from './OutputFormatter.js';
+export * from './TransactionNormalizer.js';
+export * from './ChainDataProvider.js';
+export * from './CalldataDecoder.js';
+export * from './PriceOracle.js';
+export * from './JobStore.js';
+export * from './PersonaStore.js';
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { JobQueue, JobContext } from './JobQueue';
+import { MemoryJobStore } from './MemoryJobStore';
+import { JobRecord } from '../types';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+// A handler that runs until released, so tests control when jobs finish
+function gated() {
+  const releases: (() => void)[] = [];
+  let inFlight = 0;
+  let peak = 0;
+  const handler = async (input: { value: number }, context: JobContext) => {
+    peak = Math.max(peak, ++inFlight);
+    context.reportProgress(50);
+    await new Promise<void>(resolve => releases.push(resolve));
+    inFlight--;
+    return input.value * 2;
+  };
+  return { handler, releaseAll: () => releases.splice(0).forEach(release => release()), peak: () => peak };
+}
+
+describe('JobQueue', () => {
+  it('should run a job to completion with progress and a result', async () => {
+    const queue = new JobQueue();
+    const { handler, releaseAll } = gated();
+    queue.register('double', handler);
+
+    const job = await queue.submit('double', { value: 21 });
+    expect(job.status).toBe('queued');
+    await tick();
+    expect(await queue.get(job.id)).toMatchObject({ status: 'running', progress: 50 });
+    expect(await queue.result(job.id)).toBeUndefined();
+
+    releaseAll();
+    await queue.onIdle();
+    const done = await queue.get(job.id);
+    expect(done).toMatchObject({ status: 'completed', progress: 100 });
+    expect(done?.finishedAt).toBeDefined();
+    expect(done).not.toHaveProperty('input');
+    expect(await queue.result(job.id)).toBe(42);
+  });
+
+  it('should record a failed job\'s error', async () => {
+    const queue = new JobQueue();
+    queue.register('broken', async () => {
+      throw new Error('No transactions found for this wallet address');
+    });
+
+    const job = await queue.submit('broken', {});
+    await queue.onIdle();
+
+    expect(await queue.get(job.id)).toMatchObject({
+      status: 'failed',
+      error: 'No transactions found for this wallet address',
+    });
+    expect(await queue.result(job.id)).toBeUndefined();
+    await expect(queue.submit('unknown', {})).rejects.toThrow('Unknown job type: unknown. Must be one of: broken');
+  });
+
+  it('should keep at most `concurrency` jobs running', async () => {
+    const queue = new JobQueue({ concurrency: 2 });
+    const { handler, releaseAll, peak } = gated();
+    queue.register('double', handler);
+
+    const jobs = await Promise.all([1, 2, 3, 4, 5].map(value => queue.submit('double', { value })));
+    await tick();
+    expect((await queue.get(jobs[2].id))?.status).toBe('queued');
+
+    while ((await Promise.all(jobs.map(job => queue.get(job.id)))).some(job => job?.status !== 'completed')) {
+      releaseAll();
+      await tick();
+    }
+    expect(peak()).toBe(2);
+    expect(await Promise.all(jobs.map(job => queue.result(job.id)))).toEqual([2, 4, 6, 8, 10]);
+    expect(() => new JobQueue({ concurrency: 0 })).toThrow('Invalid job concurrency: 0');
+  });
+
+  it('should cancel queued and running jobs', async () => {
+    const queue = new JobQueue({ concurrency: 1 });
+    const { handler, releaseAll } = gated();
+    let aborted = false;
+    queue.register('double', async (input: { value: number }, context: JobContext) => {
+      context.signal.addEventListener('abort', () => { aborted = true; });
+      return handler(input, context);
+    });
+
+    const running = await queue.submit('double', { value: 1 });
+    const queued = await queue.submit('double', { value: 2 });
+    await tick();
+
+    expect((await queue.cancel(queued.id))?.status).toBe('cancelled');
+    expect((await queue.cancel(running.id))?.status).toBe('cancelled');
+    expect(aborted).toBe(true);
+
+    releaseAll();
+    await queue.onIdle();
+    expect((await queue.get(running.id))?.status).toBe('cancelled');
+    expect(await queue.result(running.id)).toBeUndefined();
+    expect(await queue.cancel('missing')).toBeUndefined();
+  });
+
+  it('should hold a cancelled job\'s slot until its handler returns', async () => {
+    const queue = new JobQueue({ concurrency: 1 });
+    const { handler, releaseAll, peak } = gated();
+    queue.register('double', handler);
+
+    const cancelled = await queue.submit('double', { value: 1 });
+    const next = await queue.submit('double', { value: 2 });
+    await tick();
+    await queue.cancel(cancelled.id);
+    await tick();
+    expect((await queue.get(next.id))?.status).toBe('queued');
+
+    releaseAll();
+    await tick();
+    expect((await queue.get(next.id))?.status).toBe('running');
+    releaseAll();
+    await queue.onIdle();
+    expect(peak()).toBe(1);
+    expect(await queue.result(next.id)).toBe(4);
+  });
+
+  it('should fail a job the store cannot mark running and report what it cannot record', async () => {
+    class FlakyStore extends MemoryJobStore {
+      failing = new Set<string>();
+      async save(job: JobRecord): Promise<void> {
+        if (this.failing.has(job.status)) {
+          throw new Error(`disk full (${job.status})`);
+        }
+        return super.save(job);
+      }
+    }
+    const store = new FlakyStore();
+    const errors: string[] = [];
+    const queue = new JobQueue({ store, onError: error => errors.push(error.message) });
+    queue.register('echo', async (input: unknown) => input);
+
+    store.failing.add('running');
+    const stuck = await queue.submit('echo', 1);
+    await queue.onIdle();
+    expect(await queue.get(stuck.id)).toMatchObject({ status: 'failed', error: 'disk full (running)' });
+    expect(errors).toEqual([]);
+
+    store.failing = new Set(['completed', 'failed']);
+    const unsaved = await queue.submit('echo', 2);
+    await queue.onIdle();
+    expect(errors).toEqual([`Job ${unsaved.id}: failed to update its record: disk full (failed)`]);
+  });
+
+  it('should drop the oldest finished jobs past the store limit', async () => {
+    const store = new MemoryJobStore(2);
+    const queue = new JobQueue({ store });
+    queue.register('echo', async (input: unknown) => input);
+
+    const jobs = [];
+    for (const value of [1, 2, 3]) {
+      jobs.push(await queue.submit('echo', value));
+      await queue.onIdle();
+    }
+
+    expect(await queue.get(jobs[0].id)).toBeUndefined();
+    expect(await queue.result(jobs[2].id)).toBe(3);
+  });
+});
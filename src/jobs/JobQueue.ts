@@ -0,0 +1,190 @@
+import { randomUUID } from 'crypto';
+import { Job, JobRecord } from '../types';
+import { JobStore } from '../interfaces/JobStore';
+import { MemoryJobStore } from './MemoryJobStore.js';
+
+/**
+ * Handed to a job's handler while it runs
+ */
+export interface JobContext {
+  signal: AbortSignal; // aborted when the job is cancelled; handlers should stop at the next step
+  reportProgress(percent: number): void;
+}
+
+export type JobHandler<I = unknown, R = unknown> = (input: I, context: JobContext) => Promise<R>;
+
+export interface JobQueueOptions {
+  store?: JobStore; // defaults to an in-memory store
+  concurrency?: number; // jobs running at once, defaults to 2
+  // Store failures that cannot be recorded on the job itself, e.g. saving progress or its final status
+  onError?: (error: Error, job: Job) => void;
+}
+
+/**
+ * In-process background job queue. Jobs wait in submission order and run
+ * through the handler registered for their type, at most `concurrency` at
+ * once. Inputs should be plain JSON so any store can keep them.
+ *
+ * Cancelling a queued job drops it; cancelling a running one aborts its
+ * signal and marks it cancelled at once, discarding whatever it returns.
+ * A cancelled handler still takes its slot until it actually returns, so
+ * no more than `concurrency` handlers ever run at once.
+ * Queued jobs live in this process only and are lost on restart
+ */
+export class JobQueue {
+  private readonly store: JobStore;
+  private readonly concurrency: number;
+  private readonly onError: (error: Error, job: Job) => void;
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly pending: JobRecord[] = [];
+  private readonly running = new Map<string, { record: JobRecord; controller: AbortController }>();
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(options: JobQueueOptions = {}) {
+    this.store = options.store ?? new MemoryJobStore();
+    this.concurrency = options.concurrency ?? 2;
+    this.onError = options.onError ?? (() => undefined);
+    if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+      throw new Error(`Invalid job concurrency: ${this.concurrency}. Must be a positive integer`);
+    }
+  }
+
+  register<I, R>(type: string, handler: JobHandler<I, R>): void {
+    this.handlers.set(type, handler as JobHandler);
+  }
+
+  get types(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  async submit(type: string, input: unknown): Promise<Job> {
+    if (!this.handlers.has(type)) {
+      throw new Error(`Unknown job type: ${type}. Must be one of: ${this.types.join(', ')}`);
+    }
+
+    const record: JobRecord = {
+      id: randomUUID(),
+      type,
+      status: 'queued',
+      progress: 0,
+      createdAt: new Date().toISOString(),
+      input,
+    };
+    await this.store.save(record);
+    const job = toJob(record);
+    this.pending.push(record);
+    this.drain();
+    return job;
+  }
+
+  async get(id: string): Promise<Job | undefined> {
+    const record = this.running.get(id)?.record ?? this.pending.find(job => job.id === id) ?? await this.store.get(id);
+    return record ? toJob(record) : undefined;
+  }
+
+  /**
+   * The job's result, undefined until it has completed
+   */
+  async result(id: string): Promise<unknown> {
+    const record = await this.store.get(id);
+    return record?.status === 'completed' ? record.result : undefined;
+  }
+
+  /**
+   * Cancel a queued or running job. Finished jobs are returned unchanged
+   */
+  async cancel(id: string): Promise<Job | undefined> {
+    const active = this.running.get(id);
+    if (active) {
+      if (!active.controller.signal.aborted) {
+        active.controller.abort();
+        await this.finish(active.record, { status: 'cancelled' });
+      }
+      return toJob(active.record);
+    }
+
+    const queued = this.pending.findIndex(job => job.id === id);
+    if (queued >= 0) {
+      const [record] = this.pending.splice(queued, 1);
+      await this.finish(record, { status: 'cancelled' });
+      this.drain();
+      return toJob(record);
+    }
+
+    const record = await this.store.get(id);
+    return record ? toJob(record) : undefined;
+  }
+
+  /**
+   * Resolves once no job is queued or running
+   */
+  onIdle(): Promise<void> {
+    if (this.pending.length === 0 && this.running.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      this.start(this.pending.shift() as JobRecord);
+    }
+    if (this.pending.length === 0 && this.running.size === 0) {
+      this.idleWaiters.forEach(resolve => resolve());
+      this.idleWaiters = [];
+    }
+  }
+
+  private start(record: JobRecord): void {
+    const controller = new AbortController();
+    const entry = { record, controller };
+    this.running.set(record.id, entry);
+    const handler = this.handlers.get(record.type) as JobHandler;
+    const context: JobContext = {
+      signal: controller.signal,
+      reportProgress: percent => {
+        if (!controller.signal.aborted) {
+          record.progress = Math.max(0, Math.min(100, Math.round(percent)));
+          this.store.save(record).catch(error => this.fail(record, 'save its progress', error));
+        }
+      },
+    };
+
+    (async () => {
+      try {
+        Object.assign(record, { status: 'running', startedAt: new Date().toISOString() });
+        await this.store.save(record);
+        const result = await handler(record.input, context);
+        if (!controller.signal.aborted) {
+          await this.finish(record, { status: 'completed', progress: 100, result });
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          await this.finish(record, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+    })()
+      .catch(error => this.fail(record, 'update its record', error))
+      .finally(() => {
+        if (this.running.get(record.id) === entry) {
+          this.running.delete(record.id);
+        }
+        this.drain();
+      });
+  }
+
+  private fail(record: JobRecord, action: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    this.onError(new Error(`Job ${record.id}: failed to ${action}: ${message}`), toJob(record));
+  }
+
+  private async finish(record: JobRecord, update: Partial<JobRecord>): Promise<void> {
+    Object.assign(record, update, { finishedAt: new Date().toISOString() });
+    await this.store.save(record);
+  }
+}
+
+function toJob(record: JobRecord): Job {
+  const { input, result, ...job } = record;
+  return job;
+}
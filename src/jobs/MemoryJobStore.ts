@@ -0,0 +1,36 @@
+import { JobRecord } from '../types';
+import { JobStore } from '../interfaces/JobStore';
+
+const FINISHED = new Set(['completed', 'failed', 'cancelled']);
+
+/**
+ * Job store held in process memory. Past maxJobs, the oldest finished jobs
+ * are dropped so a long-running server does not keep every result forever
+ */
+export class MemoryJobStore implements JobStore {
+  private readonly jobs = new Map<string, JobRecord>();
+
+  constructor(private readonly maxJobs = 1000) {}
+
+  async save(job: JobRecord): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+    this.evict();
+  }
+
+  async get(id: string): Promise<JobRecord | undefined> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  private evict(): void {
+    // Map iteration follows insertion order, so the first finished jobs are the oldest
+    for (const [id, job] of this.jobs) {
+      if (this.jobs.size <= this.maxJobs) {
+        return;
+      }
+      if (FINISHED.has(job.status)) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
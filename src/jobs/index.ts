@@ -0,0 +1,2 @@
+export * from './JobQueue.js';
+export * from './MemoryJobStore.js';
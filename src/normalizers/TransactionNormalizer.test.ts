@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { TransactionNormalizer, TRANSACTION_DETAIL_SCHEMAS } from './TransactionNormalizer';
+import { Transaction, TransactionType } from '../types';
+
+describe('TransactionNormalizer', () => {
+  const normalizer = new TransactionNormalizer();
+
+  it('should map camelCase and legacy swap aliases onto canonical fields', () => {
+    expect(normalizer.normalizeDetails('swap', {
+      protocol: 'Uniswap',
+      tokenIn: 'ARB',
+      tokenOut: 'ETH',
+      amountIn: 2500,
+    })).toEqual({
+      protocol: 'Uniswap',
+      token_in: 'ARB',
+      token_out: 'ETH',
+      amount_in: '2500',
+    });
+
+    expect(normalizer.normalizeDetails('swap', { token_from: 'PEPE', token_to: 'DOGE' }))
+      .toEqual({ token_in: 'PEPE', token_out: 'DOGE' });
+  });
+
+  it('should map Etherscan-style fields for NFT mints', () => {
+    expect(normalizer.normalizeDetails('nft_mint', { tokenName: 'Azuki', tokenID: 42 }))
+      .toEqual({ collection: 'Azuki', token_id: '42' });
+  });
+
+  it('should prefer the canonical field over an alias', () => {
+    expect(normalizer.normalizeDetails('provide_liquidity', { tokenA: 'SHIB', token1: 'ETH', tokenB: 'USDC' }))
+      .toEqual({ token1: 'ETH', token2: 'USDC' });
+  });
+
+  it('should keep unrecognised fields untouched', () => {
+    expect(normalizer.normalizeDetails('stake', { token: 'ETH', validator: 42 }))
+      .toEqual({ token: 'ETH', validator: 42 });
+  });
+
+  it('should report missing required and unknown fields', () => {
+    expect(normalizer.inspectDetails('swap', { tokenIn: 'ETH', slippage: 0.5 })).toEqual({
+      missing: ['token_out'],
+      unknown: ['slippage'],
+    });
+  });
+
+  it('should never change transaction count, hash, timestamp or type', () => {
+    const typeArb = fc.constantFrom(...(Object.keys(TRANSACTION_DETAIL_SCHEMAS) as TransactionType[]));
+    const transactionArb = fc.record({
+      hash: fc.hexaString({ minLength: 64, maxLength: 64 }),
+      timestamp: fc.date().map(d => d.toISOString()),
+      type: typeArb,
+      details: fc.dictionary(fc.string(), fc.anything()),
+    }) as fc.Arbitrary<Transaction>;
+
+    fc.assert(
+      fc.property(fc.array(transactionArb, { maxLength: 20 }), transactions => {
+        const normalized = normalizer.normalize(transactions);
+        expect(normalized).toHaveLength(transactions.length);
+        normalized.forEach((tx, i) => {
+          expect(tx.hash).toBe(transactions[i].hash);
+          expect(tx.timestamp).toBe(transactions[i].timestamp);
+          expect(tx.type).toBe(transactions[i].type);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,311 @@
+import {
+  Transaction,
+  TransactionType,
+  TransactionDetailsMap,
+  DetailFieldReport,
+} from '../types';
+import { TransactionNormalizer as ITransactionNormalizer } from '../interfaces/TransactionNormalizer';
+
+interface DetailFieldSchema {
+  required: string[];
+  aliases: Record<string, string[]>; // canonical field -> accepted aliases
+}
+
+/**
+ * Fields accepted on every transaction type
+ */
+const BASE_FIELDS: Record<string, string[]> = {
+  protocol: ['protocolName', 'protocol_name', 'dapp'],
+  is_new_protocol: ['isNewProtocol', 'new_protocol', 'newProtocol'],
+  from: ['from_address', 'fromAddress'],
+  to: ['to_address', 'toAddress'],
+  value: [],
+  transfers: ['tokenTransfers', 'token_transfers'],
+  decoded_call: ['decodedCall'],
+};
+
+/**
+ * Per-type canonical fields and their known aliases
+ * (snake_case, camelCase and Etherscan-style names)
+ */
+export const TRANSACTION_DETAIL_SCHEMAS: Record<TransactionType, DetailFieldSchema> = {
+  swap: {
+    required: ['token_in', 'token_out'],
+    aliases: {
+      token_in: ['tokenIn', 'token_from', 'tokenFrom', 'fromToken', 'from_token', 'tokenSold', 'sellToken'],
+      token_out: ['tokenOut', 'token_to', 'tokenTo', 'toToken', 'to_token', 'tokenBought', 'buyToken'],
+      amount_in: ['amountIn', 'amount_from', 'amountFrom', 'fromAmount', 'sellAmount'],
+      amount_out: ['amountOut', 'amount_to', 'amountTo', 'toAmount', 'buyAmount'],
+    },
+  },
+  nft_mint: {
+    required: ['collection'],
+    aliases: {
+      collection: ['collectionName', 'collection_name', 'tokenName'],
+      token_id: ['tokenId', 'tokenID', 'nft_id', 'nftId'],
+      price: ['mintPrice', 'mint_price'],
+    },
+  },
+  stake: {
+    required: ['token'],
+    aliases: {
+      token: ['tokenSymbol', 'symbol', 'asset', 'stakedToken', 'staked_token'],
+      amount: ['stakedAmount', 'staked_amount', 'quantity'],
+      is_stable: ['isStable'],
+      is_established: ['isEstablished'],
+    },
+  },
+  provide_liquidity: {
+    required: ['token1', 'token2'],
+    aliases: {
+      token1: ['tokenA', 'token_a'],
+      token2: ['tokenB', 'token_b'],
+      amount1: ['amountA', 'amount_a'],
+      amount2: ['amountB', 'amount_b'],
+      is_volatile: ['isVolatile'],
+    },
+  },
+  receive_airdrop: {
+    required: ['token'],
+    aliases: {
+      token: ['tokenSymbol', 'symbol', 'asset', 'airdropToken'],
+      amount: ['quantity', 'amountReceived'],
+    },
+  },
+  governance_vote: {
+    required: ['protocol'],
+    aliases: {
+      proposal_id: ['proposalId', 'proposalID', 'proposal'],
+      vote: ['support', 'choice'],
+    },
+  },
+  token_hold: {
+    required: ['token'],
+    aliases: {
+      token: ['tokenSymbol', 'symbol', 'asset'],
+      amount: ['balance', 'quantity'],
+      start_date: ['startDate'],
+      end_date: ['endDate'],
+      duration_days: ['durationDays', 'holdDays'],
+      is_blue_chip: ['isBlueChip'],
+    },
+  },
+  borrow: {
+    required: ['token'],
+    aliases: {
+      token: ['tokenSymbol', 'symbol', 'asset', 'borrowedToken', 'borrowed_token'],
+      amount: ['borrowedAmount', 'borrowed_amount', 'quantity'],
+    },
+  },
+  repay: {
+    required: ['token'],
+    aliases: {
+      token: ['tokenSymbol', 'symbol', 'asset', 'repaidToken', 'repaid_token'],
+      amount: ['repaidAmount', 'repaid_amount', 'quantity'],
+    },
+  },
+  liquidation: {
+    required: ['collateral_token'],
+    aliases: {
+      collateral_token: ['collateralToken', 'collateralAsset', 'collateral_asset'],
+      collateral_amount: ['collateralAmount', 'liquidatedCollateralAmount'],
+      debt_token: ['debtToken', 'debtAsset', 'debt_asset'],
+      debt_amount: ['debtAmount', 'debtToCover', 'debt_to_cover'],
+    },
+  },
+  bridge: {
+    required: ['token'],
+    aliases: {
+      token: ['tokenSymbol', 'symbol', 'asset'],
+      amount: ['quantity', 'bridgedAmount', 'bridged_amount'],
+      direction: [],
+      source_chain_id: ['sourceChainId', 'srcChainId', 'from_chain_id', 'fromChainId'],
+      destination_chain_id: ['destinationChainId', 'dstChainId', 'to_chain_id', 'toChainId'],
+    },
+  },
+  remove_liquidity: {
+    required: ['token1', 'token2'],
+    aliases: {
+      token1: ['tokenA', 'token_a'],
+      token2: ['tokenB', 'token_b'],
+      amount1: ['amountA', 'amount_a'],
+      amount2: ['amountB', 'amount_b'],
+    },
+  },
+  unstake: {
+    required: ['token'],
+    aliases: {
+      token: ['tokenSymbol', 'symbol', 'asset', 'unstakedToken', 'unstaked_token'],
+      amount: ['unstakedAmount', 'unstaked_amount', 'quantity'],
+    },
+  },
+  nft_buy: {
+    required: ['collection'],
+    aliases: {
+      collection: ['collectionName', 'collection_name', 'tokenName'],
+      token_id: ['tokenId', 'tokenID', 'nft_id', 'nftId'],
+      price: ['salePrice', 'sale_price'],
+      payment_token: ['paymentToken', 'currency'],
+    },
+  },
+  nft_sell: {
+    required: ['collection'],
+    aliases: {
+      collection: ['collectionName', 'collection_name', 'tokenName'],
+      token_id: ['tokenId', 'tokenID', 'nft_id', 'nftId'],
+      price: ['salePrice', 'sale_price'],
+      payment_token: ['paymentToken', 'currency'],
+    },
+  },
+  claim_rewards: {
+    required: ['token'],
+    aliases: {
+      token: ['tokenSymbol', 'symbol', 'asset', 'rewardToken', 'reward_token'],
+      amount: ['quantity', 'rewardAmount', 'reward_amount'],
+    },
+  },
+  approve: {
+    required: ['token', 'spender'],
+    aliases: {
+      token: ['tokenSymbol', 'symbol', 'asset'],
+      spender: ['operator'],
+      amount: ['allowance', 'value_approved'],
+      is_unlimited: ['isUnlimited', 'unlimited'],
+    },
+  },
+  transfer: {
+    required: ['token'],
+    aliases: {
+      token: ['tokenSymbol', 'symbol', 'asset'],
+      amount: ['quantity'],
+    },
+  },
+};
+
+// Canonical fields stored as strings even when the input uses numbers
+const STRING_FIELDS = new Set([
+  'amount', 'amount_in', 'amount_out', 'amount1', 'amount2', 'price', 'value', 'token_id', 'proposal_id',
+  'collateral_amount', 'debt_amount',
+]);
+
+// Canonical fields stored as numbers even when the input uses strings
+const NUMBER_FIELDS = new Set(['duration_days', 'source_chain_id', 'destination_chain_id']);
+
+/**
+ * TransactionNormalizer implementation
+ * Rewrites aliased detail fields into the canonical shape expected by the analyzer
+ */
+export class TransactionNormalizer implements ITransactionNormalizer {
+  // type -> (raw key -> canonical key), canonical keys map to themselves
+  private readonly fieldLookup = new Map<TransactionType, Map<string, string>>();
+
+  constructor() {
+    (Object.keys(TRANSACTION_DETAIL_SCHEMAS) as TransactionType[]).forEach(type => {
+      const lookup = new Map<string, string>();
+      const fields = { ...BASE_FIELDS, ...TRANSACTION_DETAIL_SCHEMAS[type].aliases };
+
+      Object.entries(fields).forEach(([canonical, aliases]) => {
+        lookup.set(canonical, canonical);
+        aliases.forEach(alias => lookup.set(alias, canonical));
+      });
+
+      this.fieldLookup.set(type, lookup);
+    });
+  }
+
+  /**
+   * Normalize the details of every transaction
+   */
+  normalize(transactions: Transaction[]): Transaction[] {
+    return transactions.map(tx => ({
+      ...tx,
+      details: this.normalizeDetails(tx.type, tx.details),
+    }) as Transaction);
+  }
+
+  /**
+   * Map aliased keys onto canonical fields. A canonical key always wins over
+   * an alias; among aliases the first one listed in the schema wins.
+   * Unrecognised keys are kept as-is.
+   */
+  normalizeDetails<T extends TransactionType>(
+    type: T,
+    details: Record<string, unknown>
+  ): TransactionDetailsMap[T] {
+    const lookup = this.fieldLookup.get(type);
+    const normalized: Record<string, unknown> = {};
+    const priorities = new Map<string, number>();
+
+    Object.keys(details).forEach(key => {
+      const value = details[key];
+      const canonical = lookup?.get(key);
+
+      if (!canonical) {
+        this.assign(normalized, key, value);
+        return;
+      }
+
+      const priority = this.aliasPriority(type, canonical, key);
+      const existing = priorities.get(canonical);
+      if (existing === undefined || priority < existing) {
+        priorities.set(canonical, priority);
+        this.assign(normalized, canonical, this.coerce(canonical, value));
+      }
+    });
+
+    return normalized as TransactionDetailsMap[T];
+  }
+
+  /**
+   * Report missing required fields and unrecognised keys for a details object
+   */
+  inspectDetails(type: TransactionType, details: Record<string, unknown>): DetailFieldReport {
+    const lookup = this.fieldLookup.get(type);
+    const present = new Set<string>();
+    const unknown: string[] = [];
+
+    Object.keys(details).forEach(key => {
+      const canonical = lookup?.get(key);
+      if (canonical) {
+        if (details[key] !== undefined && details[key] !== null) {
+          present.add(canonical);
+        }
+      } else {
+        unknown.push(key);
+      }
+    });
+
+    const schema = TRANSACTION_DETAIL_SCHEMAS[type];
+    const missing = schema ? schema.required.filter(field => !present.has(field)) : [];
+
+    return { missing, unknown };
+  }
+
+  /**
+   * Lower is better: 0 for the canonical key, then alias order in the schema
+   */
+  private aliasPriority(type: TransactionType, canonical: string, key: string): number {
+    if (key === canonical) {
+      return 0;
+    }
+    const aliases = TRANSACTION_DETAIL_SCHEMAS[type].aliases[canonical] || BASE_FIELDS[canonical] || [];
+    return aliases.indexOf(key) + 1;
+  }
+
+  private coerce(field: string, value: unknown): unknown {
+    if (STRING_FIELDS.has(field) && typeof value === 'number') {
+      return String(value);
+    }
+    if (NUMBER_FIELDS.has(field) && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    return value;
+  }
+
+  /**
+   * Define rather than assign so keys like "__proto__" stay plain data
+   */
+  private assign(target: Record<string, unknown>, key: string, value: unknown): void {
+    Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+  }
+}
@@ -0,0 +1,88 @@
+import axios from 'axios';
+import { PriceQuery } from '../types';
+import { PriceOracle } from '../interfaces/PriceOracle';
+
+export interface HttpPriceOracleOptions {
+  timeoutMs?: number; // per request, defaults to 10 seconds
+  concurrency?: number; // requests in flight while prefetching, defaults to 4
+}
+
+/**
+ * Price oracle backed by an HTTP price API with daily granularity
+ * prefetch requests GET <baseUrl>?token=<SYMBOL>&date=<YYYY-MM-DD> once per
+ * token and day, expecting { "price": <USD> }; lookups then read the cache.
+ * A 404 records the token as unpriced on that day; a request that times out
+ * fails the prefetch.
+ */
+export class HttpPriceOracle implements PriceOracle {
+  // "SYMBOL:YYYY-MM-DD" -> USD price, undefined when the API has none
+  private prices = new Map<string, number | undefined>();
+
+  private readonly timeoutMs: number;
+  private readonly concurrency: number;
+
+  constructor(private readonly baseUrl: string, options: HttpPriceOracleOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.concurrency = options.concurrency ?? 4;
+    if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+      throw new Error(`Invalid price API concurrency: ${this.concurrency}. Must be a positive integer`);
+    }
+  }
+
+  getPrice(token: string, timestamp: string): number | undefined {
+    const key = this.key(token, timestamp);
+    return key ? this.prices.get(key) : undefined;
+  }
+
+  /**
+   * Fetch every token/day not cached yet, at most `concurrency` requests at a time
+   */
+  async prefetch(queries: PriceQuery[]): Promise<void> {
+    const pending = new Map<string, { token: string; date: string }>();
+    for (const query of queries) {
+      const date = this.day(query.timestamp);
+      const token = query.token.toUpperCase();
+      if (date !== undefined && !this.prices.has(`${token}:${date}`)) {
+        pending.set(`${token}:${date}`, { token, date });
+      }
+    }
+
+    const queue = [...pending];
+    const worker = async () => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        const [key, { token, date }] = next;
+        this.prices.set(key, await this.fetchPrice(token, date));
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, queue.length) }, worker));
+  }
+
+  private async fetchPrice(token: string, date: string): Promise<number | undefined> {
+    try {
+      const response = await axios.get(this.baseUrl, { params: { token, date }, timeout: this.timeoutMs });
+      const price = response.data?.price;
+      if (typeof price !== 'number' || !Number.isFinite(price)) {
+        throw new Error(`Price API returned no price for ${token} on ${date}`);
+      }
+      return price;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404) {
+          return undefined;
+        }
+        throw new Error(`Failed to fetch price for ${token} on ${date}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private key(token: string, timestamp: string): string | undefined {
+    const date = this.day(timestamp);
+    return date === undefined ? undefined : `${token.toUpperCase()}:${date}`;
+  }
+
+  private day(timestamp: string): string | undefined {
+    const time = new Date(timestamp);
+    return isNaN(time.getTime()) ? undefined : time.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PriceOracle } from '../interfaces/PriceOracle';
+
+export interface PricePoint {
+  timestamp: string; // ISO 8601
+  price: number; // USD
+}
+
+/**
+ * Offline price oracle backed by a local price file
+ * A token's price at a timestamp is its latest point at or before it; there
+ * is no price before a token's first point.
+ *
+ * JSON files map symbols to points:
+ *   { "ETH": [{ "timestamp": "2024-01-01", "price": 2280.5 }, ...] }
+ * CSV files have a token,timestamp,price header:
+ *   token,timestamp,price
+ *   ETH,2024-01-01,2280.5
+ */
+export class PriceFileOracle implements PriceOracle {
+  // uppercase symbol -> [time, price] sorted by time
+  private series = new Map<string, [number, number][]>();
+
+  constructor(prices: Record<string, PricePoint[]>) {
+    Object.entries(prices).forEach(([token, points]) => {
+      if (!Array.isArray(points)) {
+        throw new Error(`Invalid price file: ${token} must map to an array of price points`);
+      }
+      const series = points.map((point, index) => {
+        const time = new Date(point?.timestamp).getTime();
+        if (isNaN(time) || typeof point.price !== 'number' || !Number.isFinite(point.price) || point.price < 0) {
+          throw new Error(
+            `Invalid price file: ${token}[${index}] needs an ISO 8601 timestamp and a non-negative price`
+          );
+        }
+        return [time, point.price] as [number, number];
+      });
+      this.series.set(token.toUpperCase(), series.sort((a, b) => a[0] - b[0]));
+    });
+  }
+
+  /**
+   * Load a .csv or .json price file
+   */
+  static fromFile(filePath: string): PriceFileOracle {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      throw new Error(
+        `Failed to load price file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (path.extname(filePath).toLowerCase() === '.csv') {
+      return new PriceFileOracle(PriceFileOracle.parseCsv(content));
+    }
+
+    let prices: unknown;
+    try {
+      prices = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid price file JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (typeof prices !== 'object' || prices === null || Array.isArray(prices)) {
+      throw new Error('Invalid price file: expected an object mapping token symbols to price points');
+    }
+    return new PriceFileOracle(prices as Record<string, PricePoint[]>);
+  }
+
+  getPrice(token: string, timestamp: string): number | undefined {
+    const series = this.series.get(token.toUpperCase());
+    const time = new Date(timestamp).getTime();
+    if (!series || isNaN(time)) {
+      return undefined;
+    }
+
+    // Binary search for the last point at or before the timestamp
+    let low = 0;
+    let high = series.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (series[mid][0] <= time) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return found >= 0 ? series[found][1] : undefined;
+  }
+
+  private static parseCsv(content: string): Record<string, PricePoint[]> {
+    const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+    const header = (lines.shift() ?? '').toLowerCase().split(',').map(column => column.trim());
+    const columns = ['token', 'timestamp', 'price'].map(name => header.indexOf(name));
+    if (columns.includes(-1)) {
+      throw new Error('Invalid price file: CSV header must include token, timestamp and price');
+    }
+
+    const prices: Record<string, PricePoint[]> = {};
+    lines.forEach((line, index) => {
+      const cells = line.split(',').map(cell => cell.trim());
+      const [token, timestamp, price] = columns.map(column => cells[column]);
+      if (!token) {
+        throw new Error(`Invalid price file: line ${index + 2} has no token`);
+      }
+      (prices[token] = prices[token] || []).push({ timestamp, price: price ? Number(price) : NaN });
+    });
+
+    return prices;
+  }
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, afterAll, beforeAll } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { PriceFileOracle } from './PriceFileOracle';
+import { HttpPriceOracle } from './HttpPriceOracle';
+import { priceQueries } from './valuation';
+import { TransactionAnalyzer } from '../analyzers/TransactionAnalyzer';
+import { ScoreCalculator } from '../calculators/ScoreCalculator';
+import { Transaction } from '../types';
+
+const swap = (hash: string, timestamp: string, amountIn: string): Transaction => ({
+  hash,
+  timestamp,
+  type: 'swap',
+  details: { protocol: 'Uniswap V3', token_in: 'ETH', amount_in: amountIn, token_out: 'PEPE', amount_out: '1000' },
+});
+
+describe('PriceFileOracle', () => {
+  const oracle = new PriceFileOracle({
+    ETH: [
+      { timestamp: '2024-02-01', price: 2300 },
+      { timestamp: '2024-01-01', price: 2200 },
+    ],
+  });
+
+  it('should use the latest price at or before the timestamp', () => {
+    expect(oracle.getPrice('ETH', '2023-12-31T23:59:59Z')).toBeUndefined();
+    expect(oracle.getPrice('eth', '2024-01-15T00:00:00Z')).toBe(2200);
+    expect(oracle.getPrice('ETH', '2024-02-01T00:00:00Z')).toBe(2300);
+    expect(oracle.getPrice('ETH', '2030-01-01T00:00:00Z')).toBe(2300);
+    expect(oracle.getPrice('PEPE', '2024-01-15T00:00:00Z')).toBeUndefined();
+  });
+
+  it('should load CSV and JSON price files', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prices-'));
+    const csv = path.join(dir, 'prices.csv');
+    const json = path.join(dir, 'prices.json');
+    fs.writeFileSync(csv, 'token,timestamp,price\nUSDC,2024-01-01,1\nETH,2024-01-01,2200\n');
+    fs.writeFileSync(json, JSON.stringify({ ETH: [{ timestamp: '2024-01-01', price: 2200 }] }));
+
+    expect(PriceFileOracle.fromFile(csv).getPrice('USDC', '2024-03-01')).toBe(1);
+    expect(PriceFileOracle.fromFile(json).getPrice('ETH', '2024-03-01')).toBe(2200);
+
+    fs.writeFileSync(csv, 'token,timestamp,price\nETH,yesterday,2200\n');
+    expect(() => PriceFileOracle.fromFile(csv)).toThrow('ETH[0] needs an ISO 8601 timestamp');
+    fs.writeFileSync(csv, 'symbol,price\nETH,2200\n');
+    expect(() => PriceFileOracle.fromFile(csv)).toThrow('CSV header must include token, timestamp and price');
+    expect(() => PriceFileOracle.fromFile(path.join(dir, 'missing.json'))).toThrow('Failed to load price file');
+  });
+});
+
+describe('HttpPriceOracle', () => {
+  const requests: string[] = [];
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      requests.push(`${url.searchParams.get('token')} ${url.searchParams.get('date')}`);
+      if (url.searchParams.get('token') === 'SLOW') {
+        setTimeout(() => res.end(JSON.stringify({ price: 1 })), 500);
+      } else if (url.searchParams.get('token') === 'UNI-V2:WETH') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ price: 40 }));
+      } else if (url.searchParams.get('token') === 'ETH') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ price: url.searchParams.get('date') === '2024-01-01' ? 2200 : 2300 }));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/price`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('should fetch each token and day once, then answer from the cache', async () => {
+    const oracle = new HttpPriceOracle(baseUrl);
+    const transactions = [
+      swap('0x1', '2024-01-01T10:00:00Z', '1'),
+      swap('0x2', '2024-01-01T18:00:00Z', '2'),
+    ];
+
+    await oracle.prefetch(priceQueries(transactions, new Date('2024-01-02T00:00:00Z')));
+    await oracle.prefetch([{ token: 'ETH', timestamp: '2024-01-01T23:00:00Z' }]);
+
+    expect(requests.sort()).toEqual(['ETH 2024-01-01', 'ETH 2024-01-02', 'PEPE 2024-01-01', 'PEPE 2024-01-02']);
+    expect(oracle.getPrice('ETH', '2024-01-01T12:00:00Z')).toBe(2200);
+    expect(oracle.getPrice('PEPE', '2024-01-01T12:00:00Z')).toBeUndefined();
+    expect(oracle.getPrice('ETH', '2024-06-01T00:00:00Z')).toBeUndefined();
+  });
+
+  it('should ask for symbols containing a colon whole', async () => {
+    const oracle = new HttpPriceOracle(baseUrl);
+
+    await oracle.prefetch([{ token: 'UNI-V2:WETH', timestamp: '2024-01-01T10:00:00Z' }]);
+
+    expect(requests).toContain('UNI-V2:WETH 2024-01-01');
+    expect(oracle.getPrice('UNI-V2:WETH', '2024-01-01T12:00:00Z')).toBe(40);
+  });
+
+  it('should give up on a request that outlasts the timeout', async () => {
+    const oracle = new HttpPriceOracle(baseUrl, { timeoutMs: 50 });
+
+    await expect(oracle.prefetch([{ token: 'SLOW', timestamp: '2024-01-01T10:00:00Z' }]))
+      .rejects.toThrow('Failed to fetch price for SLOW on 2024-01-01: timeout of 50ms exceeded');
+  });
+});
+
+describe('USD valuation', () => {
+  const oracle = new PriceFileOracle({
+    ETH: [{ timestamp: '2024-01-01', price: 2000 }],
+    USDC: [{ timestamp: '2024-01-01', price: 1 }],
+  });
+  const asOf = new Date('2024-03-01T00:00:00Z');
+
+  it('should value transactions and positions when an oracle is given', () => {
+    const transactions: Transaction[] = [
+      { hash: '0xa', timestamp: '2024-01-05T00:00:00Z', type: 'receive_airdrop', details: { token: 'USDC', amount: '500' } },
+      swap('0x1', '2024-01-10T00:00:00Z', '1'),
+      swap('0x2', '2024-01-11T00:00:00Z', '3'),
+      swap('0x3', '2024-01-12T00:00:00Z', '10'),
+    ];
+
+    const { valuation } = new TransactionAnalyzer(undefined, { asOf }, oracle).analyze(transactions);
+    const unpriced = new TransactionAnalyzer(undefined, { asOf }).analyze(transactions);
+
+    expect(unpriced.valuation).toBeUndefined();
+    expect(valuation?.transactions).toEqual([
+      { hash: '0xa', type: 'receive_airdrop', usdValue: 500 },
+      { hash: '0x1', type: 'swap', usdValue: 2000 },
+      { hash: '0x2', type: 'swap', usdValue: 6000 },
+      { hash: '0x3', type: 'swap', usdValue: 20000 },
+    ]);
+    expect(valuation?.totalVolume).toBe(28500);
+    expect(valuation?.medianTradeSize).toBe(6000);
+    expect(valuation?.largestPosition).toEqual({ token: 'USDC', amount: 500, usdValue: 500, hashes: ['0xa'] });
+  });
+
+  it('should let trade size move the scores', () => {
+    const calculator = new ScoreCalculator();
+    const risk = (amount: string) => calculator.calculateRiskAppetite(
+      new TransactionAnalyzer(undefined, { asOf }, oracle).analyze([swap('0x1', '2024-01-10T00:00:00Z', amount)])
+    );
+
+    // $5 and $5M swaps no longer count the same
+    expect(risk('0.0025')).toBeLessThan(risk('2500'));
+    expect(calculator.explain(
+      new TransactionAnalyzer(undefined, { asOf }, oracle).analyze([swap('0x1', '2024-01-10T00:00:00Z', '2500')])
+    ).riskAppetite.contributions).toContainEqual(expect.objectContaining({
+      signal: 'medianTradeSizeUsd',
+      description: 'median trade size (USD): +15 (capped from +5000)',
+      hashes: ['0x1'],
+    }));
+  });
+});
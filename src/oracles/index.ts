@@ -0,0 +1,3 @@
+export * from './PriceFileOracle.js';
+export * from './HttpPriceOracle.js';
+export * from './valuation.js';
@@ -0,0 +1,68 @@
+import { Transaction, PriceQuery } from '../types';
+import { getChainById } from '../providers/chains.js';
+
+export interface ValueLeg {
+  token: string;
+  amount: number;
+}
+
+/**
+ * Token amounts a transaction moved, in the order they are tried when pricing.
+ * A swap is worth its first priced leg; other transactions the sum of theirs
+ */
+export function valueLegs(tx: Transaction): ValueLeg[] {
+  const leg = (token: string | undefined, amount: string | undefined): ValueLeg[] => {
+    const value = amount === undefined ? NaN : parseFloat(amount);
+    return token && Number.isFinite(value) && value > 0 ? [{ token, amount: value }] : [];
+  };
+
+  switch (tx.type) {
+    case 'swap':
+      return [...leg(tx.details.token_in, tx.details.amount_in), ...leg(tx.details.token_out, tx.details.amount_out)];
+    case 'provide_liquidity':
+    case 'remove_liquidity':
+      return [...leg(tx.details.token1, tx.details.amount1), ...leg(tx.details.token2, tx.details.amount2)];
+    case 'stake':
+    case 'unstake':
+    case 'receive_airdrop':
+    case 'token_hold':
+    case 'borrow':
+    case 'repay':
+    case 'bridge':
+    case 'claim_rewards':
+    case 'transfer':
+      return leg(tx.details.token, tx.details.amount);
+    case 'liquidation':
+      return leg(tx.details.collateral_token, tx.details.collateral_amount);
+    case 'nft_mint':
+      // Mint prices are paid in the chain's native token
+      return leg(nativeSymbol(tx.chainId), tx.details.price);
+    case 'nft_buy':
+    case 'nft_sell':
+      return leg(tx.details.payment_token || nativeSymbol(tx.chainId), tx.details.price);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Every price the analysis of these transactions can look up: each leg at its
+ * transaction's timestamp and each token at the analysis date
+ */
+export function priceQueries(transactions: Transaction[], asOf: Date): PriceQuery[] {
+  const queries = new Map<string, PriceQuery>();
+  const add = (token: string, timestamp: string) => queries.set(`${token}|${timestamp}`, { token, timestamp });
+
+  transactions.forEach(tx => {
+    valueLegs(tx).forEach(({ token }) => {
+      add(token, tx.timestamp);
+      add(token, asOf.toISOString());
+    });
+  });
+
+  return Array.from(queries.values());
+}
+
+function nativeSymbol(chainId: number | undefined): string {
+  return (chainId !== undefined ? getChainById(chainId)?.nativeSymbol : undefined) ?? 'ETH';
+}
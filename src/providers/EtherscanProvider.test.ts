@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { EtherscanProvider } from './EtherscanProvider';
+import { CHAINS } from './chains';
+import { BlockchainService } from '../services/BlockchainService';
+
+const WALLET = '0x742d35cc6634c0532925a3b844bc9e7595f0beb0';
+
+// Etherscan rejects page x offset past 10,000; scaled down here
+const RESULT_WINDOW = 100;
+
+// 250 transactions, two per block
+const history = Array.from({ length: 250 }, (_, i) => ({
+  hash: `0x${(i + 1).toString(16)}`,
+  blockNumber: `${Math.floor(i / 2) + 1}`,
+  timeStamp: `${1704067200 + i * 3600}`,
+  from: WALLET,
+  to: '0xe592427a0aece92de3edee1f18e0157c05861564',
+  value: '0',
+  functionName: 'swapExactETHForTokens(uint256,address[],address,uint256)',
+}));
+
+describe('EtherscanProvider', () => {
+  const requests: Record<string, string>[] = [];
+  let server: http.Server;
+  let provider: EtherscanProvider;
+
+  // A fake explorer paging txlist like Etherscan, result window included; every token list is empty
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const params = Object.fromEntries(new URL(req.url as string, 'http://localhost').searchParams);
+      requests.push(params);
+      const offset = Number(params.offset);
+      const page = Number(params.page);
+      res.setHeader('Content-Type', 'application/json');
+      if (page * offset > RESULT_WINDOW) {
+        res.end(JSON.stringify({ status: '0', message: 'Result window is too large', result: null }));
+        return;
+      }
+      const matching = history.filter(tx => Number(tx.blockNumber) >= Number(params.startblock));
+      const sorted = params.sort === 'asc' ? matching : [...matching].reverse();
+      const result = params.action === 'txlist' ? sorted.slice((page - 1) * offset, page * offset) : [];
+
+      res.end(JSON.stringify(result.length > 0
+        ? { status: '1', message: 'OK', result }
+        : { status: '0', message: 'No transactions found', result: [] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    provider = new EtherscanProvider(CHAINS.ethereum, 'key', `http://localhost:${(server.address() as AddressInfo).port}`);
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('should fetch the newest `limit` transactions in one request', async () => {
+    requests.length = 0;
+    const transactions = await provider.fetchTransactions(WALLET, { limit: 20 });
+
+    expect(transactions).toHaveLength(20);
+    expect(transactions[0].hash).toBe(history[249].hash);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ startblock: '0', page: '1', sort: 'desc' });
+  });
+
+  it('should page through every transaction from the start block, past the limit and the result window', async () => {
+    requests.length = 0;
+    const transactions = await provider.fetchTransactions(WALLET, { limit: 50, startBlock: 20 });
+
+    expect(transactions.map(tx => tx.hash)).toEqual(history.slice(38).map(tx => tx.hash));
+    // Each page starts at the last block of the one before, never past the first page
+    expect(requests.map(request => [request.startblock, request.page, request.sort])).toEqual([
+      ['20', '1', 'asc'], ['44', '1', 'asc'], ['68', '1', 'asc'], ['92', '1', 'asc'], ['116', '1', 'asc'],
+    ]);
+  });
+
+  it('should fail rather than loop when one block holds a full page', async () => {
+    await expect(provider.fetchTransactions(WALLET, { limit: 2, startBlock: 1 }))
+      .rejects.toThrow('Cannot page transactions past block 1 on Ethereum: it holds at least 2 records');
+  });
+
+  it('should not drop new transactions when more arrived than the limit', async () => {
+    const service = new BlockchainService(provider);
+    const transactions = await service.fetchTransactions(WALLET, 10, 100);
+
+    expect(transactions).toHaveLength(52);
+    expect(transactions[transactions.length - 1].hash).toBe(history[198].hash);
+    expect(await service.fetchTransactions(WALLET, 10)).toHaveLength(10);
+  });
+});
@@ -0,0 +1,159 @@
+import axios from 'axios';
+import { ChainConfig, EtherscanTransaction, EtherscanTokenTransfer, FetchOptions, TokenStandard } from '../types';
+import { ChainDataProvider } from '../interfaces/ChainDataProvider';
+
+const TRANSFER_ACTIONS: Record<TokenStandard, string> = {
+  erc20: 'tokentx',
+  erc721: 'tokennfttx',
+  erc1155: 'token1155tx',
+};
+
+interface ExplorerResponse<T> {
+  status: string; // '1' on success
+  message: string;
+  result: T;
+}
+
+/**
+ * Provider for Etherscan-compatible explorer APIs
+ * (Etherscan, Polygonscan, Arbiscan, Basescan, Optimistic Etherscan)
+ */
+export class EtherscanProvider implements ChainDataProvider {
+  readonly chain: ChainConfig;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(chain: ChainConfig, apiKey: string = 'YourApiKeyToken', baseUrl: string = chain.explorerApiUrl) {
+    this.chain = chain;
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Fetch the normal transaction list for a wallet, newest first,
+   * or everything from options.startBlock on, oldest first
+   */
+  async fetchTransactions(walletAddress: string, options: FetchOptions = {}): Promise<EtherscanTransaction[]> {
+    return this.list<EtherscanTransaction>('transactions', {
+      module: 'account',
+      action: 'txlist',
+      address: walletAddress,
+    }, options);
+  }
+
+  /**
+   * Fetch token transfers of one standard to or from a wallet, newest first,
+   * or everything from options.startBlock on, oldest first
+   */
+  async fetchTokenTransfers(
+    walletAddress: string,
+    standard: TokenStandard,
+    options: FetchOptions = {}
+  ): Promise<EtherscanTokenTransfer[]> {
+    return this.list<EtherscanTokenTransfer>(`${standard} transfers`, {
+      module: 'account',
+      action: TRANSFER_ACTIONS[standard],
+      address: walletAddress,
+    }, options);
+  }
+
+  /**
+   * Fetch the native balance in wei
+   */
+  async fetchBalance(walletAddress: string): Promise<string> {
+    const response = await this.request<string>('balance', {
+      module: 'account',
+      action: 'balance',
+      address: walletAddress,
+      tag: 'latest',
+    });
+
+    if (response.status !== '1') {
+      throw this.apiError(response);
+    }
+    return response.result;
+  }
+
+  /**
+   * The newest `limit` records, or with a startBlock every record from that
+   * block on, oldest first `limit` at a time until a page comes back short.
+   * Explorers cap page x offset at 10,000, so each request asks for the first
+   * page from the last block seen so far and drops the records it repeats.
+   * An incremental fetch must not drop anything: the analyzer rejects records
+   * older than those it has already seen, so a skipped one would be lost for good
+   */
+  private async list<T extends { blockNumber?: string }>(
+    what: string,
+    params: Record<string, string>,
+    options: FetchOptions
+  ): Promise<T[]> {
+    const limit = options.limit ?? 100;
+    if (options.startBlock === undefined) {
+      return this.page<T>(what, { ...params, startblock: 0, endblock: 99999999, page: 1, offset: limit, sort: 'desc' });
+    }
+
+    const records: T[] = [];
+    const seen = new Set<string>();
+    let startBlock = options.startBlock;
+    for (;;) {
+      const batch = await this.page<T>(what, {
+        ...params,
+        startblock: startBlock,
+        endblock: 99999999,
+        page: 1,
+        offset: limit,
+        sort: 'asc',
+      });
+      batch.forEach(record => {
+        const key = JSON.stringify(record);
+        if (!seen.has(key)) {
+          seen.add(key);
+          records.push(record);
+        }
+      });
+      if (batch.length < limit) {
+        return records;
+      }
+
+      const lastBlock = Number(batch[batch.length - 1].blockNumber);
+      if (!(lastBlock > startBlock)) {
+        throw new Error(
+          `Cannot page ${what} past block ${startBlock} on ${this.chain.label}: ` +
+          `it holds at least ${limit} records; fetch with a larger limit`
+        );
+      }
+      startBlock = lastBlock;
+    }
+  }
+
+  private async page<T>(what: string, params: Record<string, string | number>): Promise<T[]> {
+    const response = await this.request<T[]>(what, params);
+
+    if (response.status !== '1') {
+      // Explorers report an empty history as an error
+      if (response.message === 'No transactions found') {
+        return [];
+      }
+      throw this.apiError(response);
+    }
+    return response.result;
+  }
+
+  private apiError(response: ExplorerResponse<unknown>): Error {
+    return new Error(`${this.chain.label} explorer API error: ${response.message}`);
+  }
+
+  private async request<T>(what: string, params: Record<string, string | number>): Promise<ExplorerResponse<T>> {
+    try {
+      const response = await axios.get<ExplorerResponse<T>>(this.baseUrl, {
+        params: { ...params, apikey: this.apiKey }
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Failed to fetch ${what}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+}
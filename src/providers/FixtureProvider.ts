@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import { ChainConfig, EtherscanTransaction, EtherscanTokenTransfer, FetchOptions, TokenStandard } from '../types';
+import { ChainDataProvider } from '../interfaces/ChainDataProvider';
+
+/**
+ * Fixture file layout: raw explorer data keyed by wallet address
+ */
+export interface FixtureData {
+  [walletAddress: string]: {
+    transactions: EtherscanTransaction[];
+    tokenTransfers?: Partial<Record<TokenStandard, EtherscanTokenTransfer[]>>;
+    balance?: string; // wei
+  };
+}
+
+/**
+ * Provider that serves recorded explorer data from a JSON file or object
+ * Used for offline tests and demos
+ */
+export class FixtureProvider implements ChainDataProvider {
+  readonly chain: ChainConfig;
+  private source: string | FixtureData;
+  private data: FixtureData | null = null;
+
+  constructor(chain: ChainConfig, source: string | FixtureData) {
+    this.chain = chain;
+    this.source = source;
+  }
+
+  async fetchTransactions(walletAddress: string, options: FetchOptions = {}): Promise<EtherscanTransaction[]> {
+    const transactions = this.fromBlock(this.lookup(walletAddress)?.transactions ?? [], options.startBlock);
+    return this.newest(transactions, options);
+  }
+
+  async fetchTokenTransfers(
+    walletAddress: string,
+    standard: TokenStandard,
+    options: FetchOptions = {}
+  ): Promise<EtherscanTokenTransfer[]> {
+    const transfers = this.fromBlock(this.lookup(walletAddress)?.tokenTransfers?.[standard] ?? [], options.startBlock);
+    return this.newest(transfers, options);
+  }
+
+  async fetchBalance(walletAddress: string): Promise<string> {
+    return this.lookup(walletAddress)?.balance ?? '0';
+  }
+
+  /**
+   * Newest first, the latest `limit` of them, or all of them for an
+   * incremental fetch from a startBlock, like the explorer does
+   */
+  private newest<T extends { timeStamp: string }>(records: T[], options: FetchOptions): T[] {
+    const newestFirst = [...records].sort((a, b) => parseInt(b.timeStamp) - parseInt(a.timeStamp));
+    return options.startBlock !== undefined ? newestFirst : newestFirst.slice(0, options.limit ?? 100);
+  }
+
+  /**
+   * Records from startBlock on; records without a block number are always kept
+   */
+  private fromBlock<T extends { blockNumber?: string }>(records: T[], startBlock?: number): T[] {
+    if (startBlock === undefined) {
+      return records;
+    }
+    return records.filter(record => record.blockNumber === undefined || parseInt(record.blockNumber) >= startBlock);
+  }
+
+  private lookup(walletAddress: string) {
+    const data = this.load();
+    const key = Object.keys(data).find(k => k.toLowerCase() === walletAddress.toLowerCase());
+    return key ? data[key] : undefined;
+  }
+
+  private load(): FixtureData {
+    if (this.data) {
+      return this.data;
+    }
+
+    if (typeof this.source !== 'string') {
+      this.data = this.source;
+      return this.data;
+    }
+
+    try {
+      this.data = JSON.parse(fs.readFileSync(this.source, 'utf-8')) as FixtureData;
+    } catch (error) {
+      throw new Error(
+        `Failed to load fixture ${this.source}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    return this.data;
+  }
+}
@@ -0,0 +1,297 @@
+import axios from 'axios';
+import { ChainConfig, EtherscanTransaction, EtherscanTokenTransfer, FetchOptions, TokenStandard } from '../types';
+import { ChainDataProvider } from '../interfaces/ChainDataProvider';
+
+interface RpcTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: string;
+  input: string;
+}
+
+interface RpcBlock {
+  number: string;
+  timestamp: string;
+  transactions: RpcTransaction[];
+}
+
+interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+}
+
+interface TokenMetadata {
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+// keccak256('Transfer(address,address,uint256)'), shared by ERC-20 and ERC-721
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+// keccak256('TransferSingle(address,address,address,uint256,uint256)')
+const TRANSFER_SINGLE_TOPIC = '0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62';
+
+const SYMBOL_SELECTOR = '0x95d89b41';
+const NAME_SELECTOR = '0x06fdde03';
+const DECIMALS_SELECTOR = '0x313ce567';
+
+interface RpcResponse<T> {
+  id: number;
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Provider backed by a plain JSON-RPC node
+ * Nodes cannot list transactions by address, so recent blocks are scanned
+ * newest first until `limit` matches are found or `maxBlocks` is exhausted.
+ * With a startBlock every block from it on is scanned and every match kept;
+ * a startBlock further back than `maxBlocks` is an error rather than a gap.
+ */
+export class JsonRpcProvider implements ChainDataProvider {
+  readonly chain: ChainConfig;
+  private rpcUrl: string;
+  private maxBlocks: number;
+  private batchSize: number;
+  private tokenMetadata = new Map<string, TokenMetadata>();
+
+  constructor(chain: ChainConfig, rpcUrl: string = chain.rpcUrl, maxBlocks: number = 1000, batchSize: number = 20) {
+    this.chain = chain;
+    this.rpcUrl = rpcUrl;
+    this.maxBlocks = maxBlocks;
+    this.batchSize = batchSize;
+  }
+
+  async fetchTransactions(walletAddress: string, options: FetchOptions = {}): Promise<EtherscanTransaction[]> {
+    const limit = options.limit ?? 100;
+    const address = walletAddress.toLowerCase();
+    const latest = parseInt(await this.call<string>('eth_blockNumber', []), 16);
+    const oldest = this.oldestBlock(latest, options);
+    const complete = options.startBlock !== undefined;
+    const matches: EtherscanTransaction[] = [];
+
+    for (let end = latest; end >= oldest && (complete || matches.length < limit); end -= this.batchSize) {
+      const numbers: number[] = [];
+      for (let n = end; n > end - this.batchSize && n >= oldest; n--) {
+        numbers.push(n);
+      }
+
+      const blocks = await this.batch<RpcBlock | null>(
+        numbers.map(n => ({ method: 'eth_getBlockByNumber', params: [`0x${n.toString(16)}`, true] }))
+      );
+
+      for (const block of blocks) {
+        if (!block) continue;
+        for (const tx of block.transactions) {
+          if (tx.from?.toLowerCase() === address || tx.to?.toLowerCase() === address) {
+            matches.push(this.toEtherscanTransaction(tx, block));
+          }
+        }
+      }
+    }
+
+    return complete ? matches : matches.slice(0, limit);
+  }
+
+  /**
+   * Rebuild explorer-style token transfers from event logs in the scanned range
+   * ERC-20 and ERC-721 share the Transfer event; ERC-721 indexes the token ID
+   */
+  async fetchTokenTransfers(
+    walletAddress: string,
+    standard: TokenStandard,
+    options: FetchOptions = {}
+  ): Promise<EtherscanTokenTransfer[]> {
+    const latest = parseInt(await this.call<string>('eth_blockNumber', []), 16);
+    const range = {
+      fromBlock: `0x${this.oldestBlock(latest, options).toString(16)}`,
+      toBlock: `0x${latest.toString(16)}`,
+    };
+    const padded = `0x${'0'.repeat(24)}${walletAddress.toLowerCase().slice(2)}`;
+
+    const topicFilters = standard === 'erc1155'
+      ? [[TRANSFER_SINGLE_TOPIC, null, padded], [TRANSFER_SINGLE_TOPIC, null, null, padded]]
+      : [[TRANSFER_TOPIC, padded], [TRANSFER_TOPIC, null, padded]];
+
+    const logGroups = await this.batch<RpcLog[]>(
+      topicFilters.map(topics => ({ method: 'eth_getLogs', params: [{ ...range, topics }] }))
+    );
+
+    const expectedTopics = standard === 'erc20' ? 3 : 4;
+    const seen = new Set<string>();
+    const logs = logGroups.flat().filter(log => {
+      const key = `${log.transactionHash}:${log.topics.join()}:${log.data}`;
+      if (log.topics.length !== expectedTopics || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    const timestamps = await this.blockTimestamps(logs.map(log => log.blockNumber));
+    await this.loadTokenMetadata(logs.map(log => log.address.toLowerCase()));
+
+    const transfers = logs
+      .map(log => this.toEtherscanTokenTransfer(log, standard, timestamps.get(log.blockNumber) ?? 0))
+      .sort((a, b) => parseInt(b.timeStamp) - parseInt(a.timeStamp));
+    return options.startBlock !== undefined ? transfers : transfers.slice(0, options.limit ?? 100);
+  }
+
+  /**
+   * First block to scan: the fetch's startBlock, else `maxBlocks` back from the latest
+   */
+  private oldestBlock(latest: number, options: FetchOptions): number {
+    const scanLimit = Math.max(0, latest - this.maxBlocks + 1);
+    if (options.startBlock === undefined) {
+      return scanLimit;
+    }
+    if (options.startBlock < scanLimit) {
+      throw new Error(
+        `Cannot scan ${this.chain.label} back to block ${options.startBlock}: ` +
+        `at most ${this.maxBlocks} blocks are scanned over JSON-RPC; use an explorer provider or analyze the full history`
+      );
+    }
+    return options.startBlock;
+  }
+
+  async fetchBalance(walletAddress: string): Promise<string> {
+    const balanceHex = await this.call<string>('eth_getBalance', [walletAddress, 'latest']);
+    return BigInt(balanceHex).toString();
+  }
+
+  private toEtherscanTransaction(tx: RpcTransaction, block: RpcBlock): EtherscanTransaction {
+    return {
+      hash: tx.hash,
+      timeStamp: parseInt(block.timestamp, 16).toString(),
+      from: tx.from,
+      to: tx.to || '',
+      value: BigInt(tx.value).toString(),
+      blockNumber: parseInt(block.number, 16).toString(),
+      methodId: tx.input && tx.input.length >= 10 ? tx.input.slice(0, 10) : '0x',
+      input: tx.input,
+    };
+  }
+
+  private toEtherscanTokenTransfer(log: RpcLog, standard: TokenStandard, timestamp: number): EtherscanTokenTransfer {
+    const metadata = this.tokenMetadata.get(log.address.toLowerCase());
+    const topicAddress = (topic: string) => `0x${topic.slice(26)}`;
+    const transfer: EtherscanTokenTransfer = {
+      hash: log.transactionHash,
+      timeStamp: timestamp.toString(),
+      from: '',
+      to: '',
+      contractAddress: log.address.toLowerCase(),
+      tokenSymbol: metadata?.symbol ?? '',
+      tokenName: metadata?.name ?? '',
+      blockNumber: parseInt(log.blockNumber, 16).toString(),
+    };
+
+    if (standard === 'erc1155') {
+      // TransferSingle(operator, from, to, id, value): id and value live in data
+      transfer.from = topicAddress(log.topics[2]);
+      transfer.to = topicAddress(log.topics[3]);
+      transfer.tokenID = BigInt(`0x${log.data.slice(2, 66)}`).toString();
+      transfer.tokenValue = BigInt(`0x${log.data.slice(66, 130)}`).toString();
+    } else {
+      transfer.from = topicAddress(log.topics[1]);
+      transfer.to = topicAddress(log.topics[2]);
+      if (standard === 'erc721') {
+        transfer.tokenID = BigInt(log.topics[3]).toString();
+      } else {
+        transfer.value = BigInt(log.data === '0x' ? 0 : log.data).toString();
+        transfer.tokenDecimal = (metadata?.decimals ?? 18).toString();
+      }
+    }
+
+    return transfer;
+  }
+
+  private async blockTimestamps(blockNumbers: string[]): Promise<Map<string, number>> {
+    const unique = Array.from(new Set(blockNumbers));
+    const timestamps = new Map<string, number>();
+
+    for (let i = 0; i < unique.length; i += this.batchSize) {
+      const chunk = unique.slice(i, i + this.batchSize);
+      const blocks = await this.batch<RpcBlock | null>(
+        chunk.map(n => ({ method: 'eth_getBlockByNumber', params: [n, false] }))
+      );
+      blocks.forEach((block, j) => {
+        if (block) timestamps.set(chunk[j], parseInt(block.timestamp, 16));
+      });
+    }
+
+    return timestamps;
+  }
+
+  /**
+   * Look up symbol, name and decimals for contracts not seen before
+   * Contracts that revert fall back to empty strings and 18 decimals
+   */
+  private async loadTokenMetadata(contracts: string[]): Promise<void> {
+    const missing = Array.from(new Set(contracts)).filter(c => !this.tokenMetadata.has(c));
+
+    for (const contract of missing) {
+      const [symbol, name, decimals] = await Promise.all(
+        [SYMBOL_SELECTOR, NAME_SELECTOR, DECIMALS_SELECTOR].map(data =>
+          this.call<string>('eth_call', [{ to: contract, data }, 'latest']).catch(() => '0x')
+        )
+      );
+
+      this.tokenMetadata.set(contract, {
+        symbol: this.decodeString(symbol),
+        name: this.decodeString(name),
+        decimals: decimals.length > 2 ? Number(BigInt(decimals)) : 18,
+      });
+    }
+  }
+
+  /**
+   * Decode an ABI string return value (or a legacy bytes32 one)
+   */
+  private decodeString(hex: string): string {
+    const body = hex.slice(2);
+    if (body.length === 0) return '';
+
+    let bytes: string;
+    if (body.length === 64) {
+      bytes = body.replace(/(00)+$/, '');
+    } else {
+      const offset = parseInt(body.slice(0, 64), 16) * 2;
+      const length = parseInt(body.slice(offset, offset + 64), 16) * 2;
+      bytes = body.slice(offset + 64, offset + 64 + length);
+    }
+
+    return Buffer.from(bytes, 'hex').toString('utf-8');
+  }
+
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const [result] = await this.batch<T>([{ method, params }]);
+    return result;
+  }
+
+  private async batch<T>(calls: Array<{ method: string; params: unknown[] }>): Promise<T[]> {
+    try {
+      const response = await axios.post<RpcResponse<T>[]>(
+        this.rpcUrl,
+        calls.map((c, id) => ({ jsonrpc: '2.0', id, method: c.method, params: c.params }))
+      );
+
+      // Responses to a batch may arrive in any order
+      const byId = new Map(response.data.map(r => [r.id, r]));
+      return calls.map((c, id) => {
+        const r = byId.get(id);
+        if (!r || r.error) {
+          throw new Error(`JSON-RPC error on ${this.chain.label} (${c.method}): ${r?.error?.message ?? 'no response'}`);
+        }
+        return r.result as T;
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(`Failed to reach ${this.chain.label} RPC: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { ChainConfig, ChainName } from '../types';
+
+/**
+ * Supported EVM chains and their default data endpoints
+ */
+export const CHAINS: Record<ChainName, ChainConfig> = {
+  ethereum: {
+    name: 'ethereum',
+    chainId: 1,
+    label: 'Ethereum',
+    nativeSymbol: 'ETH',
+    explorerApiUrl: 'https://api.etherscan.io/api',
+    explorerApiKeyEnv: 'ETHERSCAN_API_KEY',
+    rpcUrl: 'https://cloudflare-eth.com',
+  },
+  polygon: {
+    name: 'polygon',
+    chainId: 137,
+    label: 'Polygon',
+    nativeSymbol: 'POL',
+    explorerApiUrl: 'https://api.polygonscan.com/api',
+    explorerApiKeyEnv: 'POLYGONSCAN_API_KEY',
+    rpcUrl: 'https://polygon-rpc.com',
+  },
+  arbitrum: {
+    name: 'arbitrum',
+    chainId: 42161,
+    label: 'Arbitrum One',
+    nativeSymbol: 'ETH',
+    explorerApiUrl: 'https://api.arbiscan.io/api',
+    explorerApiKeyEnv: 'ARBISCAN_API_KEY',
+    rpcUrl: 'https://arb1.arbitrum.io/rpc',
+  },
+  base: {
+    name: 'base',
+    chainId: 8453,
+    label: 'Base',
+    nativeSymbol: 'ETH',
+    explorerApiUrl: 'https://api.basescan.org/api',
+    explorerApiKeyEnv: 'BASESCAN_API_KEY',
+    rpcUrl: 'https://mainnet.base.org',
+  },
+  optimism: {
+    name: 'optimism',
+    chainId: 10,
+    label: 'OP Mainnet',
+    nativeSymbol: 'ETH',
+    explorerApiUrl: 'https://api-optimistic.etherscan.io/api',
+    explorerApiKeyEnv: 'OPTIMISTIC_ETHERSCAN_API_KEY',
+    rpcUrl: 'https://mainnet.optimism.io',
+  },
+};
+
+export const SUPPORTED_CHAINS = Object.keys(CHAINS) as ChainName[];
+
+/**
+ * Look up a chain by name, throwing for unsupported chains
+ */
+export function getChain(name: string): ChainConfig {
+  if (!SUPPORTED_CHAINS.includes(name as ChainName)) {
+    throw new Error(`Unsupported chain: ${name}. Must be one of: ${SUPPORTED_CHAINS.join(', ')}`);
+  }
+  return CHAINS[name as ChainName];
+}
+
+/**
+ * Look up a chain by its EVM chain ID
+ */
+export function getChainById(chainId: number): ChainConfig | undefined {
+  return SUPPORTED_CHAINS.map(name => CHAINS[name]).find(chain => chain.chainId === chainId);
+}
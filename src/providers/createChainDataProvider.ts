@@ -0,0 +1,44 @@
+import { ProviderKind } from '../types';
+import { ChainDataProvider } from '../interfaces/ChainDataProvider';
+import { getChain } from './chains.js';
+import { EtherscanProvider } from './EtherscanProvider.js';
+import { JsonRpcProvider } from './JsonRpcProvider.js';
+import { FixtureProvider, FixtureData } from './FixtureProvider.js';
+
+export const PROVIDER_KINDS: ProviderKind[] = ['explorer', 'rpc', 'fixture'];
+
+export interface ProviderOptions {
+  provider?: ProviderKind;
+  apiKey?: string;
+  rpcUrl?: string;
+  fixture?: string | FixtureData;
+}
+
+/**
+ * Build the data provider for a chain
+ * Explorer API keys fall back to the chain's env var, then ETHERSCAN_API_KEY
+ */
+export function createChainDataProvider(chainName: string, options: ProviderOptions = {}): ChainDataProvider {
+  const chain = getChain(chainName);
+  const kind = options.provider ?? 'explorer';
+
+  switch (kind) {
+    case 'explorer':
+      return new EtherscanProvider(
+        chain,
+        options.apiKey ?? process.env[chain.explorerApiKeyEnv] ?? process.env.ETHERSCAN_API_KEY
+      );
+
+    case 'rpc':
+      return new JsonRpcProvider(chain, options.rpcUrl ?? chain.rpcUrl);
+
+    case 'fixture':
+      if (!options.fixture) {
+        throw new Error('Fixture provider requires a fixture file');
+      }
+      return new FixtureProvider(chain, options.fixture);
+
+    default:
+      throw new Error(`Unsupported provider: ${kind}. Must be one of: ${PROVIDER_KINDS.join(', ')}`);
+  }
+}
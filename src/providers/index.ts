@@ -0,0 +1,5 @@
+export * from './chains.js';
+export * from './EtherscanProvider.js';
+export * from './JsonRpcProvider.js';
+export * from './FixtureProvider.js';
+export * from './createChainDataProvider.js';
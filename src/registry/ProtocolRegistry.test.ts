@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProtocolRegistry } from './ProtocolRegistry';
+import { TransactionAnalyzer } from '../analyzers/TransactionAnalyzer';
+import { RegistryData, Transaction } from '../types';
+
+const customData: RegistryData = {
+  version: 'test-1',
+  protocols: [
+    {
+      name: 'Velodrome',
+      category: 'dex',
+      launchDate: '2022-06-02',
+      established: true,
+      contracts: [{ chain: 'optimism', address: '0xa062ae8a9c5e11aaa026fc2670b0d65ccc8b2858', label: 'Velodrome V2' }],
+    },
+  ],
+  tokens: [
+    { symbol: 'VELO', name: 'Velodrome', classification: 'blue_chip', addresses: {} },
+    { symbol: 'USDC', name: 'USD Coin', classification: 'stablecoin', addresses: {} },
+  ],
+};
+
+describe('ProtocolRegistry', () => {
+  const registry = new ProtocolRegistry();
+
+  it('should resolve contracts per chain', () => {
+    const router = '0x7A250d5630B4cF539739dF2C5dAcb4c659F2488D';
+
+    expect(registry.findContract('ethereum', router)?.contract.label).toBe('Uniswap V2');
+    expect(registry.findContract('ethereum', router)?.protocol.category).toBe('dex');
+    expect(registry.findContract('polygon', router)).toBeUndefined();
+    expect(registry.nameForAddress('base', '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913')).toBe('USDC');
+    expect(registry.nameForAddress('ethereum', '0x0000000000000000000000000000000000000001')).toBeUndefined();
+  });
+
+  it('should match protocols by name or contract label', () => {
+    expect(registry.findProtocol('aave v3')?.name).toBe('Aave');
+    expect(registry.isEstablished('Uniswap V2')).toBe(true);
+    expect(registry.isEstablished('Blur')).toBe(false);
+    expect(registry.isEstablished('Unknown Protocol')).toBe(false);
+    expect(registry.findProtocol('Lido')?.launchDate).toBe('2020-12-18');
+  });
+
+  it('should classify tokens', () => {
+    expect(registry.isBlueChip('WETH')).toBe(true);
+    expect(registry.isBlueChip('USDC')).toBe(false);
+    expect(registry.isStablecoin('DAI')).toBe(true);
+    expect(registry.findToken('steth')?.classification).toBe('lsd');
+    expect(registry.protocolsInCategory('bridge').map(p => p.name)).toContain('Across');
+  });
+
+  it('should load a replacement registry from a file', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'registry-')), 'registry.json');
+    fs.writeFileSync(file, JSON.stringify(customData));
+
+    const loaded = ProtocolRegistry.fromFile(file);
+
+    expect(loaded.version).toBe('test-1');
+    expect(loaded.nameForAddress('optimism', '0xa062ae8a9c5e11aaa026fc2670b0d65ccc8b2858')).toBe('Velodrome V2');
+    expect(loaded.isBlueChip('WETH')).toBe(false);
+  });
+
+  it('should reject malformed registry data', () => {
+    expect(() => new ProtocolRegistry({ ...customData, version: undefined } as unknown as RegistryData))
+      .toThrow('version is required');
+    expect(() => new ProtocolRegistry({
+      ...customData,
+      protocols: [{ ...customData.protocols[0], category: 'casino' } as unknown as RegistryData['protocols'][0]],
+    })).toThrow('category must be one of');
+    expect(() => new ProtocolRegistry({
+      ...customData,
+      protocols: [{ ...customData.protocols[0], launchDate: 'soon' }],
+    })).toThrow('launchDate must be an ISO 8601 date');
+    expect(() => ProtocolRegistry.fromFile('/nonexistent/registry.json')).toThrow('Failed to load protocol registry');
+  });
+
+  it('should drive the analyzer token and protocol classifications', () => {
+    const transactions: Transaction[] = [
+      {
+        hash: '0x1',
+        timestamp: '2024-01-01T00:00:00Z',
+        type: 'stake',
+        details: { protocol: 'Velodrome V2', token: 'USDC' },
+      },
+      {
+        hash: '0x2',
+        timestamp: '2024-01-02T00:00:00Z',
+        type: 'token_hold',
+        details: { token: 'VELO', start_date: '2024-01-01T00:00:00Z', end_date: '2024-01-11T00:00:00Z' },
+      },
+    ];
+
+    const bundled = new TransactionAnalyzer().analyze(transactions);
+    const custom = new TransactionAnalyzer(new ProtocolRegistry(customData)).analyze(transactions);
+
+    expect(bundled.stableStakes).toHaveLength(0);
+    expect(bundled.blueChipHoldings).toHaveLength(0);
+    expect(custom.stableStakes).toEqual([{ token: 'USDC', protocol: 'Velodrome V2', isEstablished: true, hash: '0x1' }]);
+    expect(custom.blueChipHoldings).toEqual([{ token: 'VELO', durationDays: 10, isBlueChip: true, hash: '0x2' }]);
+  });
+});
@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import {
+  ChainName,
+  ProtocolEntry,
+  ProtocolContract,
+  ProtocolCategory,
+  TokenEntry,
+  TokenClassification,
+  RegistryData,
+} from '../types';
+import bundledRegistry from './registry.json' with { type: 'json' };
+import { SUPPORTED_CHAINS } from '../providers/chains.js';
+
+const PROTOCOL_CATEGORIES: ProtocolCategory[] = ['dex', 'lending', 'lsd', 'bridge', 'nft_marketplace'];
+const TOKEN_CLASSIFICATIONS: TokenClassification[] = ['blue_chip', 'stablecoin', 'lsd', 'governance'];
+
+/**
+ * Versioned registry of protocols and tokens
+ * Single source for contract addresses, protocol names and categories,
+ * launch dates and token classifications. Starts with the bundled
+ * registry.json; a replacement can be loaded from a file with the same layout.
+ */
+export class ProtocolRegistry {
+  readonly version: string;
+  private protocols: ProtocolEntry[];
+  private tokens: TokenEntry[];
+  // "chain:address" -> contract / token
+  private contractsByAddress = new Map<string, { protocol: ProtocolEntry; contract: ProtocolContract }>();
+  private tokensByAddress = new Map<string, TokenEntry>();
+  // lowercase protocol name or contract label -> protocol
+  private protocolsByName = new Map<string, ProtocolEntry>();
+  // uppercase symbol -> token
+  private tokensBySymbol = new Map<string, TokenEntry>();
+
+  constructor(data: RegistryData = bundledRegistry as RegistryData) {
+    ProtocolRegistry.check(data);
+    this.version = data.version;
+    this.protocols = data.protocols;
+    this.tokens = data.tokens;
+
+    this.protocols.forEach(protocol => {
+      this.protocolsByName.set(protocol.name.toLowerCase(), protocol);
+      protocol.contracts.forEach(contract => {
+        this.contractsByAddress.set(this.addressKey(contract.chain, contract.address), { protocol, contract });
+        if (!this.protocolsByName.has(contract.label.toLowerCase())) {
+          this.protocolsByName.set(contract.label.toLowerCase(), protocol);
+        }
+      });
+    });
+
+    this.tokens.forEach(token => {
+      this.tokensBySymbol.set(token.symbol.toUpperCase(), token);
+      (Object.keys(token.addresses) as ChainName[]).forEach(chain => {
+        this.tokensByAddress.set(this.addressKey(chain, token.addresses[chain] as string), token);
+      });
+    });
+  }
+
+  /**
+   * Build a registry from a JSON file with the same layout as registry.json
+   */
+  static fromFile(filePath: string): ProtocolRegistry {
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Failed to load protocol registry ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    return new ProtocolRegistry(data as RegistryData);
+  }
+
+  /**
+   * Protocol owning the contract at an address on a chain, with the
+   * contract's label (e.g. "Uniswap V3")
+   */
+  findContract(chain: ChainName, address: string): { protocol: ProtocolEntry; contract: ProtocolContract } | undefined {
+    return address ? this.contractsByAddress.get(this.addressKey(chain, address)) : undefined;
+  }
+
+  /**
+   * Look up a protocol by its name or any of its contract labels, case-insensitively
+   */
+  findProtocol(name: string): ProtocolEntry | undefined {
+    return name ? this.protocolsByName.get(name.toLowerCase()) : undefined;
+  }
+
+  findToken(symbol: string): TokenEntry | undefined {
+    return symbol ? this.tokensBySymbol.get(symbol.toUpperCase()) : undefined;
+  }
+
+  findTokenByAddress(chain: ChainName, address: string): TokenEntry | undefined {
+    return address ? this.tokensByAddress.get(this.addressKey(chain, address)) : undefined;
+  }
+
+  /**
+   * Display name for a contract address: the protocol contract label,
+   * else the token symbol, else undefined
+   */
+  nameForAddress(chain: ChainName, address: string): string | undefined {
+    return this.findContract(chain, address)?.contract.label ?? this.findTokenByAddress(chain, address)?.symbol;
+  }
+
+  isEstablished(protocolName: string): boolean {
+    return this.findProtocol(protocolName)?.established === true;
+  }
+
+  isBlueChip(symbol: string): boolean {
+    return this.findToken(symbol)?.classification === 'blue_chip';
+  }
+
+  isStablecoin(symbol: string): boolean {
+    return this.findToken(symbol)?.classification === 'stablecoin';
+  }
+
+  protocolsInCategory(category: ProtocolCategory): ProtocolEntry[] {
+    return this.protocols.filter(protocol => protocol.category === category);
+  }
+
+  private addressKey(chain: ChainName, address: string): string {
+    return `${chain}:${address.toLowerCase()}`;
+  }
+
+  /**
+   * Reject registry data that does not match the expected layout
+   */
+  private static check(data: RegistryData): void {
+    if (typeof data !== 'object' || data === null || typeof data.version !== 'string') {
+      throw new Error('Invalid protocol registry: version is required');
+    }
+    if (!Array.isArray(data.protocols) || !Array.isArray(data.tokens)) {
+      throw new Error('Invalid protocol registry: protocols and tokens must be arrays');
+    }
+
+    data.protocols.forEach(protocol => {
+      if (!protocol.name || !PROTOCOL_CATEGORIES.includes(protocol.category)) {
+        throw new Error(
+          `Invalid protocol registry entry ${protocol.name ?? '(unnamed)'}: category must be one of ${PROTOCOL_CATEGORIES.join(', ')}`
+        );
+      }
+      if (isNaN(new Date(protocol.launchDate).getTime())) {
+        throw new Error(`Invalid protocol registry entry ${protocol.name}: launchDate must be an ISO 8601 date`);
+      }
+      if (!Array.isArray(protocol.contracts)) {
+        throw new Error(`Invalid protocol registry entry ${protocol.name}: contracts must be an array`);
+      }
+      if (protocol.destinationChain !== undefined && !SUPPORTED_CHAINS.includes(protocol.destinationChain)) {
+        throw new Error(
+          `Invalid protocol registry entry ${protocol.name}: destinationChain must be one of ${SUPPORTED_CHAINS.join(', ')}`
+        );
+      }
+    });
+
+    data.tokens.forEach(token => {
+      if (!token.symbol || !TOKEN_CLASSIFICATIONS.includes(token.classification)) {
+        throw new Error(
+          `Invalid protocol registry token ${token.symbol ?? '(unnamed)'}: classification must be one of ${TOKEN_CLASSIFICATIONS.join(', ')}`
+        );
+      }
+    });
+  }
+}
@@ -2,8 +2,54 @@ import express, { Request, Response } from 'express';
 import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { analyzeWallet } from './index.js';
+import { randomUUID } from 'crypto';
+import {
+  analyzeWallet,
+  analyzeMultiChainWallet,
+  analyzeWalletTimeline,
+  detectSybilClusters,
+  analyzeBatch,
+  parseBatchArray,
+  readBatchStream,
+  BatchItem,
+  prefetchPrices,
+  loadScoringModel,
+  DEFAULT_SCORING_MODEL,
+  AnalyzeOptions,
+  TIMELINE_MODES,
+} from './index.js';
 import { BlockchainService } from './services/BlockchainService.js';
+import { fetchMultiChainWallet } from './services/fetchMultiChainWallet.js';
+import { CalldataDecoder } from './decoders/CalldataDecoder.js';
+import { SelectorRegistry } from './decoders/SelectorRegistry.js';
+import { ProtocolRegistry } from './registry/ProtocolRegistry.js';
+import { ScoringModelValidator } from './validators/ScoringModelValidator.js';
+import { InputValidator } from './validators/InputValidator.js';
+import { createChainDataProvider, PROVIDER_KINDS } from './providers/createChainDataProvider.js';
+import { SUPPORTED_CHAINS } from './providers/chains.js';
+import { parseTimelineInterval } from './timeline/timelineWindows.js';
+import { PriceFileOracle } from './oracles/PriceFileOracle.js';
+import { SimilarityIndex } from './similarity/SimilarityIndex.js';
+import { JobQueue, JobContext } from './jobs/JobQueue.js';
+import { MemoryPersonaStore } from './store/MemoryPersonaStore.js';
+import { FilePersonaStore } from './store/FilePersonaStore.js';
+import { hashInput, summarizeRun, diffRuns } from './store/analysisRuns.js';
+import { PersonaCache, PersonaCacheEntry, personaCacheKey } from './store/PersonaCache.js';
+import { Readable } from 'stream';
+import { HttpPriceOracle } from './oracles/HttpPriceOracle.js';
+import { PriceOracle, PersonaStore } from './interfaces/index.js';
+import {
+  ProviderKind,
+  ChainName,
+  ScoringModel,
+  SimilarityMetric,
+  BatchResult,
+  BatchSummary,
+  Job,
+  PersonaOutput,
+  TimelineInterval,
+  TimelineMode,
+} from './types/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -11,15 +57,462 @@ const __dirname = path.dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Initialize services
-const blockchainService = new BlockchainService();
+// Calldata decoder shared by every chain, extended from PERSONA_SELECTORS_FILE
+const selectorRegistry = new SelectorRegistry();
+if (process.env.PERSONA_SELECTORS_FILE) {
+  selectorRegistry.loadFile(process.env.PERSONA_SELECTORS_FILE);
+}
+const calldataDecoder = new CalldataDecoder(selectorRegistry);
 
-// In-memory cache (simple replacement for database)
-const cache = new Map<string, any>();
+// Protocol / token registry, replaced wholesale by PERSONA_REGISTRY_FILE
+const protocolRegistry = process.env.PERSONA_REGISTRY_FILE
+  ? ProtocolRegistry.fromFile(process.env.PERSONA_REGISTRY_FILE)
+  : new ProtocolRegistry();
+
+// Default scoring model from PERSONA_SCORING_MODEL_FILE; requests may post their own
+const scoringModel = process.env.PERSONA_SCORING_MODEL_FILE
+  ? loadScoringModel(process.env.PERSONA_SCORING_MODEL_FILE)
+  : undefined;
+
+// USD prices from PERSONA_PRICES_FILE or the PERSONA_PRICE_API_URL price API
+let priceOracle: PriceOracle | undefined;
+if (process.env.PERSONA_PRICES_FILE) {
+  priceOracle = PriceFileOracle.fromFile(process.env.PERSONA_PRICES_FILE);
+} else if (process.env.PERSONA_PRICE_API_URL) {
+  priceOracle = new HttpPriceOracle(process.env.PERSONA_PRICE_API_URL);
+}
+
+// Feature vectors of analyzed wallets for lookalike search, persisted to PERSONA_SIMILARITY_INDEX_FILE
+const similarityIndex = new SimilarityIndex({
+  metric: process.env.PERSONA_SIMILARITY_METRIC as SimilarityMetric | undefined,
+  file: process.env.PERSONA_SIMILARITY_INDEX_FILE,
+});
+
+/**
+ * Analyze input JSON with the shared price oracle's prices loaded first
+ */
+async function withPrices<T>(inputJson: string, options: AnalyzeOptions, analyze: () => T): Promise<T> {
+  if (priceOracle) {
+    await prefetchPrices(inputJson, priceOracle, options.asOf);
+  }
+  return analyze();
+}
+
+// Request body fields that tune the analysis rather than describe the wallet
+interface AnalysisRequestOptions {
+  scoringModel?: unknown;
+  seed?: unknown;
+  titleVariants?: unknown;
+  asOf?: unknown;
+}
+
+/**
+ * Analysis options for a request: its scoringModel when one is posted, an
+ * explicit title seed, whether to list every title variant and the asOf
+ * date to analyze the wallet at.
+ * Explanations are always included so the web UI can show why each score is what it is.
+ * Only requests without overrides are recorded in the persona store and
+ * indexed for similarity search.
+ * Returns the validation errors instead when an option is invalid
+ */
+function analyzeOptionsFor(
+  request: AnalysisRequestOptions
+): { options: AnalyzeOptions; recorded: boolean } | { errors: string[] } {
+  const { scoringModel: requestModel, seed, titleVariants, asOf } = request;
+  const errors: string[] = [];
+
+  if (requestModel !== undefined) {
+    const result = new ScoringModelValidator().validate(requestModel);
+    errors.push(...result.errors.map(error => `Invalid scoring model: ${error}`));
+  }
+  if (seed !== undefined && typeof seed !== 'string' && typeof seed !== 'number') {
+    errors.push('seed must be a string or number');
+  }
+  if (titleVariants !== undefined && typeof titleVariants !== 'boolean') {
+    errors.push('titleVariants must be a boolean');
+  }
+  if (asOf !== undefined && (typeof asOf !== 'string' || isNaN(new Date(asOf).getTime()))) {
+    errors.push('asOf must be an ISO 8601 date');
+  }
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const recorded = requestModel === undefined && seed === undefined && titleVariants === undefined && asOf === undefined;
+  return {
+    options: {
+      registry: protocolRegistry,
+      model: (requestModel as ScoringModel | undefined) ?? scoringModel,
+      explain: true,
+      seed: seed as string | number | undefined,
+      titleVariants: titleVariants === true,
+      asOf: asOf === undefined ? undefined : new Date(asOf as string),
+      priceOracle,
+      similarityIndex: recorded ? similarityIndex : undefined,
+    },
+    recorded,
+  };
+}
+
+// Blockchain services, one per chain/provider pair
+const blockchainServices = new Map<string, BlockchainService>();
+
+function getBlockchainService(chain: string, provider: ProviderKind): BlockchainService {
+  const key = `${chain}:${provider}`;
+  let service = blockchainServices.get(key);
+  if (!service) {
+    service = new BlockchainService(createChainDataProvider(chain, {
+      provider,
+      fixture: process.env.PERSONA_FIXTURE_FILE,
+    }), calldataDecoder, protocolRegistry);
+    blockchainServices.set(key, service);
+  }
+  return service;
+}
+
+// Runs are stored under the wallet address, prefixed by the chain off Ethereum
+function runKey(walletAddress: string, chain: string): string {
+  return chain === 'ethereum' ? walletAddress : `${chain}:${walletAddress}`;
+}
+
+// Every analysis run built with the default options, appended to PERSONA_STORE_FILE when set
+const personaStore: PersonaStore = process.env.PERSONA_STORE_FILE
+  ? new FilePersonaStore(process.env.PERSONA_STORE_FILE)
+  : new MemoryPersonaStore();
+
+// Personas served again for the same input and settings, for PERSONA_CACHE_TTL_SECONDS
+// (default one hour) and at most PERSONA_CACHE_MAX_ENTRIES (default 1000)
+const personaCache = new PersonaCache({
+  ttlMs: (Number(process.env.PERSONA_CACHE_TTL_SECONDS) || 3600) * 1000,
+  maxEntries: Number(process.env.PERSONA_CACHE_MAX_ENTRIES) || 1000,
+});
+
+/**
+ * Cache key for an analysis input under a request's options
+ */
+function cacheKeyFor(input: unknown, options: AnalyzeOptions): string {
+  return personaCacheKey(input, {
+    model: options.model ?? DEFAULT_SCORING_MODEL,
+    asOf: options.asOf,
+    seed: options.seed,
+    titleVariants: options.titleVariants,
+  });
+}
+
+// Blockchain personas are cached by what was asked for, before any transaction is fetched
+function blockchainCacheKey(body: Record<string, any>, options: AnalyzeOptions): string {
+  const { walletAddress, limit, chain = 'ethereum', chains, provider = 'explorer' } = body;
+  return cacheKeyFor({ walletAddress, chains: chains ?? [chain], provider, limit: limit || 100 }, options);
+}
+
+/**
+ * Whether a request asks to skip the cache: ?refresh=true or Cache-Control: no-cache
+ */
+function bypassesCache(req: Request): boolean {
+  return req.query.refresh === 'true' || /no-cache|no-store/.test(req.get('Cache-Control') ?? '');
+}
+
+/**
+ * Send a persona with its ETag and how long it stays cached. A client that
+ * already holds this persona (If-None-Match) gets 304 Not Modified instead
+ */
+function sendPersona(req: Request, res: Response, entry: PersonaCacheEntry, cached: boolean) {
+  const maxAge = Math.max(0, Math.floor((entry.expiresAt - Date.now()) / 1000));
+  res.set('ETag', entry.etag);
+  res.set('Cache-Control', `private, max-age=${maxAge}`);
+
+  const known = (req.get('If-None-Match') ?? '').split(',').map(tag => tag.trim());
+  if (known.includes(entry.etag) || known.includes('*')) {
+    return res.status(304).end();
+  }
+
+  if (cached) {
+    return res.json({ 
+      ...entry.persona, 
+      cached: true,
+      message: 'Retrieved from cache'
+    });
+  }
+  res.json({ ...entry.persona, cached: false });
+}
+
+/**
+ * Store a persona as a new run under key, with the hash of the input it was built from
+ */
+async function saveRun(key: string, input: unknown, options: AnalyzeOptions, persona: PersonaOutput): Promise<void> {
+  await personaStore.save({
+    id: randomUUID(),
+    key,
+    walletAddress: persona.walletAddress,
+    timestamp: new Date().toISOString(),
+    inputHash: hashInput(input),
+    modelVersion: (options.model ?? DEFAULT_SCORING_MODEL).version,
+    persona,
+  });
+}
+
+// Background jobs for analyses too slow to finish inside a request
+const jobQueue = new JobQueue({
+  concurrency: Number(process.env.PERSONA_JOB_CONCURRENCY) || 2,
+  onError: error => console.error(error.message),
+});
+jobQueue.register('blockchain', runBlockchainAnalysis);
+jobQueue.register('batch', runBatchAnalysis);
+jobQueue.register('sybil', runSybilDetection);
+
+// Wallets and analysis options of a batch job, kept as plain JSON like every job input
+interface BatchJobInput {
+  items: BatchItem[];
+  request: Record<string, unknown>;
+}
+
+// Wallets and options of a sybil detection job
+interface SybilJobInput {
+  wallets: unknown[];
+  asOf?: string;
+  ignoredCounterparties?: string[];
+}
+
+/**
+ * 202 body pointing at a submitted job's status and result
+ */
+function jobAccepted(job: Job) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    statusUrl: `/api/jobs/${job.id}`,
+    resultUrl: `/api/jobs/${job.id}/result`,
+  };
+}
+
+/**
+ * Validate a blockchain analysis request, returning the error when invalid
+ */
+function blockchainRequestError(body: Record<string, any>): string | undefined {
+  const { walletAddress, chain = 'ethereum', chains, provider = 'explorer' } = body;
+
+  if (!walletAddress) {
+    return 'Missing required field: walletAddress';
+  }
+
+  // Validate Ethereum address format
+  if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+    return 'Invalid Ethereum address format';
+  }
+
+  const requestedChains: string[] = Array.isArray(chains) ? chains : [chain];
+  const unsupported = requestedChains.find(c => !SUPPORTED_CHAINS.includes(c as ChainName));
+  if (requestedChains.length === 0 || unsupported !== undefined) {
+    return `Unsupported chain: ${unsupported}. Must be one of: ${SUPPORTED_CHAINS.join(', ')}`;
+  }
+
+  if (!PROVIDER_KINDS.includes(provider)) {
+    return `Unsupported provider: ${provider}. Must be one of: ${PROVIDER_KINDS.join(', ')}`;
+  }
+
+  if (provider === 'fixture' && !process.env.PERSONA_FIXTURE_FILE) {
+    return 'Fixture provider requires PERSONA_FIXTURE_FILE to be set on the server';
+  }
+
+  const analysis = analyzeOptionsFor(body);
+  return 'errors' in analysis ? analysis.errors.join('; ') : undefined;
+}
+
+/**
+ * Batch job input from { wallets: [...], concurrency?, ...options } or an NDJSON body,
+ * or the error when the request is invalid
+ */
+async function batchJobInputFor(body: unknown): Promise<{ input: BatchJobInput } | { error: string }> {
+  let items: BatchItem[] = [];
+  let request: Record<string, unknown> = {};
+
+  if (typeof body === 'string') {
+    for await (const item of readBatchStream(Readable.from([body]), 'body')) {
+      items.push(item);
+    }
+  } else {
+    const { wallets, ...rest } = (body ?? {}) as Record<string, unknown>;
+    if (!Array.isArray(wallets)) {
+      return { error: 'Missing required field: wallets (or post NDJSON as application/x-ndjson)' };
+    }
+    items = parseBatchArray(JSON.stringify(wallets), 'wallets');
+    request = rest;
+  }
+
+  if (items.length === 0) {
+    return { error: 'The batch has no wallets' };
+  }
+
+  const { concurrency = 4 } = request;
+  if (!Number.isInteger(concurrency) || (concurrency as number) < 1 || (concurrency as number) > 32) {
+    return { error: 'concurrency must be a whole number from 1 to 32' };
+  }
+
+  const analysis = analyzeOptionsFor(request);
+  if ('errors' in analysis) {
+    return { error: analysis.errors.join('; ') };
+  }
+
+  return { input: { items, request } };
+}
+
+/**
+ * Validate a sybil detection request up front, so a job is only queued for
+ * wallets the detector accepts. Returns the error instead when invalid
+ */
+function sybilJobInputFor(body: Record<string, any>): { input: SybilJobInput } | { error: string } {
+  const { wallets, asOf, ignoredCounterparties } = body;
+
+  if (!Array.isArray(wallets) || wallets.length === 0) {
+    return { error: 'wallets must be a non-empty array of { walletAddress, transactions }' };
+  }
+
+  if (asOf !== undefined && (typeof asOf !== 'string' || isNaN(new Date(asOf).getTime()))) {
+    return { error: 'asOf must be an ISO 8601 date' };
+  }
+
+  if (ignoredCounterparties !== undefined &&
+    (!Array.isArray(ignoredCounterparties) || !ignoredCounterparties.every(a => typeof a === 'string'))) {
+    return { error: 'ignoredCounterparties must be an array of addresses' };
+  }
+
+  try {
+    new InputValidator().parseBatch(JSON.stringify(wallets));
+  } catch (error) {
+    return { error: `Sybil detection failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  return { input: { wallets, asOf, ignoredCounterparties } };
+}
+
+/**
+ * Blockchain job: fetch the wallet's transactions from one or several chains and build its persona
+ */
+async function runBlockchainAnalysis(body: Record<string, any>, context: JobContext): Promise<Record<string, unknown>> {
+  const { walletAddress, limit, chain = 'ethereum', chains, provider = 'explorer' } = body;
+  const analysis = analyzeOptionsFor(body) as { options: AnalyzeOptions; recorded: boolean };
+  const cacheKey = blockchainCacheKey(body, analysis.options);
+
+  // Several chains: aggregate into one persona with a per-chain breakdown
+  if (Array.isArray(chains)) {
+    const walletInput = await fetchMultiChainWallet(walletAddress, chains, limit || 100, {
+      provider,
+      fixture: process.env.PERSONA_FIXTURE_FILE,
+    }, calldataDecoder, protocolRegistry);
+    const transactionCount = walletInput.chains.reduce((sum, c) => sum + c.transactions.length, 0);
+
+    if (transactionCount === 0) {
+      throw new Error('No transactions found for this wallet address on the requested chains');
+    }
+    if (context.signal.aborted) {
+      return {};
+    }
+    context.reportProgress(60);
+
+    const inputJson = JSON.stringify(walletInput);
+    const persona = JSON.parse(
+      await withPrices(inputJson, analysis.options, () => analyzeMultiChainWallet(inputJson, analysis.options))
+    );
+    personaCache.set(cacheKey, persona);
+    if (analysis.recorded) {
+      await saveRun(runKey(walletAddress, chains.join('+')), walletInput, analysis.options, persona);
+    }
+
+    return { 
+      ...persona, 
+      cached: false,
+      transactionCount
+    };
+  }
+
+  const blockchainService = getBlockchainService(chain, provider);
+
+  // Fetch transactions from blockchain
+  const transactions = await blockchainService.fetchTransactions(
+    walletAddress, 
+    limit || 100
+  );
+
+  if (transactions.length === 0) {
+    throw new Error('No transactions found for this wallet address');
+  }
+  if (context.signal.aborted) {
+    return {};
+  }
+  context.reportProgress(60);
+
+  // Analyze wallet
+  const inputJson = JSON.stringify({ walletAddress, transactions });
+  const result = await withPrices(inputJson, analysis.options, () => analyzeWallet(inputJson, analysis.options));
+  const persona = JSON.parse(result);
+
+  // Save to cache and history
+  personaCache.set(cacheKey, persona);
+  if (analysis.recorded) {
+    await saveRun(runKey(walletAddress, chain), { walletAddress, transactions }, analysis.options, persona);
+  }
+  context.reportProgress(90);
+
+  // Get balance
+  const balance = await blockchainService.fetchBalance(walletAddress);
+
+  return { 
+    ...persona, 
+    cached: false,
+    chain,
+    transactionCount: transactions.length,
+    balance: `${balance} ${blockchainService.chain.nativeSymbol}`
+  };
+}
+
+/**
+ * Sybil job: cluster the wallets, which compares every pair of them
+ */
+async function runSybilDetection(input: SybilJobInput): Promise<unknown> {
+  const result = detectSybilClusters(JSON.stringify(input.wallets), {
+    registry: protocolRegistry,
+    asOf: input.asOf === undefined ? undefined : new Date(input.asOf),
+    ignoredCounterparties: input.ignoredCounterparties,
+  });
+  return JSON.parse(result);
+}
+
+/**
+ * Batch job: analyze every wallet, reporting progress as each one finishes
+ */
+async function runBatchAnalysis(
+  input: BatchJobInput,
+  context: JobContext
+): Promise<{ summary: BatchSummary; results: BatchResult[] }> {
+  const analysis = analyzeOptionsFor(input.request) as { options: AnalyzeOptions };
+  const { concurrency = 4 } = input.request;
+  // Explanations are left out: batches are scored for campaigns, not inspected one by one
+  const options = { ...analysis.options, explain: false, concurrency: concurrency as number };
+  const started = Date.now();
+  const summary: BatchSummary = { total: input.items.length, succeeded: 0, failed: 0, durationMs: 0 };
+  const results: BatchResult[] = [];
+
+  for await (const result of analyzeBatch(input.items, options)) {
+    if (context.signal.aborted) {
+      break;
+    }
+    results.push(result);
+    if (result.status === 'ok') {
+      summary.succeeded++;
+    } else {
+      summary.failed++;
+    }
+    context.reportProgress((results.length / summary.total) * 100);
+  }
+
+  summary.durationMs = Date.now() - started;
+  return { summary, results };
+}
 
 // Middleware
 app.use(cors());
 app.use(express.json({ limit: '10mb' }));
+app.use(express.text({ type: 'application/x-ndjson', limit: '50mb' }));
 app.use(express.static(path.join(__dirname, '../public')));
 
 // Health check endpoint
@@ -34,7 +527,8 @@ app.get('/api/health', (req: Request, res: Response) => {
 // Analyze wallet from JSON data
 app.post('/api/analyze', async (req: Request, res: Response) => {
   try {
-    const { walletAddress, transactions } = req.body;
+    const { scoringModel, seed, titleVariants, asOf, ...walletInput } = req.body;
+    const { walletAddress, transactions } = walletInput;
 
     if (!walletAddress || !transactions) {
       return res.status(400).json({ 
@@ -42,24 +536,32 @@ app.post('/api/analyze', async (req: Request, res: Response) => {
       });
     }
 
-    // Check cache first
-    const cached = cache.get(walletAddress);
-    if (cached) {
-      return res.json({ 
-        ...cached, 
-        cached: true,
-        message: 'Retrieved from cache'
+    const analysis = analyzeOptionsFor({ scoringModel, seed, titleVariants, asOf });
+    if ('errors' in analysis) {
+      return res.status(400).json({ 
+        error: analysis.errors.join('; ') 
       });
     }
 
+    // Check cache first, unless asked to refresh
+    const cacheKey = cacheKeyFor(walletInput, analysis.options);
+    const cached = bypassesCache(req) ? undefined : personaCache.get(cacheKey);
+    if (cached) {
+      return sendPersona(req, res, cached, true);
+    }
+
     // Analyze wallet
-    const result = analyzeWallet(JSON.stringify(req.body));
+    const inputJson = JSON.stringify(walletInput);
+    const result = await withPrices(inputJson, analysis.options, () => analyzeWallet(inputJson, analysis.options));
     const persona = JSON.parse(result);
 
-    // Save to cache
-    cache.set(walletAddress, persona);
+    // Save to cache and history
+    const entry = personaCache.set(cacheKey, persona);
+    if (analysis.recorded) {
+      await saveRun(walletAddress, walletInput, analysis.options, persona);
+    }
 
-    res.json({ ...persona, cached: false });
+    sendPersona(req, res, entry, false);
   } catch (error) {
     console.error('Analysis error:', error);
     res.status(500).json({ 
@@ -68,77 +570,264 @@ app.post('/api/analyze', async (req: Request, res: Response) => {
   }
 });
 
-// Analyze wallet from blockchain (Etherscan)
-app.post('/api/analyze/blockchain', async (req: Request, res: Response) => {
+// Persona timeline over monthly, quarterly or custom windows (not cached)
+app.post('/api/analyze/timeline', async (req: Request, res: Response) => {
   try {
-    const { walletAddress, limit } = req.body;
+    const { scoringModel, seed, asOf, interval = 'month', mode = 'cumulative', ...walletInput } = req.body;
+    const { walletAddress, transactions } = walletInput;
+
+    if (!walletAddress || !transactions) {
+      return res.status(400).json({ 
+        error: 'Missing required fields: walletAddress and transactions' 
+      });
+    }
 
-    if (!walletAddress) {
+    let timelineInterval: TimelineInterval;
+    try {
+      timelineInterval = parseTimelineInterval(interval);
+    } catch (error) {
       return res.status(400).json({ 
-        error: 'Missing required field: walletAddress' 
+        error: error instanceof Error ? error.message : 'Invalid timeline interval' 
       });
     }
 
-    // Validate Ethereum address format
-    if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+    if (!TIMELINE_MODES.includes(mode)) {
       return res.status(400).json({ 
-        error: 'Invalid Ethereum address format' 
+        error: `Invalid timeline mode: ${mode}. Must be one of: ${TIMELINE_MODES.join(', ')}` 
       });
     }
 
-    // Check cache first
-    const cached = cache.get(walletAddress);
+    const analysis = analyzeOptionsFor({ scoringModel, seed, asOf });
+    if ('errors' in analysis) {
+      return res.status(400).json({ 
+        error: analysis.errors.join('; ') 
+      });
+    }
+
+    const inputJson = JSON.stringify(walletInput);
+    const result = await withPrices(inputJson, analysis.options, () => analyzeWalletTimeline(inputJson, {
+      ...analysis.options,
+      interval: timelineInterval,
+      mode: mode as TimelineMode,
+    }));
+
+    res.json(JSON.parse(result));
+  } catch (error) {
+    console.error('Timeline error:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Timeline analysis failed' 
+    });
+  }
+});
+
+// Start analyzing many wallets: { wallets: [...], concurrency?, ...options } or an NDJSON body
+app.post('/api/analyze/batch', async (req: Request, res: Response) => {
+  try {
+    const batch = await batchJobInputFor(req.body);
+    if ('error' in batch) {
+      return res.status(400).json({ 
+        error: batch.error 
+      });
+    }
+
+    const job = await jobQueue.submit('batch', batch.input);
+    res.status(202).json({ 
+      ...jobAccepted(job), 
+      total: batch.input.items.length 
+    });
+  } catch (error) {
+    console.error('Batch error:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Batch analysis failed' 
+    });
+  }
+});
+
+// Start sybil clustering across a batch of wallets (not cached): { wallets: [...], asOf?, ignoredCounterparties? }
+app.post('/api/analyze/sybil', async (req: Request, res: Response) => {
+  try {
+    const sybil = sybilJobInputFor(req.body);
+    if ('error' in sybil) {
+      return res.status(400).json({ 
+        error: sybil.error 
+      });
+    }
+
+    const job = await jobQueue.submit('sybil', sybil.input);
+    res.status(202).json({ 
+      ...jobAccepted(job), 
+      total: sybil.input.wallets.length 
+    });
+  } catch (error) {
+    console.error('Sybil detection error:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Sybil detection failed' 
+    });
+  }
+});
+
+// Analyze wallet from blockchain (Etherscan-compatible explorer, RPC or fixture)
+// Cached personas are returned at once; otherwise a job fetches and analyzes the wallet
+app.post('/api/analyze/blockchain', async (req: Request, res: Response) => {
+  try {
+    const requestError = blockchainRequestError(req.body);
+    if (requestError) {
+      return res.status(400).json({ 
+        error: requestError 
+      });
+    }
+
+    // Check cache first, unless asked to refresh
+    const analysis = analyzeOptionsFor(req.body) as { options: AnalyzeOptions };
+    const cached = bypassesCache(req) ? undefined : personaCache.get(blockchainCacheKey(req.body, analysis.options));
     if (cached) {
-      return res.json({ 
-        ...cached, 
-        cached: true,
-        message: 'Retrieved from cache'
+      return sendPersona(req, res, cached, true);
+    }
+
+    const job = await jobQueue.submit('blockchain', req.body);
+    res.status(202).json(jobAccepted(job));
+  } catch (error) {
+    console.error('Blockchain analysis error:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Blockchain analysis failed' 
+    });
+  }
+});
+
+// Submit a background job: { type: "blockchain" | "batch" | "sybil", ...that analysis's request body }
+app.post('/api/jobs', async (req: Request, res: Response) => {
+  try {
+    const { type, ...body } = req.body;
+
+    let input: unknown;
+    if (type === 'blockchain') {
+      const requestError = blockchainRequestError(body);
+      if (requestError) {
+        return res.status(400).json({ 
+          error: requestError 
+        });
+      }
+      input = body;
+    } else if (type === 'batch') {
+      const batch = await batchJobInputFor(body);
+      if ('error' in batch) {
+        return res.status(400).json({ 
+          error: batch.error 
+        });
+      }
+      input = batch.input;
+    } else if (type === 'sybil') {
+      const sybil = sybilJobInputFor(body);
+      if ('error' in sybil) {
+        return res.status(400).json({ 
+          error: sybil.error 
+        });
+      }
+      input = sybil.input;
+    } else {
+      return res.status(400).json({ 
+        error: `Invalid job type: ${type}. Must be one of: ${jobQueue.types.join(', ')}` 
       });
     }
 
-    // Fetch transactions from blockchain
-    const transactions = await blockchainService.fetchTransactions(
-      walletAddress, 
-      limit || 100
-    );
+    const job = await jobQueue.submit(type, input);
+    res.status(202).json(jobAccepted(job));
+  } catch (error) {
+    console.error('Job error:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Job submission failed' 
+    });
+  }
+});
+
+// Job status, progress percentage and error
+app.get('/api/jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const job = await jobQueue.get(req.params.id);
 
-    if (transactions.length === 0) {
+    if (!job) {
       return res.status(404).json({ 
-        error: 'No transactions found for this wallet address' 
+        error: 'No job found with this ID' 
       });
     }
 
-    // Analyze wallet
-    const walletData = { walletAddress, transactions };
-    const result = analyzeWallet(JSON.stringify(walletData));
-    const persona = JSON.parse(result);
+    res.json(job);
+  } catch (error) {
+    console.error('Job error:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Job retrieval failed' 
+    });
+  }
+});
 
-    // Save to cache
-    cache.set(walletAddress, persona);
+// Result of a completed job; ?format=ndjson streams a batch's results one per line
+app.get('/api/jobs/:id/result', async (req: Request, res: Response) => {
+  try {
+    const job = await jobQueue.get(req.params.id);
 
-    // Get balance
-    const balance = await blockchainService.fetchBalance(walletAddress);
+    if (!job) {
+      return res.status(404).json({ 
+        error: 'No job found with this ID' 
+      });
+    }
 
-    res.json({ 
-      ...persona, 
-      cached: false,
-      transactionCount: transactions.length,
-      balance: `${balance} ETH`
+    if (job.status !== 'completed') {
+      return res.status(409).json({ 
+        error: job.error ?? `Job is ${job.status}`,
+        status: job.status,
+        progress: job.progress
+      });
+    }
+
+    const result = await jobQueue.result(job.id);
+    if (job.type === 'batch' && req.query.format === 'ndjson') {
+      const { results } = result as { results: BatchResult[] };
+      res.type('application/x-ndjson');
+      return res.send(results.map(line => JSON.stringify(line) + '\n').join(''));
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Job error:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Job retrieval failed' 
     });
+  }
+});
+
+// Cancel a queued or running job
+app.post('/api/jobs/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    const job = await jobQueue.cancel(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ 
+        error: 'No job found with this ID' 
+      });
+    }
+
+    if (job.status !== 'cancelled') {
+      return res.status(409).json({ 
+        error: `Job already ${job.status}`,
+        status: job.status
+      });
+    }
+
+    res.json(job);
   } catch (error) {
-    console.error('Blockchain analysis error:', error);
+    console.error('Job error:', error);
     res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Blockchain analysis failed' 
+      error: error instanceof Error ? error.message : 'Job cancellation failed' 
     });
   }
 });
 
-// Get cached analysis
-app.get('/api/analysis/:walletAddress', (req: Request, res: Response) => {
+// Latest stored analysis of a wallet
+app.get('/api/analysis/:walletAddress', async (req: Request, res: Response) => {
   try {
     const { walletAddress } = req.params;
 
-    const analysis = cache.get(walletAddress);
+    const analysis = (await personaStore.latest(walletAddress))?.persona;
 
     if (!analysis) {
       return res.status(404).json({ 
@@ -155,10 +844,118 @@ app.get('/api/analysis/:walletAddress', (req: Request, res: Response) => {
   }
 });
 
+// Drop every cached persona of a wallet so its next analysis is computed afresh (history is kept)
+app.delete('/api/analysis/:walletAddress', (req: Request, res: Response) => {
+  try {
+    const { walletAddress } = req.params;
+
+    res.json({
+      walletAddress,
+      invalidated: personaCache.invalidate(walletAddress)
+    });
+  } catch (error) {
+    console.error('Invalidation error:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Invalidation failed' 
+    });
+  }
+});
+
+// Every stored run of a wallet, oldest first; ?chain= for wallets fetched from other chains
+app.get('/api/analysis/:walletAddress/history', async (req: Request, res: Response) => {
+  try {
+    const { walletAddress } = req.params;
+    const { chain = 'ethereum' } = req.query;
+
+    const runs = await personaStore.history(runKey(walletAddress, String(chain)));
+
+    if (runs.length === 0) {
+      return res.status(404).json({ 
+        error: 'No analysis found for this wallet address' 
+      });
+    }
+
+    res.json({
+      walletAddress,
+      count: runs.length,
+      runs: runs.map(summarizeRun)
+    });
+  } catch (error) {
+    console.error('History error:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'History retrieval failed' 
+    });
+  }
+});
+
+// Differences between two runs of a wallet (?from=<runId>&to=<runId>), the last two by default
+app.get('/api/analysis/:walletAddress/diff', async (req: Request, res: Response) => {
+  try {
+    const { walletAddress } = req.params;
+    const { chain = 'ethereum', from, to } = req.query;
+
+    const runs = await personaStore.history(runKey(walletAddress, String(chain)));
+    const fromRun = from === undefined ? runs[runs.length - 2] : runs.find(run => run.id === from);
+    const toRun = to === undefined ? runs[runs.length - 1] : runs.find(run => run.id === to);
+
+    if (runs.length === 0) {
+      return res.status(404).json({ 
+        error: 'No analysis found for this wallet address' 
+      });
+    }
+
+    if (!fromRun || !toRun) {
+      return res.status(404).json({ 
+        error: from === undefined && to === undefined
+          ? 'This wallet has only one analysis run'
+          : 'No run found with this ID for this wallet address'
+      });
+    }
+
+    res.json(diffRuns(fromRun, toRun));
+  } catch (error) {
+    console.error('Diff error:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Diff failed' 
+    });
+  }
+});
+
+// Previously analyzed wallets most like this one
+app.get('/api/wallets/:address/similar', (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const k = req.query.k === undefined ? 20 : Number(req.query.k);
+
+    if (!Number.isInteger(k) || k < 1 || k > 100) {
+      return res.status(400).json({ 
+        error: 'k must be a whole number from 1 to 100' 
+      });
+    }
+
+    if (!similarityIndex.features(address)) {
+      return res.status(404).json({ 
+        error: 'No analysis found for this wallet address' 
+      });
+    }
+
+    res.json({
+      walletAddress: address,
+      metric: similarityIndex.metric,
+      similar: similarityIndex.findSimilar({ walletAddress: address }, k)
+    });
+  } catch (error) {
+    console.error('Similarity error:', error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Similarity search failed' 
+    });
+  }
+});
+
 // Get all analyses
-app.get('/api/analyses', (req: Request, res: Response) => {
+app.get('/api/analyses', async (req: Request, res: Response) => {
   try {
-    const analyses = Array.from(cache.values());
+    const analyses = (await personaStore.latestRuns()).map(run => run.persona);
 
     res.json({
       count: analyses.length,
@@ -173,9 +970,9 @@ app.get('/api/analyses', (req: Request, res: Response) => {
 });
 
 // Get statistics
-app.get('/api/statistics', (req: Request, res: Response) => {
+app.get('/api/statistics', async (req: Request, res: Response) => {
   try {
-    const analyses = Array.from(cache.values());
+    const analyses = (await personaStore.latestRuns()).map(run => run.persona);
     const totalAnalyses = analyses.length;
     
     const avgRisk = analyses.length > 0 
@@ -0,0 +1,270 @@
+import { describe, it, expect } from 'vitest';
+import { BlockchainService } from './BlockchainService';
+import { FixtureProvider, FixtureData } from '../providers/FixtureProvider';
+import { createChainDataProvider } from '../providers/createChainDataProvider';
+import { CHAINS } from '../providers/chains';
+import { formatUnits } from './tokenTransfers';
+
+const WALLET = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb';
+
+const fixture: FixtureData = {
+  [WALLET.toLowerCase()]: {
+    balance: '1500000000000000000',
+    transactions: [
+      {
+        hash: '0xswap',
+        timeStamp: '1704067200',
+        from: WALLET,
+        to: '0xe592427a0aece92de3edee1f18e0157c05861564',
+        value: '1000000000000000000',
+        functionName: 'swapExactETHForTokens(uint256,address[],address,uint256)',
+      },
+      {
+        hash: '0xvote',
+        timeStamp: '1706745600',
+        from: WALLET,
+        to: '0xc0da02939e1441f497fd74f78ce7decb17b66529',
+        value: '0',
+        functionName: 'castVote(uint256,uint8)',
+      },
+    ],
+  },
+};
+
+const tokenFixture: FixtureData = {
+  [WALLET]: {
+    transactions: [
+      {
+        hash: '0xswap',
+        timeStamp: '1704067200',
+        from: WALLET,
+        to: '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45',
+        value: '0',
+        functionName: 'swapExactTokensForTokens(uint256,uint256,address[],address,uint256)',
+      },
+      {
+        hash: '0xmint',
+        timeStamp: '1704153600',
+        from: WALLET,
+        to: '0xed5af388653567af2f388e6224dc7c4b3241c544',
+        value: '50000000000000000',
+        functionName: 'mint(uint256)',
+      },
+    ],
+    tokenTransfers: {
+      erc20: [
+        {
+          hash: '0xswap', timeStamp: '1704067200', from: WALLET, to: '0xpool',
+          contractAddress: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+          tokenSymbol: 'USDC', tokenName: 'USD Coin', tokenDecimal: '6', value: '2500000000',
+        },
+        {
+          hash: '0xswap', timeStamp: '1704067200', from: '0xpool', to: WALLET.toLowerCase(),
+          contractAddress: '0x6982508145454ce325ddbe47a25d4ec3d2311933',
+          tokenSymbol: 'PEPE', tokenName: 'Pepe', tokenDecimal: '18', value: '1250000000000000000000',
+        },
+        {
+          hash: '0xdrop', timeStamp: '1704240000', from: '0xdistributor', to: WALLET,
+          contractAddress: '0x912ce59144191c1204e64559fe8253a0e49e6548',
+          tokenSymbol: 'ARB', tokenName: 'Arbitrum', tokenDecimal: '18', value: '625000000000000000000',
+        },
+      ],
+      erc721: [
+        {
+          hash: '0xmint', timeStamp: '1704153600', from: '0x0000000000000000000000000000000000000000', to: WALLET,
+          contractAddress: '0xed5af388653567af2f388e6224dc7c4b3241c544',
+          tokenSymbol: 'AZUKI', tokenName: 'Azuki', tokenID: '4242',
+        },
+      ],
+    },
+  },
+};
+
+const AAVE_POOL = '0x87870bca3f3fd6335c3f4ce8392d69350b4fa4e2';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const usdcTransfer = (hash: string, from: string, to: string, value: string) => ({
+  hash, timeStamp: '1704067200', from, to, contractAddress: USDC,
+  tokenSymbol: 'USDC', tokenName: 'USD Coin', tokenDecimal: '6', value,
+});
+
+const defiFixture: FixtureData = {
+  [WALLET]: {
+    transactions: [
+      {
+        hash: '0xborrow', timeStamp: '1704067200', from: WALLET, to: AAVE_POOL, value: '0',
+        functionName: 'borrow(address,uint256,uint256,uint16,address)',
+      },
+      {
+        hash: '0xrepay', timeStamp: '1704153600', from: WALLET, to: AAVE_POOL, value: '0',
+        functionName: 'repay(address,uint256,uint256,address)',
+      },
+      {
+        hash: '0xbridge', timeStamp: '1704240000', from: WALLET,
+        to: '0x5c7bcd6e7de5423a257d81b442095a1a6ced35c5', value: '1000000000000000000',
+        functionName: 'depositV3(address,address,address,address,uint256,uint256,uint256,address,uint32,uint32,uint32,bytes)',
+      },
+      {
+        hash: '0xbuy', timeStamp: '1704326400', from: WALLET,
+        to: '0x00000000000000adc04c56bf30ac9d3c0aaf14dc', value: '500000000000000000',
+        functionName: 'fulfillBasicOrder_efficient_6GL6yc(tuple parameters)',
+      },
+      {
+        hash: '0xapprove', timeStamp: '1704412800', from: WALLET, to: USDC, value: '0',
+        input: '0x095ea7b3' + AAVE_POOL.slice(2).padStart(64, '0') + 'f'.repeat(64),
+      },
+      {
+        hash: '0xsend', timeStamp: '1704499200', from: WALLET, to: '0xfriend', value: '200000000000000000',
+      },
+      {
+        hash: '0xwithdraw', timeStamp: '1704585600', from: WALLET, to: AAVE_POOL, value: '0',
+        functionName: 'withdraw(address,uint256,address)',
+      },
+    ],
+    tokenTransfers: {
+      erc20: [
+        usdcTransfer('0xborrow', AAVE_POOL, WALLET, '1000000000'),
+        usdcTransfer('0xrepay', WALLET, AAVE_POOL, '400000000'),
+        usdcTransfer('0xwithdraw', AAVE_POOL, WALLET, '250000000'),
+      ],
+      erc721: [
+        {
+          hash: '0xbuy', timeStamp: '1704326400', from: '0xseller', to: WALLET,
+          contractAddress: '0xbd3531da5cf5857e7cfaa92426877b022e612cf8',
+          tokenSymbol: 'PPG', tokenName: 'PudgyPenguins', tokenID: '777',
+        },
+      ],
+    },
+  },
+};
+
+describe('BlockchainService', () => {
+  it('should transform fixture transactions into the internal format', async () => {
+    const service = new BlockchainService(new FixtureProvider(CHAINS.polygon, fixture));
+    const transactions = await service.fetchTransactions(WALLET);
+
+    expect(service.chain.name).toBe('polygon');
+    expect(transactions.map(tx => tx.type)).toEqual(['governance_vote', 'swap']);
+    expect(transactions[1].timestamp).toBe('2024-01-01T00:00:00.000Z');
+    expect(transactions[1].details.protocol).toBe('Uniswap V3');
+  });
+
+  it('should honour the limit and convert the balance from wei', async () => {
+    const service = new BlockchainService(new FixtureProvider(CHAINS.ethereum, fixture));
+
+    expect(await service.fetchTransactions(WALLET, 1)).toHaveLength(1);
+    expect(await service.fetchBalance(WALLET)).toBe('1.5000');
+  });
+
+  it('should return no transactions for wallets missing from the fixture', async () => {
+    const service = new BlockchainService(new FixtureProvider(CHAINS.ethereum, fixture));
+    expect(await service.fetchTransactions('0x0000000000000000000000000000000000000000')).toEqual([]);
+  });
+
+  it('should select providers by chain and kind', () => {
+    expect(createChainDataProvider('arbitrum').chain.chainId).toBe(42161);
+    expect(createChainDataProvider('base', { provider: 'rpc' }).chain.rpcUrl).toBe('https://mainnet.base.org');
+    expect(() => createChainDataProvider('solana')).toThrow('Unsupported chain');
+    expect(() => createChainDataProvider('ethereum', { provider: 'fixture' })).toThrow('requires a fixture file');
+  });
+
+  it('should fill swap, mint and airdrop details from decoded token transfers', async () => {
+    const service = new BlockchainService(new FixtureProvider(CHAINS.ethereum, tokenFixture));
+    const [airdrop, mint, swap] = await service.fetchTransactions(WALLET);
+
+    expect(swap.type).toBe('swap');
+    expect(swap.details).toMatchObject({ token_in: 'USDC', amount_in: '2500', token_out: 'PEPE', amount_out: '1250' });
+
+    expect(mint.type).toBe('nft_mint');
+    expect(mint.details).toMatchObject({ collection: 'Azuki', token_id: '4242', price: '0.05' });
+
+    // Transfers without a parent transaction become airdrops
+    expect(airdrop.hash).toBe('0xdrop');
+    expect(airdrop.type).toBe('receive_airdrop');
+    expect(airdrop.details).toMatchObject({ token: 'ARB', amount: '625' });
+  });
+
+  it('should scale raw amounts by token decimals', () => {
+    expect(formatUnits('1500000', 6)).toBe('1.5');
+    expect(formatUnits('42', 18)).toBe('0.000000000000000042');
+    expect(formatUnits('1000000000000000000', 18)).toBe('1');
+    expect(formatUnits('0', 6)).toBe('0');
+    expect(formatUnits('7', 0)).toBe('7');
+  });
+
+  it('should infer lending, bridge, NFT trade, approval and transfer types', async () => {
+    const service = new BlockchainService(new FixtureProvider(CHAINS.ethereum, defiFixture));
+    const byHash = new Map((await service.fetchTransactions(WALLET)).map(tx => [tx.hash, tx]));
+
+    expect(byHash.get('0xborrow')).toMatchObject({ type: 'borrow', details: { token: 'USDC', amount: '1000' } });
+    expect(byHash.get('0xrepay')).toMatchObject({ type: 'repay', details: { token: 'USDC', amount: '400' } });
+    expect(byHash.get('0xwithdraw')).toMatchObject({ type: 'unstake', details: { token: 'USDC', amount: '250' } });
+    // Registry bridge contracts are bridges whatever the function called
+    expect(byHash.get('0xbridge')).toMatchObject({
+      type: 'bridge',
+      details: { protocol: 'Across', token: 'ETH', amount: '1', direction: 'out', source_chain_id: 1 },
+    });
+    expect(byHash.get('0xbuy')).toMatchObject({
+      type: 'nft_buy',
+      details: { collection: 'PudgyPenguins', token_id: '777', price: '0.5' },
+    });
+    expect(byHash.get('0xapprove')).toMatchObject({
+      type: 'approve',
+      details: { token: 'USDC', spender: 'Aave V3', is_unlimited: true },
+    });
+    expect(byHash.get('0xsend')).toMatchObject({ type: 'transfer', details: { token: 'ETH', amount: '0.2' } });
+  });
+
+  it('should decode the collateral seized and the debt covered by a liquidation', async () => {
+    const pad = (hex: string) => hex.replace(/^0x/, '').toLowerCase().padStart(64, '0');
+    const weth = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+    const usdc = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+    const borrower = '0x00000000000000000000000000000000000000b0';
+    const input = '0x00a718a9' + pad(weth) + pad(usdc) + pad(borrower) + pad((5000n * 10n ** 6n).toString(16)) + pad('0');
+
+    const service = new BlockchainService(new FixtureProvider(CHAINS.ethereum, {
+      [borrower]: {
+        transactions: [{
+          hash: '0xliquidation', timeStamp: '1704067200', from: '0xliquidator',
+          to: '0x87870bca3f3fd6335c3f4ce8392d69350b4fa4e2', value: '0', input,
+        }],
+        tokenTransfers: {
+          erc20: [{
+            hash: '0xliquidation', timeStamp: '1704067200', from: borrower, to: '0xliquidator',
+            contractAddress: weth, tokenSymbol: 'WETH', tokenName: 'Wrapped Ether', tokenDecimal: '18', value: '2000000000000000000',
+          }],
+        },
+      },
+    }));
+    const [liquidation] = await service.fetchTransactions(borrower);
+
+    expect(liquidation).toMatchObject({
+      type: 'liquidation',
+      details: { collateral_token: 'WETH', collateral_amount: '2', debt_token: 'USDC', debt_amount: '5000' },
+    });
+  });
+
+  it('should classify from decoded calldata when the explorer gives no function name', async () => {
+    const pad = (hex: string) => hex.replace(/^0x/, '').toLowerCase().padStart(64, '0');
+    const input = '0xf305d719' +
+      pad('0x6982508145454ce325ddbe47a25d4ec3d2311933') + pad('64') + pad('0') + pad('0') +
+      pad(WALLET) + pad('65a1b2c3');
+
+    const service = new BlockchainService(new FixtureProvider(CHAINS.ethereum, {
+      [WALLET]: {
+        transactions: [{
+          hash: '0xlp', timeStamp: '1704067200', from: WALLET,
+          to: '0x7a250d5630b4cf539739df2c5dacb4c659f2488d', value: '1000000000000000000', input,
+        }],
+      },
+    }));
+    const [lp] = await service.fetchTransactions(WALLET);
+
+    expect(lp.type).toBe('provide_liquidity');
+    expect(lp.details).toMatchObject({
+      token1: 'ETH',
+      amount1: '1',
+      token2: '0x6982508145454ce325ddbe47a25d4ec3d2311933',
+    });
+    expect(lp.details.decoded_call?.name).toBe('addLiquidityETH');
+  });
+});
@@ -1,57 +1,121 @@
-import axios from 'axios';
-import { Transaction, TransactionType } from '../types';
-
-export interface EtherscanTransaction {
-  hash: string;
+import {
+  Transaction,
+  TransactionType,
+  TransactionDetails,
+  ChainConfig,
+  EtherscanTransaction,
+  TokenTransfer,
+  DecodedCall,
+  DecodedValue,
+} from '../types';
+import { ChainDataProvider } from '../interfaces/ChainDataProvider';
+import { EtherscanProvider } from '../providers/EtherscanProvider.js';
+import { CHAINS } from '../providers/chains.js';
+import { TOKEN_STANDARDS, formatUnits, toTokenTransfer } from './tokenTransfers.js';
+import { CalldataDecoder } from '../decoders/CalldataDecoder.js';
+import { ProtocolRegistry } from '../registry/ProtocolRegistry.js';
+
+interface TransferGroup {
   timeStamp: string;
-  from: string;
-  to: string;
-  value: string;
-  methodId?: string;
-  functionName?: string;
-  input?: string;
+  blockNumber?: string;
+  transfers: TokenTransfer[];
 }
 
+export type { EtherscanTransaction };
+
+// Argument names that carry token addresses in the bundled ABI fragments
+const TOKEN_ARGUMENTS = ['tokenIn', 'tokenOut', 'tokenA', 'tokenB', 'token', 'asset', 'collateralAsset', 'debtAsset', 'localToken'];
+
+// Argument names that carry a bridge's destination chain id
+const CHAIN_ARGUMENTS = ['chainId', 'destinationChainId', 'dstChainId'];
+
+// ERC-20 allowance wallets grant to mean "no limit"
+const MAX_UINT256 = ((1n << 256n) - 1n).toString();
+
+// Function names of marketplace order fills
+const NFT_ORDER_FUNCTIONS = ['fulfill', 'matchorder', 'buy', 'takeask', 'takebid'];
+
 export class BlockchainService {
-  private apiKey: string;
-  private baseUrl: string;
+  private provider: ChainDataProvider;
+  private decoder: CalldataDecoder;
+  private registry: ProtocolRegistry;
+
+  constructor(
+    provider: ChainDataProvider = new EtherscanProvider(CHAINS.ethereum),
+    decoder: CalldataDecoder = new CalldataDecoder(),
+    registry: ProtocolRegistry = new ProtocolRegistry()
+  ) {
+    this.provider = provider;
+    this.decoder = decoder;
+    this.registry = registry;
+  }
 
-  constructor(apiKey: string = 'YourApiKeyToken') {
-    this.apiKey = apiKey;
-    this.baseUrl = 'https://api.etherscan.io/api';
+  get chain(): ChainConfig {
+    return this.provider.chain;
   }
 
   /**
-   * Fetch transactions from Etherscan for a given wallet address
+   * Fetch transactions for a given wallet address from the configured provider
+   * Token transfers (ERC-20, ERC-721, ERC-1155) are joined to their parent
+   * transaction by hash so details carry the real assets moved.
+   * With a startBlock, all activity from that block on is fetched, however
+   * much there is, e.g. from the last block an earlier analysis saw (its
+   * transactions come back again); limit is then only the page size
    */
-  async fetchTransactions(walletAddress: string, limit: number = 100): Promise<Transaction[]> {
-    try {
-      const response = await axios.get(this.baseUrl, {
-        params: {
-          module: 'account',
-          action: 'txlist',
-          address: walletAddress,
-          startblock: 0,
-          endblock: 99999999,
-          page: 1,
-          offset: limit,
-          sort: 'desc',
-          apikey: this.apiKey
-        }
-      });
-
-      if (response.data.status !== '1') {
-        throw new Error(`Etherscan API error: ${response.data.message}`);
+  async fetchTransactions(walletAddress: string, limit: number = 100, startBlock?: number): Promise<Transaction[]> {
+    const [rawTxs, transfersByHash] = await Promise.all([
+      this.provider.fetchTransactions(walletAddress, { limit, startBlock }),
+      this.fetchTransfersByHash(walletAddress, limit, startBlock),
+    ]);
+
+    const transactions = this.transformTransactions(rawTxs, walletAddress, transfersByHash);
+
+    // Incoming transfers without a parent in the wallet's own transaction list
+    // were initiated by someone else (airdrops, distributions, gifts)
+    const knownHashes = new Set(rawTxs.map(tx => tx.hash.toLowerCase()));
+    const orphans: EtherscanTransaction[] = [];
+    transfersByHash.forEach((group, hash) => {
+      const incoming = group.transfers.find(t => t.to === walletAddress.toLowerCase());
+      if (!knownHashes.has(hash) && incoming) {
+        orphans.push({
+          hash,
+          timeStamp: group.timeStamp,
+          from: incoming.from,
+          to: walletAddress,
+          value: '0',
+          blockNumber: group.blockNumber,
+        });
       }
+    });
 
-      const etherscanTxs: EtherscanTransaction[] = response.data.result;
-      return this.transformTransactions(etherscanTxs, walletAddress);
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        throw new Error(`Failed to fetch transactions: ${error.message}`);
-      }
-      throw error;
-    }
+    const newestFirst = [...transactions, ...this.transformTransactions(orphans, walletAddress, transfersByHash)]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    return startBlock !== undefined ? newestFirst : newestFirst.slice(0, limit);
+  }
+
+  /**
+   * Fetch every token transfer list and group the transfers by transaction hash
+   */
+  private async fetchTransfersByHash(
+    walletAddress: string,
+    limit: number,
+    startBlock?: number
+  ): Promise<Map<string, TransferGroup>> {
+    const lists = await Promise.all(
+      TOKEN_STANDARDS.map(standard => this.provider.fetchTokenTransfers(walletAddress, standard, { limit, startBlock }))
+    );
+
+    const groups = new Map<string, TransferGroup>();
+    lists.forEach((list, i) => {
+      list.forEach(raw => {
+        const hash = raw.hash.toLowerCase();
+        const group = groups.get(hash) || { timeStamp: raw.timeStamp, blockNumber: raw.blockNumber, transfers: [] };
+        group.transfers.push(toTokenTransfer(raw, TOKEN_STANDARDS[i]));
+        groups.set(hash, group);
+      });
+    });
+
+    return groups;
   }
 
   /**
@@ -59,27 +123,68 @@ export class BlockchainService {
    */
   private transformTransactions(
     etherscanTxs: EtherscanTransaction[],
-    walletAddress: string
+    walletAddress: string,
+    transfersByHash: Map<string, TransferGroup> = new Map()
   ): Transaction[] {
     return etherscanTxs.map(tx => {
-      const type = this.inferTransactionType(tx, walletAddress);
-      const details = this.extractDetails(tx, type, walletAddress);
+      const transfers = transfersByHash.get(tx.hash.toLowerCase())?.transfers ?? [];
+      const call = this.decoder.decode(tx.input);
+      const type = this.inferTransactionType(tx, walletAddress, call, transfers);
+      const details = this.extractDetails(tx, type, walletAddress, transfers, call);
 
-      return {
+      const transaction = {
         hash: tx.hash,
         timestamp: new Date(parseInt(tx.timeStamp) * 1000).toISOString(),
         type,
-        details
-      };
+        details,
+        chainId: this.chain.chainId
+      } as Transaction;
+      if (tx.blockNumber !== undefined) {
+        transaction.blockNumber = parseInt(tx.blockNumber);
+      }
+      return transaction;
     });
   }
 
   /**
    * Infer transaction type from Etherscan data
+   * Calls to registry bridges and NFT marketplaces are classified by the
+   * contract, then decoded calldata wins; explorer function names are the fallback
    */
-  private inferTransactionType(tx: EtherscanTransaction, walletAddress: string): TransactionType {
+  private inferTransactionType(
+    tx: EtherscanTransaction,
+    walletAddress: string,
+    call: DecodedCall | null = null,
+    transfers: TokenTransfer[] = []
+  ): TransactionType {
+    const wallet = walletAddress.toLowerCase();
     const functionName = tx.functionName?.toLowerCase() || '';
     const methodId = tx.methodId?.toLowerCase() || '';
+    const category = this.registry.findContract(this.chain.name, tx.to)?.protocol.category;
+
+    if (category === 'bridge') {
+      return 'bridge';
+    }
+
+    // Marketplace orders: the side is whichever way the NFT moved
+    const nft = transfers.find(t => t.standard !== 'erc20' && (t.to === wallet || t.from === wallet));
+    if (nft && (category === 'nft_marketplace' || NFT_ORDER_FUNCTIONS.some(name => functionName.includes(name)))) {
+      return nft.to === wallet ? 'nft_buy' : 'nft_sell';
+    }
+
+    const decodedType = call ? this.decoder.classify(call) : null;
+    if (decodedType === 'liquidation' && call?.args.user !== wallet) {
+      // Liquidating someone else trades the debt asset for their collateral
+      return 'swap';
+    }
+    if (decodedType) {
+      return decodedType;
+    }
+
+    // Liquidations
+    if (functionName.includes('liquidat')) {
+      return 'liquidation';
+    }
 
     // NFT minting
     if (functionName.includes('mint') || functionName.includes('safemint')) {
@@ -96,6 +201,25 @@ export class BlockchainService {
       return 'swap';
     }
 
+    // Bridging
+    if (functionName.includes('bridge')) {
+      return 'bridge';
+    }
+
+    // Liquidity removal
+    if (functionName.includes('removeliquidity')) {
+      return 'remove_liquidity';
+    }
+
+    // Unstaking and withdrawals (before staking: "unstake" contains "stake")
+    if (
+      functionName.includes('unstake') ||
+      functionName.includes('withdraw') ||
+      functionName.includes('redeem')
+    ) {
+      return 'unstake';
+    }
+
     // Staking
     if (functionName.includes('stake') || functionName.includes('deposit')) {
       return 'stake';
@@ -109,6 +233,15 @@ export class BlockchainService {
       return 'provide_liquidity';
     }
 
+    // Loans (before borrowing: "repayBorrow" contains "borrow")
+    if (functionName.includes('repay')) {
+      return 'repay';
+    }
+
+    if (functionName.includes('borrow')) {
+      return 'borrow';
+    }
+
     // Governance
     if (
       functionName.includes('vote') ||
@@ -117,148 +250,314 @@ export class BlockchainService {
       return 'governance_vote';
     }
 
+    // Reward claims
+    if (
+      functionName.includes('claim') ||
+      functionName.includes('getreward') ||
+      functionName.includes('harvest')
+    ) {
+      return 'claim_rewards';
+    }
+
+    // Allowances
+    if (functionName.includes('approv')) {
+      return 'approve';
+    }
+
+    // Token transfers
+    if (functionName.includes('transfer')) {
+      return 'transfer';
+    }
+
     // Airdrops (receiving tokens)
-    if (tx.from.toLowerCase() !== walletAddress.toLowerCase() && tx.value === '0') {
+    if (tx.from.toLowerCase() !== wallet && tx.value === '0') {
       return 'receive_airdrop';
     }
 
+    // Plain native transfers carry value and no call
+    if (tx.value !== '0' && !functionName && (!tx.input || tx.input === '0x')) {
+      return 'transfer';
+    }
+
     // Default to token hold
     return 'token_hold';
   }
 
   /**
    * Extract transaction details
+   * Assets come from the decoded token transfers, relative to the wallet:
+   * what it sent is the input side, what it received is the output side
    */
   private extractDetails(
     tx: EtherscanTransaction,
     type: TransactionType,
-    walletAddress: string
-  ): any {
+    walletAddress: string,
+    transfers: TokenTransfer[] = [],
+    call: DecodedCall | null = null
+  ): TransactionDetails {
     const protocol = this.inferProtocol(tx);
-    const isNewProtocol = this.isNewProtocol(tx);
+    const wallet = walletAddress.toLowerCase();
+    const native = this.chain.nativeSymbol;
 
-    const details: any = {
+    const incoming = transfers.filter(t => t.to === wallet);
+    const outgoing = transfers.filter(t => t.from === wallet);
+    const sentNative = tx.value !== '0' && tx.from.toLowerCase() === wallet;
+    const nativeAmount = formatUnits(tx.value, 18);
+    // Fallback when no transfers were indexed: token addresses named in the call
+    const callTokens = this.tokensFromCall(call);
+
+    const details: Record<string, unknown> = {
       protocol,
-      is_new_protocol: isNewProtocol,
       value: tx.value,
       from: tx.from,
       to: tx.to
     };
 
+    if (transfers.length > 0) {
+      details.transfers = transfers;
+    }
+
+    if (call) {
+      details.decoded_call = call;
+    }
+
     // Add type-specific details
     switch (type) {
-      case 'swap':
-        details.token_in = 'ETH';
-        details.token_out = 'Unknown';
+      case 'swap': {
+        const sold = outgoing[0];
+        const bought = incoming[0];
+        details.token_in = sold?.symbol ?? (sentNative ? native : callTokens[0] ?? native);
+        details.amount_in = sold?.amount ?? nativeAmount;
+        // Token -> native swaps pay out through an internal transfer
+        details.token_out = bought?.symbol ?? (callTokens.length > 1 ? callTokens[callTokens.length - 1] : undefined)
+          ?? (sold ? native : 'Unknown');
+        if (bought) {
+          details.amount_out = bought.amount;
+        }
         break;
+      }
 
-      case 'nft_mint':
-        details.collection = protocol;
-        details.token_id = 'Unknown';
+      case 'nft_mint': {
+        const nft = incoming.find(t => t.standard !== 'erc20');
+        details.collection = nft?.name ?? protocol;
+        details.token_id = nft?.tokenId ?? 'Unknown';
+        if (sentNative) {
+          details.price = nativeAmount;
+        }
         break;
+      }
 
-      case 'stake':
-        details.token = 'ETH';
-        details.amount = tx.value;
+      case 'stake': {
+        const staked = outgoing[0];
+        details.token = staked?.symbol ?? callTokens[0] ?? native;
+        details.amount = staked?.amount ?? nativeAmount;
         details.is_stable = false;
         break;
+      }
 
-      case 'provide_liquidity':
-        details.token1 = 'ETH';
-        details.token2 = 'Unknown';
-        details.is_volatile = true;
+      case 'provide_liquidity': {
+        const assets = outgoing.map(t => ({ token: t.symbol, amount: t.amount }));
+        if (sentNative) {
+          assets.unshift({ token: native, amount: nativeAmount });
+        }
+        if (outgoing.length === 0) {
+          callTokens.forEach(token => assets.push({ token, amount: '' }));
+        }
+        details.token1 = assets[0]?.token ?? native;
+        details.token2 = assets[1]?.token ?? 'Unknown';
+        details.amount1 = assets[0]?.amount;
+        details.amount2 = assets[1]?.amount;
         break;
+      }
 
-      case 'token_hold':
-        details.token = 'ETH';
+      case 'token_hold': {
+        const moved = incoming[0] ?? outgoing[0];
+        details.token = moved?.symbol ?? native;
+        details.amount = moved?.amount ?? nativeAmount;
         details.duration_days = 0;
-        details.is_blue_chip = this.isBlueChip(tx.to);
+        details.is_blue_chip = this.isBlueChip(moved?.contractAddress ?? tx.to);
         break;
+      }
 
       case 'governance_vote':
-        details.proposal_id = 'Unknown';
+        details.proposal_id = typeof call?.args.proposalId === 'string' ? call.args.proposalId : 'Unknown';
+        if (call?.args.support !== undefined) {
+          details.vote = String(call.args.support);
+        }
         break;
 
       case 'receive_airdrop':
-        details.token = 'Unknown';
-        details.amount = tx.value;
+      case 'claim_rewards': {
+        const received = incoming[0];
+        details.token = received?.symbol ?? 'Unknown';
+        details.amount = received?.amount ?? tx.value;
         break;
+      }
+
+      case 'borrow':
+      case 'unstake': {
+        const received = incoming[0];
+        details.token = received?.symbol ?? callTokens[0] ?? native;
+        details.amount = received?.amount ?? nativeAmount;
+        break;
+      }
+
+      case 'repay': {
+        const repaid = outgoing[0];
+        details.token = repaid?.symbol ?? (sentNative ? native : callTokens[0] ?? native);
+        details.amount = repaid?.amount ?? nativeAmount;
+        break;
+      }
+
+      case 'liquidation': {
+        // Only the collateral seized from the wallet shows up as a transfer
+        const seized = outgoing[0];
+        details.collateral_token = seized?.symbol ?? callTokens[0] ?? 'Unknown';
+        details.collateral_amount = seized?.amount;
+        details.debt_token = callTokens[1] ?? 'Unknown';
+        details.debt_amount = this.tokenAmountFromCall(call, 'debtToCover', 'debtAsset');
+        break;
+      }
+
+      case 'bridge': {
+        // Sent by the wallet: funds leave this chain; otherwise they arrived on it
+        const outbound = tx.from.toLowerCase() === wallet;
+        const moved = outbound ? outgoing[0] : incoming[0];
+        details.token = moved?.symbol ?? (outbound && !sentNative ? callTokens[0] ?? native : native);
+        details.amount = moved?.amount ?? nativeAmount;
+        details.direction = outbound ? 'out' : 'in';
+        if (outbound) {
+          details.source_chain_id = this.chain.chainId;
+          details.destination_chain_id = this.chainIdFromCall(call);
+        } else {
+          details.destination_chain_id = this.chain.chainId;
+        }
+        break;
+      }
+
+      case 'remove_liquidity': {
+        const assets = incoming.map(t => ({ token: t.symbol, amount: t.amount }));
+        if (incoming.length === 0) {
+          callTokens.forEach(token => assets.push({ token, amount: '' }));
+        }
+        details.token1 = assets[0]?.token ?? native;
+        details.token2 = assets[1]?.token ?? 'Unknown';
+        details.amount1 = assets[0]?.amount;
+        details.amount2 = assets[1]?.amount;
+        break;
+      }
+
+      case 'nft_buy':
+      case 'nft_sell': {
+        const bought = type === 'nft_buy';
+        const nft = (bought ? incoming : outgoing).find(t => t.standard !== 'erc20');
+        // Paid in an ERC-20 when one moved the other way, else in the native token
+        const payment = (bought ? outgoing : incoming).find(t => t.standard === 'erc20');
+        details.collection = nft?.name ?? protocol;
+        details.token_id = nft?.tokenId ?? 'Unknown';
+        if (payment) {
+          details.price = payment.amount;
+          details.payment_token = payment.symbol;
+        } else if (sentNative) {
+          details.price = nativeAmount;
+        }
+        break;
+      }
+
+      case 'approve': {
+        const spender = call?.args.spender ?? call?.args.operator;
+        details.token = this.registry.findTokenByAddress(this.chain.name, tx.to)?.symbol ?? tx.to;
+        details.spender = typeof spender === 'string'
+          ? this.registry.nameForAddress(this.chain.name, spender) ?? spender
+          : 'Unknown';
+        details.is_unlimited = call?.args.amount === MAX_UINT256 || call?.args.approved === true;
+        break;
+      }
+
+      case 'transfer': {
+        const moved = outgoing[0] ?? incoming[0];
+        details.token = moved?.symbol ?? native;
+        details.amount = moved?.amount ?? nativeAmount;
+        break;
+      }
     }
 
-    return details;
+    return details as TransactionDetails;
   }
 
   /**
-   * Infer protocol from transaction
+   * Token symbols (or addresses, when unknown) referenced by a decoded call
+   * Router paths contribute their first and last hop
    */
-  private inferProtocol(tx: EtherscanTransaction): string {
-    const knownProtocols: { [key: string]: string } = {
-      '0x7a250d5630b4cf539739df2c5dacb4c659f2488d': 'Uniswap V2',
-      '0xe592427a0aece92de3edee1f18e0157c05861564': 'Uniswap V3',
-      '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45': 'Uniswap',
-      '0x7d2768de32b0b80b7a3454c06bdac94a69ddc7a9': 'Aave',
-      '0x3d9819210a31b4961b30ef54be2aed79b9c9cd3b': 'Compound',
-      '0xae7ab96520de3a18e5e111b5eaab095312d7fe84': 'Lido',
-      '0x1f98431c8ad98523631ae4a59f267346ea31f984': 'Uniswap V3 Factory',
-      '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2': 'WETH',
-      '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': 'USDC',
-      '0xdac17f958d2ee523a2206206994597c13d831ec7': 'USDT'
+  private tokensFromCall(call: DecodedCall | null): string[] {
+    if (!call) {
+      return [];
+    }
+
+    const params = call.args.params;
+    const args: Record<string, DecodedValue> = {
+      ...call.args,
+      ...(params && typeof params === 'object' && !Array.isArray(params) ? params : {}),
     };
 
-    const toAddress = tx.to?.toLowerCase();
-    return knownProtocols[toAddress] || 'Unknown Protocol';
+    const addresses: string[] = [];
+    if (Array.isArray(args.path) && args.path.length > 0) {
+      addresses.push(String(args.path[0]), String(args.path[args.path.length - 1]));
+    }
+    TOKEN_ARGUMENTS.forEach(name => {
+      const value = args[name];
+      if (typeof value === 'string' && value.startsWith('0x')) {
+        addresses.push(value);
+      }
+    });
+
+    return addresses.map(address => this.registry.nameForAddress(this.chain.name, address) ?? address);
   }
 
   /**
-   * Check if protocol is new (launched in last 6 months)
+   * A decoded uint256 argument as a decimal amount of the token another
+   * argument names, scaled by the registry's decimals (18 when unlisted).
+   * Max uint256 means "as much as possible", so it has no amount
    */
-  private isNewProtocol(tx: EtherscanTransaction): boolean {
-    // Simplified: mark unknown protocols as potentially new
-    const protocol = this.inferProtocol(tx);
-    return protocol === 'Unknown Protocol';
+  private tokenAmountFromCall(call: DecodedCall | null, argument: string, tokenArgument: string): string | undefined {
+    const raw = call?.args[argument];
+    const token = call?.args[tokenArgument];
+    if (typeof raw !== 'string' || !/^\d+$/.test(raw) || raw === MAX_UINT256 || typeof token !== 'string') {
+      return undefined;
+    }
+    return formatUnits(raw, this.registry.findTokenByAddress(this.chain.name, token)?.decimals ?? 18);
+  }
+
+  /**
+   * Destination chain id named in a decoded bridge call
+   */
+  private chainIdFromCall(call: DecodedCall | null): number | undefined {
+    const value = CHAIN_ARGUMENTS.map(name => call?.args[name]).find(arg => typeof arg === 'string');
+    const chainId = typeof value === 'string' ? parseInt(value, 10) : NaN;
+    return Number.isInteger(chainId) && chainId > 0 ? chainId : undefined;
+  }
+
+  /**
+   * Infer protocol from the registry entry for the contract called
+   */
+  private inferProtocol(tx: EtherscanTransaction): string {
+    return this.registry.nameForAddress(this.chain.name, tx.to) ?? 'Unknown Protocol';
   }
 
   /**
    * Check if token is blue-chip
    */
   private isBlueChip(address: string): boolean {
-    const blueChipAddresses = [
-      '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', // WETH
-      '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599', // WBTC
-      '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', // USDC
-      '0xdac17f958d2ee523a2206206994597c13d831ec7'  // USDT
-    ];
-    return blueChipAddresses.includes(address?.toLowerCase());
+    return this.registry.findTokenByAddress(this.chain.name, address)?.classification === 'blue_chip';
   }
 
   /**
-   * Fetch wallet balance
+   * Fetch wallet balance in the chain's native token
    */
   async fetchBalance(walletAddress: string): Promise<string> {
-    try {
-      const response = await axios.get(this.baseUrl, {
-        params: {
-          module: 'account',
-          action: 'balance',
-          address: walletAddress,
-          tag: 'latest',
-          apikey: this.apiKey
-        }
-      });
-
-      if (response.data.status !== '1') {
-        throw new Error(`Etherscan API error: ${response.data.message}`);
-      }
-
-      // Convert from Wei to ETH
-      const balanceWei = response.data.result;
-      const balanceEth = (parseInt(balanceWei) / 1e18).toFixed(4);
-      return balanceEth;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        throw new Error(`Failed to fetch balance: ${error.message}`);
-      }
-      throw error;
-    }
+    // Convert from Wei to the native unit
+    const balanceWei = await this.provider.fetchBalance(walletAddress);
+    const balance = (parseInt(balanceWei) / 1e18).toFixed(4);
+    return balance;
   }
 }
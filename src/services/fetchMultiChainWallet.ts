@@ -0,0 +1,31 @@
+import { MultiChainWalletInput } from '../types';
+import { BlockchainService } from './BlockchainService.js';
+import { createChainDataProvider, ProviderOptions } from '../providers/createChainDataProvider.js';
+import { CalldataDecoder } from '../decoders/CalldataDecoder.js';
+import { ProtocolRegistry } from '../registry/ProtocolRegistry.js';
+
+/**
+ * Fetch one address's transactions from several chains in parallel
+ * The result is the input expected by analyzeMultiChainWallet
+ */
+export async function fetchMultiChainWallet(
+  walletAddress: string,
+  chains: string[],
+  limit: number = 100,
+  options: ProviderOptions = {},
+  decoder: CalldataDecoder = new CalldataDecoder(),
+  registry: ProtocolRegistry = new ProtocolRegistry()
+): Promise<MultiChainWalletInput> {
+  const services = chains.map(
+    chain => new BlockchainService(createChainDataProvider(chain, options), decoder, registry)
+  );
+
+  const results = await Promise.all(
+    services.map(async service => ({
+      chainId: service.chain.chainId,
+      transactions: await service.fetchTransactions(walletAddress, limit),
+    }))
+  );
+
+  return { walletAddress, chains: results };
+}
@@ -0,0 +1,48 @@
+import { EtherscanTokenTransfer, TokenStandard, TokenTransfer } from '../types';
+
+export const TOKEN_STANDARDS: TokenStandard[] = ['erc20', 'erc721', 'erc1155'];
+
+/**
+ * Scale a raw integer amount by the token's decimals, e.g. ("1500000", 6) -> "1.5"
+ */
+export function formatUnits(raw: string, decimals: number): string {
+  if (!/^\d+$/.test(raw)) {
+    return raw;
+  }
+
+  const digits = raw.replace(/^0+/, '').padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Convert a raw explorer transfer into the internal TokenTransfer shape
+ */
+export function toTokenTransfer(raw: EtherscanTokenTransfer, standard: TokenStandard): TokenTransfer {
+  const transfer: TokenTransfer = {
+    standard,
+    contractAddress: raw.contractAddress.toLowerCase(),
+    symbol: raw.tokenSymbol || raw.tokenName || raw.contractAddress,
+    name: raw.tokenName || raw.tokenSymbol || raw.contractAddress,
+    from: raw.from.toLowerCase(),
+    to: raw.to.toLowerCase(),
+    amount: '1',
+  };
+
+  switch (standard) {
+    case 'erc20':
+      transfer.amount = formatUnits(raw.value ?? '0', parseInt(raw.tokenDecimal ?? '18', 10) || 0);
+      break;
+    case 'erc721':
+      transfer.tokenId = raw.tokenID;
+      break;
+    case 'erc1155':
+      transfer.tokenId = raw.tokenID;
+      transfer.amount = raw.tokenValue ?? '1';
+      break;
+  }
+
+  return transfer;
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SimilarityIndex } from './SimilarityIndex';
+import { buildFeatureVector, FEATURE_NAMES } from './featureVector';
+import { TransactionAnalyzer } from '../analyzers/TransactionAnalyzer';
+import { ScoreCalculator } from '../calculators/ScoreCalculator';
+import { analyzeWallet } from '../index';
+
+const example = (name: string) =>
+  JSON.parse(fs.readFileSync(path.join(__dirname, '../../examples', name), 'utf-8'));
+
+describe('Similarity search', () => {
+  it('should build a named feature vector scaled to 0-1', () => {
+    const { transactions } = example('wallet1-defi-degen.json');
+    const analysis = new TransactionAnalyzer().analyze(transactions);
+    const calculator = new ScoreCalculator();
+    const scores = {
+      riskAppetite: calculator.calculateRiskAppetite(analysis),
+      loyalty: calculator.calculateLoyalty(analysis),
+      activity: calculator.calculateActivity(analysis),
+    };
+    const features = buildFeatureVector(analysis, scores);
+
+    expect(Object.keys(features)).toEqual(FEATURE_NAMES);
+    expect(Object.values(features).every(value => value >= 0 && value <= 1)).toBe(true);
+    expect(features.riskAppetite).toBe(scores.riskAppetite / 100);
+    expect(features['share:swap']).toBeGreaterThan(0);
+  });
+
+  it('should rank a lookalike wallet first among previously analyzed wallets', () => {
+    const index = new SimilarityIndex();
+    const degen = example('wallet1-defi-degen.json');
+    ['wallet1-defi-degen.json', 'wallet2-steady-staker.json', 'wallet3-nft-collector.json', 'wallet4-airdrop-hunter.json']
+      .forEach(name => analyzeWallet(JSON.stringify(example(name)), { similarityIndex: index }));
+    const lookalike = { ...degen, walletAddress: '0x000000000000000000000000000000000000c0de' };
+    const profile = JSON.parse(analyzeWallet(JSON.stringify(lookalike), { similarityIndex: index, features: true }));
+
+    const similar = index.findSimilar(profile, 2);
+    expect(index.size).toBe(5);
+    expect(similar).toHaveLength(2);
+    expect(similar[0]).toEqual({ walletAddress: degen.walletAddress, similarity: 1 });
+    expect(similar[1].similarity).toBeLessThan(1);
+    expect(index.findSimilar({ walletAddress: degen.walletAddress }, 1)[0].walletAddress).toBe(lookalike.walletAddress);
+  });
+
+  it('should measure euclidean distance, treating missing features as 0', () => {
+    const index = new SimilarityIndex({ metric: 'euclidean' });
+    index.add('0xa', { x: 0, y: 0 });
+    index.add('0xb', { x: 0.3, y: 0.4 });
+    index.add('0xc', { x: 1 });
+
+    expect(index.findSimilar({ walletAddress: '0xa' })).toEqual([
+      { walletAddress: '0xb', similarity: 0.6667, distance: 0.5 },
+      { walletAddress: '0xc', similarity: 0.5, distance: 1 },
+    ]);
+  });
+
+  it('should persist the index to disk', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'similarity-')), 'index.ndjson');
+    const index = new SimilarityIndex({ file });
+    index.add('0xAbC', { x: 0, y: 1 });
+    index.add('0xAbC', { x: 1, y: 0 });
+    index.add('0xdef', { x: 1, y: 1 });
+    index.remove('0xdef');
+    await index.flush();
+    expect(fs.readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(4);
+
+    const reloaded = new SimilarityIndex({ file });
+    // Superseded and removed entries are compacted away on load
+    expect(fs.readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(1);
+    expect(reloaded.size).toBe(1);
+    expect(reloaded.features('0xabc')).toEqual({ x: 1, y: 0 });
+    expect(reloaded.findSimilar({ walletAddress: '0xnew', features: { x: 2, y: 0 } })).toEqual([
+      { walletAddress: '0xAbC', similarity: 1 },
+    ]);
+  });
+
+  it('should reject flush and later changes once a write fails', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'similarity-'));
+    const file = path.join(dir, 'index.ndjson');
+    const index = new SimilarityIndex({ file });
+    fs.mkdirSync(file); // appending to a directory fails
+
+    index.add('0xa', { x: 1 });
+    await expect(index.flush()).rejects.toThrow(`Failed to write similarity index ${file}: EISDIR`);
+    expect(() => index.add('0xb', { x: 1 })).toThrow('Failed to write similarity index');
+    expect(index.size).toBe(1);
+  });
+
+  it('should reject unknown wallets, bad k and unknown metrics', () => {
+    const index = new SimilarityIndex();
+    index.add('0xa', { x: 1 });
+
+    expect(() => index.findSimilar({ walletAddress: '0xb' })).toThrow('No feature vector for wallet 0xb');
+    expect(() => index.findSimilar({ walletAddress: '0xa' }, 0)).toThrow('Invalid k: 0');
+    expect(() => new SimilarityIndex({ metric: 'manhattan' as never })).toThrow('Invalid similarity metric: manhattan');
+  });
+});
@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import { SimilarityMetric, SimilarWallet, WalletFeatures } from '../types';
+
+export const SIMILARITY_METRICS: SimilarityMetric[] = ['cosine', 'euclidean'];
+
+export interface SimilarityIndexOptions {
+  metric?: SimilarityMetric; // defaults to cosine
+  file?: string; // NDJSON log, loaded when it exists and appended to on every change
+}
+
+// One line of the index file: a wallet's latest vector, or its removal
+type SimilarityIndexEntry =
+  | { walletAddress: string; features: WalletFeatures }
+  | { walletAddress: string; removed: true };
+
+/**
+ * In-memory index of wallet feature vectors for "find wallets like this one".
+ * Wallets are keyed by lowercased address, so re-adding a wallet replaces
+ * its vector. A brute-force scan: fine for the tens of thousands of wallets
+ * one process analyzes.
+ *
+ * With a file, every change is appended to it in the background, in order,
+ * so adding never waits on disk or rewrites the whole index; flush() waits
+ * for the pending writes. Once a write fails, flush() rejects and every
+ * later change throws, so the index never silently drifts from its file.
+ * Superseded lines are compacted away on load.
+ */
+export class SimilarityIndex {
+  readonly metric: SimilarityMetric;
+  private readonly file?: string;
+  private readonly wallets = new Map<string, { walletAddress: string; features: WalletFeatures }>();
+  private writes: Promise<void> = Promise.resolve();
+  private writeError?: Error;
+
+  constructor(options: SimilarityIndexOptions = {}) {
+    this.metric = options.metric ?? 'cosine';
+    if (!SIMILARITY_METRICS.includes(this.metric)) {
+      throw new Error(`Invalid similarity metric: ${this.metric}. Must be one of: ${SIMILARITY_METRICS.join(', ')}`);
+    }
+
+    this.file = options.file;
+    if (this.file && fs.existsSync(this.file)) {
+      this.load(this.file);
+    }
+  }
+
+  get size(): number {
+    return this.wallets.size;
+  }
+
+  add(walletAddress: string, features: WalletFeatures): void {
+    this.assertWritable();
+    this.wallets.set(walletAddress.toLowerCase(), { walletAddress, features });
+    this.append({ walletAddress, features });
+  }
+
+  remove(walletAddress: string): boolean {
+    this.assertWritable();
+    const removed = this.wallets.delete(walletAddress.toLowerCase());
+    if (removed) {
+      this.append({ walletAddress, removed: true });
+    }
+    return removed;
+  }
+
+  /**
+   * Resolves once every change so far is written to the file
+   */
+  flush(): Promise<void> {
+    return this.writes.then(() => this.assertWritable());
+  }
+
+  features(walletAddress: string): WalletFeatures | undefined {
+    return this.wallets.get(walletAddress.toLowerCase())?.features;
+  }
+
+  /**
+   * The k indexed wallets most like the profile, most similar first, never
+   * the profile's own wallet. A profile without features is looked up by address
+   */
+  findSimilar(profile: { walletAddress: string; features?: WalletFeatures }, k = 20): SimilarWallet[] {
+    const features = profile.features ?? this.features(profile.walletAddress);
+    if (!features) {
+      throw new Error(`No feature vector for wallet ${profile.walletAddress}; analyze it first`);
+    }
+    if (!Number.isInteger(k) || k < 1) {
+      throw new Error(`Invalid k: ${k}. Must be a positive integer`);
+    }
+
+    const self = profile.walletAddress.toLowerCase();
+    return Array.from(this.wallets.entries())
+      .filter(([key]) => key !== self)
+      .map(([, wallet]) => this.compare(wallet.walletAddress, features, wallet.features))
+      .sort((a, b) => b.similarity - a.similarity || a.walletAddress.localeCompare(b.walletAddress))
+      .slice(0, k);
+  }
+
+  private compare(walletAddress: string, a: WalletFeatures, b: WalletFeatures): SimilarWallet {
+    // Features missing from either vector count as 0
+    const names = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+    const x = names.map(name => a[name] ?? 0);
+    const y = names.map(name => b[name] ?? 0);
+
+    if (this.metric === 'euclidean') {
+      const distance = Math.sqrt(x.reduce((sum, value, i) => sum + (value - y[i]) ** 2, 0));
+      return {
+        walletAddress,
+        similarity: Math.round((1 / (1 + distance)) * 10000) / 10000,
+        distance: Math.round(distance * 10000) / 10000,
+      };
+    }
+
+    const dot = x.reduce((sum, value, i) => sum + value * y[i], 0);
+    const norms = Math.sqrt(x.reduce((sum, v) => sum + v * v, 0)) * Math.sqrt(y.reduce((sum, v) => sum + v * v, 0));
+    return { walletAddress, similarity: norms > 0 ? Math.round((dot / norms) * 10000) / 10000 : 0 };
+  }
+
+  private load(file: string): void {
+    let lines: string[];
+    try {
+      lines = fs.readFileSync(file, 'utf-8').split('\n').filter(line => line.trim() !== '');
+    } catch (error) {
+      throw new Error(
+        `Failed to load similarity index ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    lines.forEach((line, index) => {
+      let entry: SimilarityIndexEntry;
+      try {
+        entry = JSON.parse(line) as SimilarityIndexEntry;
+      } catch (error) {
+        throw new Error(
+          `Invalid similarity index JSON at ${file}:${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+      if ('removed' in entry) {
+        this.wallets.delete(entry.walletAddress.toLowerCase());
+      } else {
+        this.wallets.set(entry.walletAddress.toLowerCase(), entry);
+      }
+    });
+
+    if (lines.length > this.wallets.size) {
+      const compacted = Array.from(this.wallets.values()).map(wallet => JSON.stringify(wallet) + '\n');
+      fs.writeFileSync(file, compacted.join(''));
+    }
+  }
+
+  private append(entry: SimilarityIndexEntry): void {
+    const file = this.file;
+    if (!file) {
+      return;
+    }
+    this.writes = this.writes
+      .then(() => this.writeError ? undefined : fs.promises.appendFile(file, JSON.stringify(entry) + '\n'))
+      .catch(error => {
+        this.writeError = new Error(
+          `Failed to write similarity index ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      });
+  }
+
+  private assertWritable(): void {
+    if (this.writeError) {
+      throw this.writeError;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { AnalysisResult, Scores, TransactionType, WalletFeatures } from '../types';
+import { TRANSACTION_DETAIL_SCHEMAS } from '../normalizers/TransactionNormalizer.js';
+
+const TRANSACTION_TYPES = Object.keys(TRANSACTION_DETAIL_SCHEMAS) as TransactionType[];
+
+/**
+ * Feature names in vector order. Vectors built by another version of this
+ * list still compare: missing features count as 0
+ */
+export const FEATURE_NAMES: string[] = [
+  'riskAppetite',
+  'loyalty',
+  'activity',
+  'transactionVolume',
+  'protocolCount',
+  'topProtocolShare',
+  'newProtocolShare',
+  'airdropFlipShare',
+  'blueChipHoldings',
+  'stablecoinShare',
+  'blueChipShare',
+  'concentration',
+  'peakLoanToValue',
+  'leverageLoops',
+  'chainsVisited',
+  'unlimitedApprovals',
+  ...TRANSACTION_TYPES.map(type => `share:${type}`),
+];
+
+/**
+ * Feature vector for similarity search: the three scores plus the make-up
+ * of the wallet's history, each scaled to roughly 0-1 so no single feature
+ * dominates euclidean distance. Counts saturate at a typical upper end
+ */
+export function buildFeatureVector(analysis: AnalysisResult, scores: Scores): WalletFeatures {
+  const total = analysis.totalTransactions;
+  const share = (count: number) => (total > 0 ? count / total : 0);
+  const saturate = (count: number, ceiling: number) => Math.min(1, count / ceiling);
+  const protocolCounts = Array.from(analysis.protocolFrequency.values());
+  const protocolTransactions = protocolCounts.reduce((sum, count) => sum + count, 0);
+  const airdrops = analysis.transactionTypes.get('receive_airdrop') || 0;
+
+  const features: WalletFeatures = {
+    riskAppetite: scores.riskAppetite / 100,
+    loyalty: scores.loyalty / 100,
+    activity: scores.activity / 100,
+    transactionVolume: Math.min(1, Math.log10(1 + total) / 3), // 1 at ~1000 transactions
+    protocolCount: saturate(protocolCounts.length, 20),
+    topProtocolShare: protocolTransactions > 0 ? Math.max(...protocolCounts) / protocolTransactions : 0,
+    newProtocolShare: share(analysis.newProtocolInteractions),
+    airdropFlipShare: airdrops > 0 ? Math.min(1, analysis.airdropFlips.length / airdrops) : 0,
+    blueChipHoldings: saturate(analysis.blueChipHoldings.length, 5),
+    // Portfolio shares and concentration exist only for USD-valued portfolios
+    stablecoinShare: (analysis.portfolio?.stablecoinShare ?? 0) / 100,
+    blueChipShare: (analysis.portfolio?.blueChipShare ?? 0) / 100,
+    concentration: analysis.portfolio?.herfindahlIndex ?? 0,
+    peakLoanToValue: Math.min(1, analysis.lending?.peakLoanToValue ?? 0),
+    leverageLoops: saturate(analysis.lending?.leverageLoops.length ?? 0, 3),
+    chainsVisited: saturate(analysis.crossChain?.chainsVisited.length ?? 0, 5),
+    unlimitedApprovals: saturate(analysis.unlimitedApprovals.length, 10),
+  };
+  TRANSACTION_TYPES.forEach(type => {
+    features[`share:${type}`] = share(analysis.transactionTypes.get(type) || 0);
+  });
+
+  Object.keys(features).forEach(name => {
+    features[name] = Math.round(features[name] * 10000) / 10000;
+  });
+  return features;
+}
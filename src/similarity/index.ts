@@ -0,0 +1,2 @@
+export * from './featureVector.js';
+export * from './SimilarityIndex.js';
@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import { AnalysisRun } from '../types';
+import { MemoryPersonaStore } from './MemoryPersonaStore.js';
+
+/**
+ * Persona store backed by an NDJSON file, one run per line. The file is
+ * read once when the store is created and every new run is appended, so
+ * history is never rewritten
+ */
+export class FilePersonaStore extends MemoryPersonaStore {
+  constructor(private readonly file: string) {
+    super();
+    if (fs.existsSync(file)) {
+      this.load();
+    }
+  }
+
+  async save(run: AnalysisRun): Promise<void> {
+    await fs.promises.appendFile(this.file, JSON.stringify(run) + '\n');
+    this.add(run);
+  }
+
+  private load(): void {
+    let lines: string[];
+    try {
+      lines = fs.readFileSync(this.file, 'utf-8').split('\n');
+    } catch (error) {
+      throw new Error(
+        `Failed to load persona store ${this.file}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    lines.forEach((line, index) => {
+      if (line.trim() === '') {
+        return;
+      }
+      try {
+        this.add(JSON.parse(line));
+      } catch (error) {
+        throw new Error(
+          `Invalid persona store JSON at ${this.file}:${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    });
+  }
+}
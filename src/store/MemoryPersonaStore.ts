@@ -0,0 +1,41 @@
+import { AnalysisRun } from '../types';
+import { PersonaStore } from '../interfaces/PersonaStore';
+
+/**
+ * Persona store held in process memory, lost on restart
+ */
+export class MemoryPersonaStore implements PersonaStore {
+  private readonly runs = new Map<string, AnalysisRun>();
+  private readonly byKey = new Map<string, AnalysisRun[]>();
+
+  async save(run: AnalysisRun): Promise<void> {
+    this.add(run);
+  }
+
+  async get(id: string): Promise<AnalysisRun | undefined> {
+    return this.runs.get(id);
+  }
+
+  async latest(key: string): Promise<AnalysisRun | undefined> {
+    const runs = this.byKey.get(key);
+    return runs?.[runs.length - 1];
+  }
+
+  async history(key: string): Promise<AnalysisRun[]> {
+    return [...(this.byKey.get(key) ?? [])];
+  }
+
+  async latestRuns(): Promise<AnalysisRun[]> {
+    return Array.from(this.byKey.values(), runs => runs[runs.length - 1]);
+  }
+
+  protected add(run: AnalysisRun): void {
+    this.runs.set(run.id, run);
+    const runs = this.byKey.get(run.key);
+    if (runs) {
+      runs.push(run);
+    } else {
+      this.byKey.set(run.key, [run]);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { PersonaCache, personaCacheKey } from './PersonaCache';
+import { DEFAULT_SCORING_MODEL } from '../calculators/scoringModel';
+import { PersonaOutput } from '../types';
+
+const persona = (walletAddress: string, personaTitle = 'Steady Staker'): PersonaOutput => ({
+  walletAddress,
+  personaTitle,
+  summary: '',
+  scores: { riskAppetite: 20, loyalty: 80, activity: 40 },
+  keyTraits: [],
+  notableProtocols: [],
+});
+
+describe('PersonaCache', () => {
+  it('should key personas by input content, scoring model and asOf date', () => {
+    const input = { walletAddress: '0xa', transactions: [{ hash: '0x1', type: 'swap' }] };
+    const key = personaCacheKey(input, { model: DEFAULT_SCORING_MODEL });
+
+    expect(personaCacheKey({ transactions: [{ type: 'swap', hash: '0x1' }], walletAddress: '0xa' }, { model: DEFAULT_SCORING_MODEL }))
+      .toBe(key);
+    expect(personaCacheKey({ ...input, transactions: [] }, { model: DEFAULT_SCORING_MODEL })).not.toBe(key);
+    expect(personaCacheKey(input, { model: { ...DEFAULT_SCORING_MODEL, version: 'custom' } })).not.toBe(key);
+    expect(personaCacheKey(input, { model: DEFAULT_SCORING_MODEL, asOf: new Date('2024-01-01') })).not.toBe(key);
+  });
+
+  it('should expire entries after the TTL', () => {
+    let now = 0;
+    const cache = new PersonaCache({ ttlMs: 1000, now: () => now });
+    const entry = cache.set('k', persona('0xa'));
+
+    expect(entry).toMatchObject({ walletAddress: '0xa', storedAt: 0, expiresAt: 1000 });
+    expect(entry.etag).toMatch(/^"[0-9a-f]{64}"$/);
+    now = 999;
+    expect(cache.get('k')?.persona.walletAddress).toBe('0xa');
+    now = 1000;
+    expect(cache.get('k')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should drop the least recently used entry past the size limit', () => {
+    const cache = new PersonaCache({ maxEntries: 2 });
+    cache.set('a', persona('0xa'));
+    cache.set('b', persona('0xb'));
+    cache.get('a');
+    cache.set('c', persona('0xc'));
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('c')).toBeDefined();
+    expect(() => new PersonaCache({ maxEntries: 0 })).toThrow('Invalid cache size: 0');
+  });
+
+  it('should invalidate every entry of a wallet', () => {
+    const cache = new PersonaCache();
+    cache.set('a1', persona('0xAbC'));
+    cache.set('a2', persona('0xabc', 'DeFi Degen'));
+    cache.set('b', persona('0xb'));
+
+    expect(cache.invalidate('0xabc')).toBe(2);
+    expect(cache.size).toBe(1);
+    expect(cache.invalidate('0xabc')).toBe(0);
+  });
+});
@@ -0,0 +1,110 @@
+import { PersonaOutput, ScoringModel } from '../types';
+import { hashInput } from './analysisRuns.js';
+
+export interface PersonaCacheOptions {
+  ttlMs?: number; // how long a persona is served, defaults to one hour
+  maxEntries?: number; // least recently used personas are dropped past this, defaults to 1000
+  now?: () => number; // clock, for tests
+}
+
+// Everything besides the wallet input that changes the persona
+export interface PersonaCacheSettings {
+  model: ScoringModel;
+  asOf?: Date;
+  [setting: string]: unknown; // e.g. seed, titleVariants, chain
+}
+
+export interface PersonaCacheEntry {
+  walletAddress: string;
+  persona: PersonaOutput;
+  etag: string; // strong ETag of the persona, quotes included
+  storedAt: number; // epoch milliseconds
+  expiresAt: number;
+}
+
+/**
+ * Cache key for a persona: the canonical hash of its input together with
+ * the scoring model and analysis settings, so a wallet posted with other
+ * transactions, model or asOf date is never served a stale persona
+ */
+export function personaCacheKey(input: unknown, settings: PersonaCacheSettings): string {
+  return hashInput({ input, ...settings, asOf: settings.asOf?.toISOString() });
+}
+
+/**
+ * In-memory persona cache with a time-to-live and a least recently used
+ * size limit. Map iteration follows insertion order, so entries are
+ * re-inserted on every hit and the first entry is always the oldest used
+ */
+export class PersonaCache {
+  readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+  private readonly entries = new Map<string, PersonaCacheEntry>();
+
+  constructor(options: PersonaCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.now = options.now ?? Date.now;
+    if (!(this.ttlMs > 0)) {
+      throw new Error(`Invalid cache TTL: ${this.ttlMs}. Must be a positive number of milliseconds`);
+    }
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw new Error(`Invalid cache size: ${this.maxEntries}. Must be a positive integer`);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): PersonaCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, persona: PersonaOutput): PersonaCacheEntry {
+    const storedAt = this.now();
+    const entry: PersonaCacheEntry = {
+      walletAddress: persona.walletAddress,
+      persona,
+      etag: `"${hashInput(persona)}"`,
+      storedAt,
+      expiresAt: storedAt + this.ttlMs,
+    };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+    return entry;
+  }
+
+  /**
+   * Drop every cached persona of a wallet, whatever its input or settings.
+   * Returns how many were dropped
+   */
+  invalidate(walletAddress: string): number {
+    const address = walletAddress.toLowerCase();
+    let dropped = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.walletAddress.toLowerCase() === address) {
+        this.entries.delete(key);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryPersonaStore } from './MemoryPersonaStore';
+import { FilePersonaStore } from './FilePersonaStore';
+import { hashInput, diffRuns } from './analysisRuns';
+import { AnalysisRun, PersonaOutput } from '../types';
+
+function run(id: string, key: string, persona: Partial<PersonaOutput> = {}, overrides: Partial<AnalysisRun> = {}): AnalysisRun {
+  return {
+    id,
+    key,
+    walletAddress: key,
+    timestamp: '2024-06-01T00:00:00.000Z',
+    inputHash: 'hash-1',
+    modelVersion: '1.0.0',
+    persona: {
+      walletAddress: key,
+      personaTitle: 'Steady Staker',
+      summary: '',
+      scores: { riskAppetite: 20, loyalty: 80, activity: 40 },
+      keyTraits: ['Long-term holder'],
+      notableProtocols: ['Lido'],
+      ...persona,
+    },
+    ...overrides,
+  };
+}
+
+describe('Persona stores', () => {
+  it('should keep every run per key, oldest first', async () => {
+    const store = new MemoryPersonaStore();
+    await store.save(run('1', '0xa'));
+    await store.save(run('2', '0xb'));
+    await store.save(run('3', '0xa', { personaTitle: 'DeFi Degen' }));
+
+    expect((await store.history('0xa')).map(r => r.id)).toEqual(['1', '3']);
+    expect((await store.latest('0xa'))?.persona.personaTitle).toBe('DeFi Degen');
+    expect((await store.latestRuns()).map(r => r.id)).toEqual(['3', '2']);
+    expect((await store.get('2'))?.key).toBe('0xb');
+    expect(await store.latest('0xc')).toBeUndefined();
+    expect(await store.history('0xc')).toEqual([]);
+  });
+
+  it('should append runs to its file and reload them', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'personas-')), 'runs.ndjson');
+    const store = new FilePersonaStore(file);
+    await store.save(run('1', '0xa'));
+    await store.save(run('2', '0xa'));
+
+    expect(fs.readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(2);
+    const reloaded = new FilePersonaStore(file);
+    expect((await reloaded.history('0xa')).map(r => r.id)).toEqual(['1', '2']);
+
+    fs.appendFileSync(file, '{broken\n');
+    expect(() => new FilePersonaStore(file)).toThrow(`Invalid persona store JSON at ${file}:3`);
+  });
+});
+
+describe('Analysis runs', () => {
+  it('should hash inputs the same whatever their key order', () => {
+    const a = hashInput({ walletAddress: '0xa', transactions: [{ hash: '0x1', type: 'swap' }] });
+    const b = hashInput({ transactions: [{ type: 'swap', hash: '0x1' }], walletAddress: '0xa' });
+
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(b).toBe(a);
+    expect(hashInput({ walletAddress: '0xa', transactions: [] })).not.toBe(a);
+  });
+
+  it('should diff the title, scores, traits and protocols of two runs', () => {
+    const before = run('1', '0xa');
+    const after = run('2', '0xa', {
+      personaTitle: 'DeFi Degen',
+      scores: { riskAppetite: 75, loyalty: 60, activity: 40 },
+      keyTraits: ['Leverage looper'],
+      notableProtocols: ['Lido', 'Aave'],
+    }, { inputHash: 'hash-2' });
+
+    expect(diffRuns(before, after)).toMatchObject({
+      walletAddress: '0xa',
+      from: { id: '1', personaTitle: 'Steady Staker' },
+      to: { id: '2', personaTitle: 'DeFi Degen' },
+      inputChanged: true,
+      modelChanged: false,
+      personaTitle: { from: 'Steady Staker', to: 'DeFi Degen' },
+      scores: {
+        riskAppetite: { from: 20, to: 75, change: 55 },
+        loyalty: { from: 80, to: 60, change: -20 },
+        activity: { from: 40, to: 40, change: 0 },
+      },
+      keyTraits: { added: ['Leverage looper'], removed: ['Long-term holder'] },
+      notableProtocols: { added: ['Aave'], removed: [] },
+    });
+    expect(diffRuns(before, before).personaTitle).toBeUndefined();
+  });
+});
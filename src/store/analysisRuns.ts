@@ -0,0 +1,68 @@
+import { createHash } from 'crypto';
+import { AnalysisRun, AnalysisRunDiff, AnalysisRunSummary, ListChange, ScoreName } from '../types';
+
+/**
+ * SHA-256 of a value's canonical JSON: object keys sorted at every level,
+ * so the same wallet input hashes alike however its fields were ordered
+ */
+export function hashInput(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function summarizeRun(run: AnalysisRun): AnalysisRunSummary {
+  return {
+    id: run.id,
+    timestamp: run.timestamp,
+    inputHash: run.inputHash,
+    modelVersion: run.modelVersion,
+    personaTitle: run.persona.personaTitle,
+    scores: run.persona.scores,
+  };
+}
+
+/**
+ * What changed from one run of a wallet to a later one
+ */
+export function diffRuns(from: AnalysisRun, to: AnalysisRun): AnalysisRunDiff {
+  const scoreNames = Object.keys(to.persona.scores) as ScoreName[];
+  const scores = Object.fromEntries(scoreNames.map(name => {
+    const before = from.persona.scores[name];
+    const after = to.persona.scores[name];
+    return [name, { from: before, to: after, change: after - before }];
+  })) as AnalysisRunDiff['scores'];
+
+  return {
+    walletAddress: to.walletAddress,
+    from: summarizeRun(from),
+    to: summarizeRun(to),
+    inputChanged: from.inputHash !== to.inputHash,
+    modelChanged: from.modelVersion !== to.modelVersion,
+    personaTitle: from.persona.personaTitle === to.persona.personaTitle
+      ? undefined
+      : { from: from.persona.personaTitle, to: to.persona.personaTitle },
+    scores,
+    keyTraits: listChange(from.persona.keyTraits, to.persona.keyTraits),
+    notableProtocols: listChange(from.persona.notableProtocols, to.persona.notableProtocols),
+  };
+}
+
+function listChange(before: string[], after: string[]): ListChange {
+  return {
+    added: after.filter(item => !before.includes(item)),
+    removed: before.filter(item => !after.includes(item)),
+  };
+}
@@ -0,0 +1,4 @@
+export * from './MemoryPersonaStore.js';
+export * from './FilePersonaStore.js';
+export * from './analysisRuns.js';
+export * from './PersonaCache.js';
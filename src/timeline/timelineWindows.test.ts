@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { buildTimelineWindows, parseTimelineInterval, MAX_TIMELINE_WINDOWS } from './timelineWindows';
+
+describe('timelineWindows', () => {
+  it('should follow UTC calendar months and quarters', () => {
+    const first = new Date('2024-02-15T12:00:00Z');
+    const last = new Date('2024-07-01T00:00:00Z');
+
+    const months = buildTimelineWindows(first, last, 'month');
+    const quarters = buildTimelineWindows(first, last, 'quarter');
+
+    expect(months.map(w => w.label)).toEqual(['Feb 2024', 'Mar 2024', 'Apr 2024', 'May 2024', 'Jun 2024', 'Jul 2024']);
+    expect(months[0].start.toISOString()).toBe('2024-02-01T00:00:00.000Z');
+    expect(quarters.map(w => w.label)).toEqual(['Q1 2024', 'Q2 2024', 'Q3 2024']);
+    expect(quarters[2].end.toISOString()).toBe('2024-10-01T00:00:00.000Z');
+  });
+
+  it('should label day intervals by their last day', () => {
+    const windows = buildTimelineWindows(new Date('2024-03-01T09:00:00Z'), new Date('2024-03-20T00:00:00Z'), 14);
+
+    expect(windows.map(w => w.label)).toEqual(['the 14 days to 2024-03-14', 'the 14 days to 2024-03-28']);
+  });
+
+  it('should cover every instant between first and last exactly once', () => {
+    fc.assert(
+      fc.property(
+        fc.date({ min: new Date('2015-01-01T00:00:00Z'), max: new Date('2030-01-01T00:00:00Z') }),
+        fc.integer({ min: 0, max: 3 * 365 }),
+        fc.oneof(fc.constant('month' as const), fc.constant('quarter' as const), fc.integer({ min: 7, max: 120 })),
+        (first, spanDays, interval) => {
+          const last = new Date(first.getTime() + spanDays * 24 * 60 * 60 * 1000);
+          const windows = buildTimelineWindows(first, last, interval);
+
+          expect(windows[0].start.getTime()).toBeLessThanOrEqual(first.getTime());
+          expect(windows[windows.length - 1].end.getTime()).toBeGreaterThan(last.getTime());
+          windows.slice(1).forEach((window, i) => expect(window.start).toEqual(windows[i].end));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject bad intervals and runaway timelines', () => {
+    expect(parseTimelineInterval('quarter')).toBe('quarter');
+    expect(parseTimelineInterval('30')).toBe(30);
+    expect(() => parseTimelineInterval('weekly')).toThrow('Invalid timeline interval');
+    expect(() => parseTimelineInterval(0)).toThrow('Invalid timeline interval');
+    expect(() => buildTimelineWindows(new Date('2010-01-01'), new Date('2024-01-01'), 1))
+      .toThrow(`more than ${MAX_TIMELINE_WINDOWS} windows`);
+  });
+});
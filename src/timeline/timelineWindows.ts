@@ -0,0 +1,88 @@
+import { TimelineInterval } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Guards against a tiny interval over a long history running the pipeline thousands of times
+export const MAX_TIMELINE_WINDOWS = 500;
+
+export interface TimeWindow {
+  start: Date; // inclusive
+  end: Date; // exclusive
+  label: string;
+}
+
+/**
+ * Parse an interval given as text: "month", "quarter" or a number of days
+ */
+export function parseTimelineInterval(value: string | number): TimelineInterval {
+  if (value === 'month' || value === 'quarter') {
+    return value;
+  }
+  const days = typeof value === 'number' ? value : Number(value);
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error(`Invalid timeline interval: ${value}. Must be month, quarter or a whole number of days`);
+  }
+  return days;
+}
+
+/**
+ * Consecutive windows covering first to last, oldest first.
+ * Months and quarters follow UTC calendar boundaries; day intervals start
+ * at midnight UTC on the day of the first timestamp
+ */
+export function buildTimelineWindows(first: Date, last: Date, interval: TimelineInterval): TimeWindow[] {
+  const windows: TimeWindow[] = [];
+  let start = windowStartFor(first, interval);
+
+  while (start.getTime() <= last.getTime()) {
+    if (windows.length === MAX_TIMELINE_WINDOWS) {
+      throw new Error(
+        `Timeline would have more than ${MAX_TIMELINE_WINDOWS} windows; use a longer interval`
+      );
+    }
+    const end = nextWindowStart(start, interval);
+    windows.push({ start, end, label: windowLabel(start, end, interval) });
+    start = end;
+  }
+
+  return windows;
+}
+
+function windowStartFor(date: Date, interval: TimelineInterval): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (interval === 'month') {
+    return new Date(Date.UTC(year, month, 1));
+  }
+  if (interval === 'quarter') {
+    return new Date(Date.UTC(year, month - (month % 3), 1));
+  }
+  return new Date(Date.UTC(year, month, date.getUTCDate()));
+}
+
+function nextWindowStart(start: Date, interval: TimelineInterval): Date {
+  if (interval === 'month' || interval === 'quarter') {
+    const months = interval === 'month' ? 1 : 3;
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  }
+  return new Date(start.getTime() + interval * DAY_MS);
+}
+
+/**
+ * "Mar 2024", "Q3 2024" or "the 30 days to 2024-03-31"
+ */
+function windowLabel(start: Date, end: Date, interval: TimelineInterval): string {
+  const year = start.getUTCFullYear();
+
+  if (interval === 'month') {
+    return `${MONTHS[start.getUTCMonth()]} ${year}`;
+  }
+  if (interval === 'quarter') {
+    return `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${year}`;
+  }
+
+  const lastDay = new Date(end.getTime() - DAY_MS).toISOString().slice(0, 10);
+  return interval === 1 ? lastDay : `the ${interval} days to ${lastDay}`;
+}
@@ -10,10 +10,21 @@ describe('Core Types', () => {
       'provide_liquidity',
       'receive_airdrop',
       'governance_vote',
-      'token_hold'
+      'token_hold',
+      'borrow',
+      'repay',
+      'liquidation',
+      'bridge',
+      'remove_liquidity',
+      'unstake',
+      'nft_buy',
+      'nft_sell',
+      'claim_rewards',
+      'approve',
+      'transfer'
     ];
     
-    expect(validTypes).toHaveLength(7);
+    expect(validTypes).toHaveLength(18);
   });
 
   it('should create valid WalletData structure', () => {
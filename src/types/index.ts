@@ -11,22 +11,189 @@ export type TransactionType =
   | 'provide_liquidity'
   | 'receive_airdrop'
   | 'governance_vote'
-  | 'token_hold';
+  | 'token_hold'
+  | 'borrow'
+  | 'repay'
+  | 'liquidation'
+  | 'bridge'
+  | 'remove_liquidity'
+  | 'unstake'
+  | 'nft_buy'
+  | 'nft_sell'
+  | 'claim_rewards'
+  | 'approve'
+  | 'transfer';
 
 // Input Models
-export interface TransactionDetails {
-  [key: string]: any;
+// Canonical (snake_case) detail shapes. Aliases found in raw input are mapped
+// onto these by the TransactionNormalizer before analysis.
+export interface BaseTransactionDetails {
+  [key: string]: unknown; // unrecognised fields are passed through untouched
   protocol?: string;
   is_new_protocol?: boolean;
+  from?: string;
+  to?: string;
+  value?: string;
+  transfers?: TokenTransfer[]; // decoded token movements within the transaction
+  decoded_call?: DecodedCall; // calldata decoded against the selector registry
 }
 
-export interface Transaction {
+export type TokenStandard = 'erc20' | 'erc721' | 'erc1155';
+
+// A single token movement, amounts already scaled by the token's decimals
+export interface TokenTransfer {
+  standard: TokenStandard;
+  contractAddress: string;
+  symbol: string;
+  name: string;
+  from: string;
+  to: string;
+  amount: string;
+  tokenId?: string; // ERC-721 / ERC-1155 only
+}
+
+export interface SwapDetails extends BaseTransactionDetails {
+  token_in?: string;
+  token_out?: string;
+  amount_in?: string;
+  amount_out?: string;
+}
+
+export interface NFTMintDetails extends BaseTransactionDetails {
+  collection?: string;
+  token_id?: string;
+  price?: string;
+}
+
+export interface StakeDetails extends BaseTransactionDetails {
+  token?: string;
+  amount?: string;
+  is_stable?: boolean;
+  is_established?: boolean;
+}
+
+export interface LiquidityDetails extends BaseTransactionDetails {
+  token1?: string;
+  token2?: string;
+  amount1?: string;
+  amount2?: string;
+  is_volatile?: boolean;
+}
+
+export interface AirdropDetails extends BaseTransactionDetails {
+  token?: string;
+  amount?: string;
+}
+
+export interface GovernanceVoteDetails extends BaseTransactionDetails {
+  proposal_id?: string;
+  vote?: string;
+}
+
+export interface TokenHoldDetails extends BaseTransactionDetails {
+  token?: string;
+  amount?: string;
+  start_date?: string;
+  end_date?: string;
+  duration_days?: number;
+  is_blue_chip?: boolean;
+}
+
+// Borrowing and repaying a loan
+export interface LoanDetails extends BaseTransactionDetails {
+  token?: string;
+  amount?: string;
+}
+
+// The wallet's debt repaid by a liquidator in exchange for its collateral
+export interface LiquidationDetails extends BaseTransactionDetails {
+  collateral_token?: string;
+  collateral_amount?: string;
+  debt_token?: string;
+  debt_amount?: string;
+}
+
+export interface BridgeDetails extends BaseTransactionDetails {
+  token?: string;
+  amount?: string;
+  direction?: string; // "out" leaves the source chain (default), "in" arrives on the destination
+  source_chain_id?: number;
+  destination_chain_id?: number;
+}
+
+export interface RemoveLiquidityDetails extends BaseTransactionDetails {
+  token1?: string;
+  token2?: string;
+  amount1?: string;
+  amount2?: string;
+}
+
+export interface UnstakeDetails extends BaseTransactionDetails {
+  token?: string;
+  amount?: string;
+}
+
+// NFT bought or sold on a marketplace
+export interface NFTTradeDetails extends BaseTransactionDetails {
+  collection?: string;
+  token_id?: string;
+  price?: string;
+  payment_token?: string; // the chain's native token when absent
+}
+
+export interface ClaimRewardsDetails extends BaseTransactionDetails {
+  token?: string;
+  amount?: string;
+}
+
+export interface ApproveDetails extends BaseTransactionDetails {
+  token?: string;
+  spender?: string;
+  amount?: string;
+  is_unlimited?: boolean; // max allowance or approval for a whole collection
+}
+
+// Plain movement of tokens between addresses
+export interface TransferDetails extends BaseTransactionDetails {
+  token?: string;
+  amount?: string;
+}
+
+export interface TransactionDetailsMap {
+  swap: SwapDetails;
+  nft_mint: NFTMintDetails;
+  stake: StakeDetails;
+  provide_liquidity: LiquidityDetails;
+  receive_airdrop: AirdropDetails;
+  governance_vote: GovernanceVoteDetails;
+  token_hold: TokenHoldDetails;
+  borrow: LoanDetails;
+  repay: LoanDetails;
+  liquidation: LiquidationDetails;
+  bridge: BridgeDetails;
+  remove_liquidity: RemoveLiquidityDetails;
+  unstake: UnstakeDetails;
+  nft_buy: NFTTradeDetails;
+  nft_sell: NFTTradeDetails;
+  claim_rewards: ClaimRewardsDetails;
+  approve: ApproveDetails;
+  transfer: TransferDetails;
+}
+
+export type TransactionDetails = TransactionDetailsMap[TransactionType];
+
+export interface TypedTransaction<T extends TransactionType> {
   hash: string;
   timestamp: string;
-  type: TransactionType;
-  details: TransactionDetails;
+  type: T;
+  details: TransactionDetailsMap[T];
+  chainId?: number; // EVM chain the transaction was executed on
+  blockNumber?: number; // block it was mined in, when fetched from a chain
 }
 
+// Discriminated union keyed on `type`
+export type Transaction = { [T in TransactionType]: TypedTransaction<T> }[TransactionType];
+
 export interface WalletData {
   walletAddress: string;
   transactions: Transaction[];
@@ -37,10 +204,137 @@ export interface WalletInput {
   transactions: Transaction[];
 }
 
+export interface ChainTransactions {
+  chainId: number;
+  transactions: Transaction[];
+}
+
+// Same address on several chains, aggregated into one persona
+export interface MultiChainWalletInput {
+  walletAddress: string;
+  chains: ChainTransactions[];
+}
+
+// Chain Data Models
+export type ChainName = 'ethereum' | 'polygon' | 'arbitrum' | 'base' | 'optimism';
+
+export type ProviderKind = 'explorer' | 'rpc' | 'fixture';
+
+export interface ChainConfig {
+  name: ChainName;
+  chainId: number;
+  label: string;
+  nativeSymbol: string;
+  explorerApiUrl: string;
+  explorerApiKeyEnv: string;
+  rpcUrl: string;
+}
+
+// Raw transaction as returned by Etherscan-compatible explorers.
+// Every provider maps its source data onto this shape.
+export interface EtherscanTransaction {
+  hash: string;
+  timeStamp: string; // unix seconds
+  from: string;
+  to: string;
+  value: string; // wei
+  blockNumber?: string;
+  methodId?: string;
+  functionName?: string;
+  input?: string;
+}
+
+// Protocol Registry Models
+export type ProtocolCategory = 'dex' | 'lending' | 'lsd' | 'bridge' | 'nft_marketplace';
+
+export type TokenClassification = 'blue_chip' | 'stablecoin' | 'lsd' | 'governance';
+
+export interface ProtocolContract {
+  chain: ChainName;
+  address: string; // lowercase
+  label: string; // name reported as the transaction's protocol, e.g. "Uniswap V3"
+}
+
+export interface ProtocolEntry {
+  name: string;
+  category: ProtocolCategory;
+  launchDate: string; // ISO 8601 date
+  established: boolean;
+  destinationChain?: ChainName; // canonical bridges: the chain they deposit to
+  contracts: ProtocolContract[];
+}
+
+export interface TokenEntry {
+  symbol: string;
+  name: string;
+  classification: TokenClassification;
+  addresses: Partial<Record<ChainName, string>>; // empty for native or off-chain assets
+  decimals?: number; // ERC-20 decimals, 18 when not given
+}
+
+// Layout of registry.json and of registry files loaded at runtime
+export interface RegistryData {
+  version: string;
+  protocols: ProtocolEntry[];
+  tokens: TokenEntry[];
+}
+
+// Calldata Decoding Models
+export interface AbiParameter {
+  name: string;
+  type: string; // Solidity type, e.g. "uint256", "address[]", "tuple"
+  components?: AbiParameter[]; // tuple members
+}
+
+// One 4-byte selector and the ABI fragment it decodes with
+export interface SelectorEntry {
+  selector: string; // 0x-prefixed, 4 bytes
+  name: string;
+  inputs: AbiParameter[];
+  category?: TransactionType;
+}
+
+export type DecodedValue = string | boolean | DecodedValue[] | { [name: string]: DecodedValue };
+
+export interface DecodedCall {
+  selector: string;
+  name: string;
+  signature: string;
+  args: Record<string, DecodedValue>; // integers are decimal strings, addresses lowercase
+}
+
+// Raw token transfer as returned by the explorer tokentx / tokennfttx /
+// token1155tx actions
+export interface EtherscanTokenTransfer {
+  hash: string;
+  timeStamp: string; // unix seconds
+  from: string;
+  to: string;
+  contractAddress: string;
+  tokenSymbol: string;
+  tokenName: string;
+  tokenDecimal?: string; // ERC-20 only
+  value?: string; // ERC-20 raw amount
+  tokenID?: string; // ERC-721 / ERC-1155
+  tokenValue?: string; // ERC-1155 quantity
+  blockNumber?: string;
+}
+
+export interface FetchOptions {
+  limit?: number; // the most recent records, or the page size when fetching from a startBlock
+  startBlock?: number; // every record from this block on, for incremental fetches; nothing is dropped
+}
+
 // Validation Models
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
+  warnings: string[];
+}
+
+export interface DetailFieldReport {
+  missing: string[]; // canonical fields expected for the type but absent
+  unknown: string[]; // raw keys that are neither canonical nor a known alias
 }
 
 // Analysis Models
@@ -48,6 +342,7 @@ export interface TokenHolding {
   token: string;
   durationDays: number;
   isBlueChip: boolean;
+  hash?: string;
 }
 
 export interface LiquidityProvision {
@@ -55,17 +350,20 @@ export interface LiquidityProvision {
   token2: string;
   protocol: string;
   isVolatile: boolean;
+  hash?: string;
 }
 
 export interface StakeInfo {
   token: string;
   protocol: string;
   isEstablished: boolean;
+  hash?: string;
 }
 
 export interface GovernanceVote {
   protocol: string;
   timestamp: string;
+  hash?: string;
 }
 
 export interface AirdropFlip {
@@ -73,6 +371,163 @@ export interface AirdropFlip {
   receivedAt: string;
   swappedAt: string;
   timeDelta: number; // milliseconds
+  hashes?: string[]; // airdrop and swap transactions
+}
+
+// An allowance with no practical limit: max uint256, or approval for a whole NFT collection
+export interface TokenApproval {
+  token: string;
+  spender: string;
+  hash?: string;
+}
+
+// One FIFO lot of a token: bought or received in one transaction, closed by
+// later outflows. Partially sold lots are split into a closed and an open lot.
+export interface PositionLot {
+  token: string;
+  amount: number;
+  openedAt: string; // ISO 8601 timestamp
+  closedAt?: string; // absent while the lot is still held
+  holdDays: number; // open lots are measured up to the analysis date
+  openHash: string;
+  closeHash?: string;
+}
+
+// Replayed inflows and outflows of one token
+export interface TokenPosition {
+  token: string;
+  lots: PositionLot[]; // oldest first
+  openAmount: number; // still held
+  realizedAmount: number; // sent, sold or staked away
+  unmatchedAmount: number; // outflows with no recorded inflow to draw from
+  averageHoldDays: number; // amount-weighted across all lots
+  hashes: string[]; // transactions that opened or closed a lot
+}
+
+// Price Models
+export interface PriceQuery {
+  token: string; // symbol
+  timestamp: string; // ISO 8601
+}
+
+export interface TransactionValue {
+  hash: string;
+  type: TransactionType;
+  usdValue: number;
+}
+
+export interface PositionValue {
+  token: string;
+  amount: number; // still held at the analysis date
+  usdValue: number;
+  hashes: string[];
+}
+
+// USD size of the wallet's activity, priced at each transaction's timestamp
+export interface TransactionValuation {
+  transactions: TransactionValue[]; // priced transactions, oldest first
+  totalVolume: number; // USD across priced transactions other than token_hold records
+  medianTradeSize: number; // USD, priced swaps only
+  largestPosition?: PositionValue; // largest open position priced at the analysis date
+}
+
+// Portfolio Models
+export interface PortfolioHolding {
+  token: string;
+  balance: number; // units held at the analysis date
+  usdValue?: number; // when the price oracle has a price
+  allocation?: number; // percentage of the portfolio's USD value, 0-100; only on the usd basis
+  classification?: TokenClassification; // registry classification, when listed
+}
+
+// What the wallet holds at the analysis date
+export interface Portfolio {
+  // "usd" when any holding is priced (stablecoins at $1 without an oracle);
+  // on "units" only raw balances are known, which do not compare across
+  // tokens, so the share metrics below are omitted
+  basis: 'usd' | 'units';
+  holdings: PortfolioHolding[]; // largest allocation first
+  totalUsdValue?: number;
+  unpricedTokens?: string[]; // held without a price on the usd basis, so left out of the shares
+  herfindahlIndex?: number; // sum of squared allocation fractions: near 0 = spread out, 1 = a single token
+  stablecoinShare?: number; // percentage of the portfolio in stablecoins
+  blueChipShare?: number; // percentage in blue-chip tokens
+}
+
+// Lending Models
+// Collateral supplied and debt owed on one lending protocol, valued at each
+// transaction's price (stablecoins at $1 when no price oracle has them)
+export interface LendingPosition {
+  protocol: string; // registry protocol name when listed
+  supplied: number; // USD still supplied at the analysis date
+  borrowed: number; // USD still owed
+  peakLoanToValue: number; // highest borrowed / supplied ratio reached, 0 when never measurable
+  liquidations: number;
+  hashes: string[]; // supplies, withdrawals, borrows, repayments and liquidations
+  unpricedTokens?: string[]; // still held in the book without a price, so left out of supplied and borrowed
+}
+
+export interface LiquidationEvent {
+  protocol: string;
+  collateralToken: string;
+  debtToken: string;
+  timestamp: string;
+  hash?: string;
+}
+
+// Supply, borrow against it, then supply again on the same protocol
+export interface LeverageLoop {
+  protocol: string;
+  hashes: string[]; // supply, borrow and re-supply
+}
+
+export interface LendingProfile {
+  positions: LendingPosition[];
+  peakLoanToValue: number; // highest across protocols
+  liquidations: LiquidationEvent[];
+  leverageLoops: LeverageLoop[];
+}
+
+// Cross-Chain Models
+export interface BridgeTransfer {
+  protocol: string;
+  direction: 'in' | 'out'; // out: left the source chain, in: arrived on the destination
+  sourceChainId?: number;
+  destinationChainId?: number; // from the transaction, else the canonical bridge's chain
+  token: string;
+  timestamp: string;
+  daysBeforeBridging?: number; // outbound only: days on the source chain since arriving or first transacting
+  hash?: string;
+}
+
+export interface BridgeRoute {
+  sourceChainId?: number;
+  destinationChainId?: number;
+  count: number;
+}
+
+export interface ChainActivity {
+  chainId: number;
+  transactions: number;
+  share: number; // percentage of the transactions tagged with a chain, 0-100
+}
+
+export interface CrossChainActivity {
+  bridges: BridgeTransfer[]; // oldest first
+  routes: BridgeRoute[]; // most used first
+  bridgesPerMonth: number; // across the wallet's whole history
+  averageDaysBeforeBridgingOut?: number;
+  chainsVisited: number[]; // chain ids transacted on or bridged to or from
+  chainDistribution: ChainActivity[]; // busiest chain first
+}
+
+// A wallet's first interaction with a registry protocol, relative to its launch
+export interface ProtocolAdoption {
+  protocol: string; // registry protocol name
+  launchDate: string;
+  firstInteraction: string; // ISO 8601 timestamp
+  daysAfterLaunch: number;
+  isEarly: boolean; // first interaction falls inside the new-protocol window
 }
 
 export interface AnalysisResult {
@@ -81,7 +536,7 @@ export interface AnalysisResult {
   liquidityProvisions: LiquidityProvision[];
   blueChipHoldings: TokenHolding[];
   stableStakes: StakeInfo[];
-  holdDurations: Map<string, number>;
+  holdDurations: Map<string, number>; // token -> amount-weighted average hold days
   governanceVotes: GovernanceVote[];
   airdropFlips: AirdropFlip[];
   protocolFrequency: Map<string, number>;
@@ -89,6 +544,135 @@ export interface AnalysisResult {
   recentActivityCount: number;
   totalTransactions: number;
   dormancyPeriods: number[];
+  protocolAdoptions: ProtocolAdoption[];
+  transactionTypes: Map<TransactionType, number>; // transactions of each type
+  unlimitedApprovals: TokenApproval[];
+  positions: TokenPosition[];
+  valuation?: TransactionValuation; // present when a price oracle is configured
+  portfolio?: Portfolio;
+  lending?: LendingProfile;
+  crossChain?: CrossChainActivity;
+  evidence?: AnalysisEvidence;
+  state?: AnalyzerState; // pass back to analyze() with the next transactions to update incrementally
+}
+
+// Transaction hashes behind the count-based measures, used to explain scores
+export interface AnalysisEvidence {
+  swaps: string[];
+  newProtocolInteractions: string[];
+  recentActivity: string[];
+  transactions: string[];
+  dormancyPeriods: string[]; // transaction ending each gap, parallel to dormancyPeriods
+  holdDurations: Map<string, string[]>; // token -> transactions that opened or closed its lots
+  protocolFrequency: Map<string, string[]>; // protocol -> transactions
+  transactionTypes: Map<TransactionType, string[]>; // type -> transactions
+}
+
+export interface AnalyzerOptions {
+  newProtocolWindowDays?: number; // days after launch a protocol counts as new (default 90)
+  asOf?: Date; // analysis date: later transactions are excluded (default: now, nothing excluded)
+}
+
+// Incremental Analysis Models
+// Accumulated analyzer state, plain JSON so it can be saved between runs and
+// resumed with only the transactions that came after it
+export interface AnalyzerState {
+  version: 1;
+  walletAddress?: string;
+  firstTimestamp?: string;
+  lastTimestamp?: string; // newest transaction seen; later runs may not add older ones
+  lastBlockNumber?: number; // highest block seen, where the next fetch starts
+  counters: {
+    transactions: number;
+    swaps: number;
+    newProtocolInteractions: number;
+    nftTransactions: number;
+  };
+  transactionTypes: Partial<Record<TransactionType, number>>;
+  protocolFrequency: Record<string, number>;
+  protocolAdoptions: Record<string, ProtocolAdoption>; // by protocol, in order of first interaction
+  liquidityProvisions: LiquidityProvision[];
+  stableStakes: StakeInfo[];
+  governanceVotes: GovernanceVote[];
+  unlimitedApprovals: TokenApproval[];
+  airdrops: AirdropReceipt[];
+  dormancyGaps: { days: number; hash: string }[];
+  recent: { timestamp: string; hash: string }[]; // transactions that can still count as recent activity
+  values?: TransactionValue[]; // USD values, when a price oracle was given
+  evidence: {
+    swaps: string[];
+    newProtocolInteractions: string[];
+    transactions: string[];
+    protocolFrequency: Record<string, string[]>;
+    transactionTypes: Partial<Record<TransactionType, string[]>>;
+  };
+  positions: PositionState;
+  lending: LendingState;
+  crossChain: BridgeState;
+}
+
+// An airdrop and the first swap of its token that followed, once seen
+export interface AirdropReceipt {
+  token: string;
+  receivedAt: string;
+  hash: string;
+  swap?: { timestamp: string; hash: string };
+}
+
+// One token movement relative to the wallet
+export interface TokenFlow {
+  token: string;
+  amount: number;
+  direction: 'in' | 'out';
+  time: number; // epoch milliseconds
+  timestamp: string;
+  hash: string;
+}
+
+export interface OpenLot {
+  amount: number;
+  openedAt: string;
+  openHash: string;
+}
+
+export interface PositionBook {
+  open: OpenLot[];
+  closed: PositionLot[];
+  unmatched: number;
+}
+
+export interface PositionState {
+  books: Record<string, PositionBook>; // by token
+  pendingFlows: TokenFlow[]; // dated after the analysis date, replayed once it passes them
+}
+
+export interface LendingBook {
+  supplied: number;
+  borrowed: number;
+  peakLoanToValue: number;
+  liquidations: number;
+  hashes: string[];
+  // Units supplied or borrowed of tokens without a price, by token; while any
+  // are outstanding the USD balances are incomplete and no LTV is measured
+  unpricedSupplied?: Record<string, number>;
+  unpricedBorrowed?: Record<string, number>;
+  lastSupplyHash?: string;
+  // Borrow against an earlier supply, waiting to be supplied back
+  openBorrow?: { supplyHash: string; hash: string; time: number };
+}
+
+export interface LendingState {
+  books: Record<string, LendingBook>; // by protocol
+  liquidations: LiquidationEvent[];
+  leverageLoops: LeverageLoop[];
+}
+
+export interface BridgeState {
+  arrivals: Record<string, number>; // chain id (0 when untagged) -> time the wallet got there
+  bridges: BridgeTransfer[];
+  chainCounts: Record<string, number>; // chain id -> chain-tagged transactions
+  firstTime?: number;
+  lastTime?: number;
 }
 
 // Score Models
@@ -98,7 +682,86 @@ export interface Scores {
   activity: number;     // 1-100
 }
 
+// Scoring Model
+export type ScoreName = keyof Scores;
+
+// Quantities extracted from an AnalysisResult that a scoring model can weight
+export type ScoringSignalName =
+  | 'swaps'
+  | 'newProtocolInteractions'
+  | 'volatileLiquidityProvisions'
+  | 'blueChipHoldings'
+  | 'establishedStableStakes'
+  | 'holdDays'
+  | 'shortHoldDays'
+  | 'governanceVotes'
+  | 'repeatedProtocols'
+  | 'airdropFlips'
+  | 'transactions'
+  | 'recentTransactions'
+  | 'longDormancyPeriods'
+  | 'totalVolumeUsd'
+  | 'medianTradeSizeUsd'
+  | 'largestPositionUsd'
+  | 'borrows'
+  | 'liquidations'
+  | 'bridges'
+  | 'nftTrades'
+  | 'rewardClaims'
+  | 'unlimitedApprovals'
+  | 'peakLoanToValue'
+  | 'leverageLoops';
+
+export interface WeightedSignal {
+  signal: ScoringSignalName;
+  weight: number; // points per unit of the signal, negative for penalties
+  cap?: number; // maximum absolute contribution, uncapped when omitted
+}
+
+export interface ScoreDefinition {
+  base: number;
+  signals: WeightedSignal[];
+}
+
+export interface ScoringModel {
+  version: string;
+  scores: Record<ScoreName, ScoreDefinition>;
+}
+
+// One weighted signal's effect on a score
+export interface ScoreContribution {
+  signal: ScoringSignalName;
+  label: string; // human-readable signal name, e.g. "blue-chip holds"
+  value: number; // measured signal quantity
+  points: number; // signed points applied after the cap
+  uncappedPoints: number;
+  capped: boolean;
+  description: string; // e.g. "swaps: +30 (capped from +45)"
+  hashes: string[]; // transactions that produced the signal
+}
+
+export interface ScoreExplanation {
+  score: number;
+  base: number;
+  contributions: ScoreContribution[]; // largest effect first
+}
+
+export type ScoreExplanations = Record<ScoreName, ScoreExplanation>;
+
+export interface PersonaGeneratorOptions {
+  seed?: string | number; // explicit seed for title selection, replaces the wallet-derived one
+}
+
 // Output Models
+export interface ChainBreakdown {
+  chainId: number;
+  chain: string; // chain label, or "Chain <id>" for unknown chains
+  transactionCount: number;
+  activityShare: number; // percentage of all transactions, 0-100
+  scores: Scores;
+  notableProtocols: string[];
+}
+
 export interface PersonaProfile {
   walletAddress: string;
   personaTitle: string;
@@ -106,6 +769,14 @@ export interface PersonaProfile {
   scores: Scores;
   keyTraits: string[];
   notableProtocols: string[];
+  chains?: ChainBreakdown[];
+  explanations?: ScoreExplanations;
+  personaTitleVariants?: string[]; // every title that fit, when requested
+  asOf?: string; // ISO 8601 analysis date, when one was given
+  portfolio?: Portfolio; // when the wallet holds anything at the analysis date
+  lending?: LendingProfile; // when the wallet supplied or borrowed on a lending protocol
+  crossChain?: CrossChainActivity; // when the wallet bridged or transacted on several chains
+  features?: WalletFeatures; // similarity search feature vector, when requested
 }
 
 export interface PersonaOutput {
@@ -119,4 +790,171 @@ export interface PersonaOutput {
   };
   keyTraits: string[];
   notableProtocols: string[];
+  chains?: ChainBreakdown[];
+  explanations?: ScoreExplanations;
+  personaTitleVariants?: string[]; // every title that fit, when requested
+  asOf?: string; // ISO 8601 analysis date, when one was given
+  portfolio?: Portfolio; // when the wallet holds anything at the analysis date
+  lending?: LendingProfile; // when the wallet supplied or borrowed on a lending protocol
+  crossChain?: CrossChainActivity; // when the wallet bridged or transacted on several chains
+  features?: WalletFeatures; // similarity search feature vector, when requested
+}
+
+// Persona Timeline Models
+// Calendar month or quarter (UTC), or a fixed number of days
+export type TimelineInterval = 'month' | 'quarter' | number;
+
+// cumulative: everything up to each window's end; rolling: only the window's own transactions
+export type TimelineMode = 'cumulative' | 'rolling';
+
+export interface TimelineWindow {
+  windowStart: string; // ISO 8601, inclusive
+  windowEnd: string; // ISO 8601, exclusive
+  label: string; // e.g. "Q3 2024", "Mar 2024"
+  transactionCount: number; // transactions the window's persona was built from
+  scores: Scores;
+  personaTitle: string;
+  keyTraits: string[];
+}
+
+// The persona title changing from one window to the next
+export interface PersonaTransition {
+  windowStart: string;
+  windowEnd: string;
+  from: string;
+  to: string;
+  description: string; // e.g. "Became a Steady Staker in Q3 2024"
+}
+
+export interface PersonaTimeline {
+  walletAddress: string;
+  interval: TimelineInterval;
+  mode: TimelineMode;
+  windows: TimelineWindow[]; // oldest first, rolling windows without transactions omitted
+  transitions: PersonaTransition[];
+}
+
+// Sybil Cluster Models
+// How two wallets in a batch are linked
+export type SybilSignal = 'shared_funding' | 'similar_sequence' | 'synchronized_activity' | 'shared_sweep';
+
+export interface SybilEvidence {
+  signal: SybilSignal;
+  description: string; // e.g. "funded by 0xabc… like 11 other wallets"
+  wallets: string[]; // the other wallets linked this way
+  counterparty?: string; // funder or sweep destination
+  hashes: string[]; // this wallet's transactions behind the link
+}
+
+export interface SybilWallet {
+  walletAddress: string;
+  clusterId?: string; // absent for wallets linked to no other
+  sybilScore: number; // 0-100
+  evidence: SybilEvidence[];
+}
+
+export interface SybilCluster {
+  clusterId: string;
+  wallets: string[];
+  signals: SybilSignal[]; // every kind of link found inside the cluster
+}
+
+export interface SybilReport {
+  wallets: SybilWallet[]; // in input order
+  clusters: SybilCluster[]; // largest first
+}
+
+// Similarity Models
+// Named features scaled to roughly 0-1, built from the analysis and scores
+export type WalletFeatures = Record<string, number>;
+
+export type SimilarityMetric = 'cosine' | 'euclidean';
+
+export interface SimilarWallet {
+  walletAddress: string;
+  similarity: number; // cosine similarity, or 1 / (1 + distance) for euclidean
+  distance?: number; // euclidean only
+}
+
+// Batch Analysis Models
+// One wallet's outcome; a failure never stops the rest of the batch
+export interface BatchResult {
+  index: number; // position in the input, results arrive in completion order
+  source: string; // file, NDJSON line or array element the wallet came from
+  walletAddress?: string; // when the input had one
+  status: 'ok' | 'error';
+  persona?: PersonaOutput;
+  error?: string;
+}
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  durationMs: number;
+}
+
+// Background Job Models
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  type: string; // handler the job runs, e.g. "blockchain" or "batch"
+  status: JobStatus;
+  progress: number; // percentage, 0-100
+  createdAt: string; // ISO 8601
+  startedAt?: string;
+  finishedAt?: string; // completed, failed or cancelled
+  error?: string; // why the job failed
+}
+
+// What a job store keeps: the job plus its input and, once completed, its result
+export interface JobRecord extends Job {
+  input: unknown;
+  result?: unknown;
+}
+
+// Analysis History Models
+// One stored analysis of a wallet
+export interface AnalysisRun {
+  id: string;
+  key: string; // what the run is stored under: the wallet address, prefixed by the chain off Ethereum
+  walletAddress: string;
+  timestamp: string; // ISO 8601
+  inputHash: string; // SHA-256 of the canonical input JSON
+  modelVersion: string; // scoring model the scores came from
+  persona: PersonaOutput;
+}
+
+// A run as listed in a wallet's history, without the full persona
+export interface AnalysisRunSummary {
+  id: string;
+  timestamp: string;
+  inputHash: string;
+  modelVersion: string;
+  personaTitle: string;
+  scores: Scores;
+}
+
+export interface ValueChange<T> {
+  from: T;
+  to: T;
+}
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+// What changed between two runs of the same wallet
+export interface AnalysisRunDiff {
+  walletAddress: string;
+  from: AnalysisRunSummary;
+  to: AnalysisRunSummary;
+  inputChanged: boolean;
+  modelChanged: boolean;
+  personaTitle?: ValueChange<string>; // when the title changed
+  scores: Record<ScoreName, ValueChange<number> & { change: number }>;
+  keyTraits: ListChange;
+  notableProtocols: ListChange;
 }
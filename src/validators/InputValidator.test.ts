@@ -14,7 +14,18 @@ describe('InputValidator', () => {
     'provide_liquidity',
     'receive_airdrop',
     'governance_vote',
-    'token_hold'
+    'token_hold',
+    'borrow',
+    'repay',
+    'liquidation',
+    'bridge',
+    'remove_liquidity',
+    'unstake',
+    'nft_buy',
+    'nft_sell',
+    'claim_rewards',
+    'approve',
+    'transfer'
   );
 
   const transactionDetailsArb = fc.record({
@@ -153,6 +164,26 @@ describe('InputValidator', () => {
     expect(result.transactions[0].details.protocol).toBe('Uniswap');
   });
 
+  it('should warn about missing and unknown detail fields without failing validation', () => {
+    const result = validator.validate({
+      walletAddress: '0x1234567890abcdef1234567890abcdef12345678',
+      transactions: [
+        {
+          hash: '0xabc',
+          timestamp: '2024-01-01T00:00:00.000Z',
+          type: 'swap',
+          details: { protocol: 'Uniswap', tokenIn: 'ETH', slippage: '0.5' }
+        }
+      ]
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([
+      'Transaction at index 0 (swap): missing details field "token_out"',
+      'Transaction at index 0 (swap): unknown details field "slippage"'
+    ]);
+  });
+
   it('should throw error for invalid JSON string', () => {
     const invalidJson = '{ invalid json }';
     expect(() => validator.parse(invalidJson)).toThrow('Invalid JSON');
@@ -169,7 +200,7 @@ describe('InputValidator', () => {
    * Feature: persona-protocol, Property 3: Transaction type validation
    * Validates: Requirements 1.4
    */
-  it('Property 3: should accept transaction if and only if type is one of seven supported types', () => {
+  it('Property 3: should accept transaction if and only if type is one of the supported types', () => {
     const validTypes: TransactionType[] = [
       'swap',
       'nft_mint',
@@ -177,7 +208,18 @@ describe('InputValidator', () => {
       'provide_liquidity',
       'receive_airdrop',
       'governance_vote',
-      'token_hold'
+      'token_hold',
+      'borrow',
+      'repay',
+      'liquidation',
+      'bridge',
+      'remove_liquidity',
+      'unstake',
+      'nft_buy',
+      'nft_sell',
+      'claim_rewards',
+      'approve',
+      'transfer'
     ];
 
     // Test valid types - should be accepted
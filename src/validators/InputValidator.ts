@@ -1,5 +1,6 @@
 import { ValidationResult, WalletData, Transaction, TransactionType } from '../types';
 import { InputValidator as IInputValidator } from '../interfaces/InputValidator';
+import { TransactionNormalizer } from '../normalizers/TransactionNormalizer.js';
 
 /**
  * InputValidator implementation
@@ -13,20 +14,34 @@ export class InputValidator implements IInputValidator {
     'provide_liquidity',
     'receive_airdrop',
     'governance_vote',
-    'token_hold'
+    'token_hold',
+    'borrow',
+    'repay',
+    'liquidation',
+    'bridge',
+    'remove_liquidity',
+    'unstake',
+    'nft_buy',
+    'nft_sell',
+    'claim_rewards',
+    'approve',
+    'transfer'
   ];
 
+  private readonly normalizer = new TransactionNormalizer();
+
   /**
    * Validates input structure and content
    * Requirements: 1.1, 1.4, 1.5
    */
   validate(input: unknown): ValidationResult {
     const errors: string[] = [];
+    const warnings: string[] = [];
 
     // Check if input is an object
     if (typeof input !== 'object' || input === null) {
       errors.push('Input must be a valid object');
-      return { isValid: false, errors };
+      return { isValid: false, errors, warnings };
     }
 
     const data = input as Record<string, unknown>;
@@ -51,12 +66,16 @@ export class InputValidator implements IInputValidator {
       transactions.forEach((tx, index) => {
         const txErrors = this.validateTransaction(tx, index);
         errors.push(...txErrors);
+        if (txErrors.length === 0) {
+          warnings.push(...this.checkDetailFields(tx as Record<string, unknown>, index));
+        }
       });
     }
 
     return {
       isValid: errors.length === 0,
-      errors
+      errors,
+      warnings
     };
   }
 
@@ -104,9 +123,32 @@ export class InputValidator implements IInputValidator {
       errors.push(`Transaction at index ${index}: details must be an object`);
     }
 
+    if ('chainId' in transaction && !this.isChainId(transaction.chainId)) {
+      errors.push(`Transaction at index ${index}: chainId must be a positive integer`);
+    }
+
     return errors;
   }
 
+  /**
+   * Reports missing or unrecognised per-type detail fields
+   * These never fail validation; the analyzer falls back to defaults
+   */
+  private checkDetailFields(transaction: Record<string, unknown>, index: number): string[] {
+    const type = transaction.type as TransactionType;
+    const details = transaction.details as Record<string, unknown>;
+    const report = this.normalizer.inspectDetails(type, details);
+
+    return [
+      ...report.missing.map(
+        field => `Transaction at index ${index} (${type}): missing details field "${field}"`
+      ),
+      ...report.unknown.map(
+        field => `Transaction at index ${index} (${type}): unknown details field "${field}"`
+      ),
+    ];
+  }
+
   /**
    * Parses JSON string and extracts wallet data
    * Requirements: 1.2, 1.3
@@ -134,18 +176,125 @@ export class InputValidator implements IInputValidator {
     };
   }
 
+  /**
+   * Parses a multi-chain JSON string into one merged transaction list
+   * Each transaction is tagged with the chainId of the list it came from
+   */
+  parseMultiChain(input: string): WalletData {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (typeof parsed !== 'object' || parsed === null) {
+      throw new Error('Validation failed: Input must be a valid object');
+    }
+
+    const data = parsed as Record<string, unknown>;
+    if (!Array.isArray(data.chains) || data.chains.length === 0) {
+      throw new Error('Validation failed: chains must be a non-empty array');
+    }
+
+    const errors: string[] = [];
+    const transactions: Transaction[] = [];
+
+    data.chains.forEach((entry, chainIndex) => {
+      const chain = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+
+      if (!this.isChainId(chain.chainId)) {
+        errors.push(`Chain at index ${chainIndex}: chainId must be a positive integer`);
+        return;
+      }
+
+      const result = this.validate({ walletAddress: data.walletAddress, transactions: chain.transactions });
+      if (!result.isValid) {
+        errors.push(...result.errors.map(err => `Chain ${chain.chainId}: ${err}`));
+        return;
+      }
+
+      (chain.transactions as unknown[]).forEach(tx => {
+        transactions.push({ ...this.parseTransaction(tx), chainId: chain.chainId as number });
+      });
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join('; ')}`);
+    }
+
+    return {
+      walletAddress: data.walletAddress as string,
+      transactions
+    };
+  }
+
+  /**
+   * Parses a JSON array of { walletAddress, transactions } inputs
+   * Each wallet may appear only once
+   */
+  parseBatch(input: string): WalletData[] {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      throw new Error('Validation failed: Input must be a non-empty array of wallets');
+    }
+
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    parsed.forEach((entry, walletIndex) => {
+      const result = this.validate(entry);
+      if (!result.isValid) {
+        errors.push(...result.errors.map(err => `Wallet at index ${walletIndex}: ${err}`));
+        return;
+      }
+
+      const address = ((entry as Record<string, unknown>).walletAddress as string).toLowerCase();
+      if (seen.has(address)) {
+        errors.push(`Wallet at index ${walletIndex}: duplicate walletAddress`);
+      }
+      seen.add(address);
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${errors.join('; ')}`);
+    }
+
+    return (parsed as Record<string, unknown>[]).map(data => ({
+      walletAddress: data.walletAddress as string,
+      transactions: (data.transactions as unknown[]).map(tx => this.parseTransaction(tx))
+    }));
+  }
+
   /**
    * Parses a single transaction object
    * Requirements: 1.3
    */
   private parseTransaction(tx: unknown): Transaction {
     const transaction = tx as Record<string, unknown>;
-    
-    return {
+    const parsed = {
       hash: transaction.hash as string,
       timestamp: transaction.timestamp as string,
       type: transaction.type as TransactionType,
-      details: transaction.details as Record<string, any>
-    };
+      details: transaction.details as Record<string, unknown>
+    } as Transaction;
+
+    if (transaction.chainId !== undefined) {
+      parsed.chainId = transaction.chainId as number;
+    }
+
+    return parsed;
+  }
+
+  private isChainId(value: unknown): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0;
   }
 }
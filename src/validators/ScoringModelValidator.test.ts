@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScoringModelValidator } from './ScoringModelValidator';
+import { DEFAULT_SCORING_MODEL, loadScoringModel } from '../calculators/scoringModel';
+
+describe('ScoringModelValidator', () => {
+  const validator = new ScoringModelValidator();
+
+  it('should accept the bundled model', () => {
+    expect(validator.validate(DEFAULT_SCORING_MODEL)).toEqual({ isValid: true, errors: [], warnings: [] });
+  });
+
+  it('should report missing scores, bad numbers and unknown signals', () => {
+    const result = validator.validate({
+      version: '2',
+      scores: {
+        riskAppetite: { base: '50', signals: [{ signal: 'swaps', weight: 5, cap: -1 }] },
+        loyalty: { base: 50, signals: [{ signal: 'toString', weight: 1 }] },
+        vibes: { base: 50, signals: [] },
+      },
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      'Unknown score: vibes. Must be one of: riskAppetite, loyalty, activity',
+      'riskAppetite.base must be a finite number',
+      'riskAppetite.signals[0].cap must be a non-negative number',
+      expect.stringContaining('loyalty.signals[0]: unknown signal "toString"'),
+      'Missing score definition: activity',
+    ]);
+  });
+
+  it('should warn when a signal is weighted twice in one score', () => {
+    const result = validator.validate({
+      ...DEFAULT_SCORING_MODEL,
+      scores: {
+        ...DEFAULT_SCORING_MODEL.scores,
+        activity: { base: 30, signals: [{ signal: 'transactions', weight: 1 }, { signal: 'transactions', weight: 2 }] },
+      },
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual(['activity.signals[1]: signal "transactions" is weighted more than once in activity']);
+  });
+
+  it('should load a model file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scoring-model-'));
+    const valid = path.join(dir, 'model.json');
+    const invalid = path.join(dir, 'invalid.json');
+    fs.writeFileSync(valid, JSON.stringify({ ...DEFAULT_SCORING_MODEL, version: 'tuned-3' }));
+    fs.writeFileSync(invalid, JSON.stringify({ version: 'broken' }));
+
+    expect(loadScoringModel(valid).version).toBe('tuned-3');
+    expect(() => loadScoringModel(invalid)).toThrow('Invalid scoring model: Missing required field: scores');
+    expect(() => loadScoringModel(path.join(dir, 'missing.json'))).toThrow('Failed to load scoring model');
+  });
+});
@@ -0,0 +1,124 @@
+import { ValidationResult, ScoringModel, ScoreName } from '../types';
+import { SCORING_SIGNALS } from '../calculators/scoringSignals.js';
+
+const SCORE_NAMES: ScoreName[] = ['riskAppetite', 'loyalty', 'activity'];
+
+/**
+ * ScoringModelValidator
+ * Checks a scoring model declares a base score and known, well-formed
+ * weighted signals for every score
+ */
+export class ScoringModelValidator {
+  validate(input: unknown): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      errors.push('Scoring model must be a valid object');
+      return { isValid: false, errors, warnings };
+    }
+
+    const model = input as Record<string, unknown>;
+
+    if (typeof model.version !== 'string' || model.version.trim() === '') {
+      errors.push('Missing required field: version');
+    }
+
+    if (typeof model.scores !== 'object' || model.scores === null || Array.isArray(model.scores)) {
+      errors.push('Missing required field: scores');
+      return { isValid: false, errors, warnings };
+    }
+
+    const scores = model.scores as Record<string, unknown>;
+
+    Object.keys(scores)
+      .filter(name => !SCORE_NAMES.includes(name as ScoreName))
+      .forEach(name => errors.push(`Unknown score: ${name}. Must be one of: ${SCORE_NAMES.join(', ')}`));
+
+    SCORE_NAMES.forEach(name => {
+      if (!(name in scores)) {
+        errors.push(`Missing score definition: ${name}`);
+        return;
+      }
+      this.validateScore(name, scores[name], errors, warnings);
+    });
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  /**
+   * Parse and validate a scoring model JSON string
+   */
+  parse(input: string): ScoringModel {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Invalid scoring model JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const result = this.validate(parsed);
+    if (!result.isValid) {
+      throw new Error(`Invalid scoring model: ${result.errors.join('; ')}`);
+    }
+
+    return parsed as ScoringModel;
+  }
+
+  private validateScore(name: ScoreName, definition: unknown, errors: string[], warnings: string[]): void {
+    if (typeof definition !== 'object' || definition === null) {
+      errors.push(`${name} must be an object`);
+      return;
+    }
+
+    const score = definition as Record<string, unknown>;
+
+    if (!this.isFiniteNumber(score.base)) {
+      errors.push(`${name}.base must be a finite number`);
+    }
+
+    if (!Array.isArray(score.signals)) {
+      errors.push(`${name}.signals must be an array`);
+      return;
+    }
+
+    const seen = new Set<string>();
+    score.signals.forEach((entry: unknown, index: number) => {
+      const path = `${name}.signals[${index}]`;
+
+      if (typeof entry !== 'object' || entry === null) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+
+      const weighted = entry as Record<string, unknown>;
+      const signal = weighted.signal;
+
+      if (typeof signal !== 'string' || !Object.prototype.hasOwnProperty.call(SCORING_SIGNALS, signal)) {
+        errors.push(
+          `${path}: unknown signal "${String(signal)}". Must be one of: ${Object.keys(SCORING_SIGNALS).join(', ')}`
+        );
+      } else if (seen.has(signal)) {
+        warnings.push(`${path}: signal "${signal}" is weighted more than once in ${name}`);
+      } else {
+        seen.add(signal);
+      }
+
+      if (!this.isFiniteNumber(weighted.weight)) {
+        errors.push(`${path}.weight must be a finite number`);
+      }
+
+      if (weighted.cap !== undefined && (!this.isFiniteNumber(weighted.cap) || weighted.cap < 0)) {
+        errors.push(`${path}.cap must be a non-negative number`);
+      }
+    });
+  }
+
+  private isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+}
@@ -1 +1,2 @@
 export { InputValidator } from './InputValidator';
+export { ScoringModelValidator } from './ScoringModelValidator';